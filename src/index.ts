@@ -1,7 +1,9 @@
-import express from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import routes from './routes';
+import { LlmProviders } from './utils/llmProvider';
+import { JSON_RPC_ERRORS, JsonRpc } from './utils/jsonRpc';
 
 // Load environment variables
 dotenv.config();
@@ -16,6 +18,14 @@ app.use(express.json());
 // Routes
 app.use('/', routes);
 
+// Bodies that are not valid JSON get a JSON-RPC parse error
+app.use((err: { type?: string }, req: Request, res: Response, next: NextFunction) => {
+    if (err?.type === 'entity.parse.failed') {
+        return res.status(400).json(JsonRpc.error(null, JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error'));
+    }
+    next(err);
+});
+
 // Start server
 app.listen(PORT, () => {
     console.log(`Server is running on port ${PORT}`);
@@ -24,5 +34,5 @@ app.listen(PORT, () => {
     console.log(`AI Chat endpoint: http://localhost:${PORT}/ai/chat`);
     console.log(`Transaction decode endpoint: http://localhost:${PORT}/tx/decode`);
     console.log(`Transaction types endpoint: http://localhost:${PORT}/tx/types`);
-    console.log(`OpenAI API Key configured: ${process.env.OPENAI_API_KEY ? 'Yes' : 'No'}`);
+    console.log(`LLM providers: transaction=${LlmProviders.describe('transaction')}, website=${LlmProviders.describe('website')}`);
 });
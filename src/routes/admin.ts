@@ -0,0 +1,142 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { isAddress } from 'viem';
+import { AbiCache } from '../utils/abiCache';
+import { TokenMetadataService } from '../utils/tokenMetadata';
+import { PolicyEngine } from '../utils/policyEngine';
+
+const router = Router();
+
+/**
+ * Admin endpoints require the x-admin-key header to match ADMIN_API_KEY; they are disabled when it is unset
+ */
+export function requireAdminKey(req: Request, res: Response, next: NextFunction) {
+    const adminKey = process.env.ADMIN_API_KEY;
+
+    if (!adminKey) {
+        return res.status(403).json({
+            success: false,
+            error: 'Admin endpoints are disabled (ADMIN_API_KEY not set)',
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    if (req.header('x-admin-key') !== adminKey) {
+        return res.status(401).json({
+            success: false,
+            error: 'Invalid admin key',
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    next();
+}
+
+router.use('/admin', requireAdminKey);
+
+/**
+ * ABI cache statistics
+ * GET /admin/cache/abi
+ */
+router.get('/admin/cache/abi', (req: Request, res: Response) => {
+    res.json({
+        success: true,
+        cache: AbiCache.stats(),
+        timestamp: new Date().toISOString()
+    });
+});
+
+/**
+ * Purge the cached ABI and source of one contract
+ * DELETE /admin/cache/abi/:chainId/:address
+ */
+router.delete('/admin/cache/abi/:chainId/:address', (req: Request, res: Response) => {
+    const chainId = Number(req.params.chainId);
+    const { address } = req.params;
+
+    if (!Number.isInteger(chainId) || chainId <= 0 || !isAddress(address)) {
+        return res.status(400).json({
+            success: false,
+            error: 'A positive chainId and a valid address are required',
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    res.json({
+        success: true,
+        key: AbiCache.key(chainId, address),
+        purged: AbiCache.purge(chainId, address),
+        timestamp: new Date().toISOString()
+    });
+});
+
+/**
+ * Purge the whole ABI cache
+ * DELETE /admin/cache/abi
+ */
+router.delete('/admin/cache/abi', (req: Request, res: Response) => {
+    res.json({
+        success: true,
+        purged: AbiCache.clear(),
+        timestamp: new Date().toISOString()
+    });
+});
+
+/**
+ * Import a token list used to resolve token metadata without on-chain lookups
+ * POST /admin/tokens/import
+ * Body: a Uniswap-format token list ({ tokens: [{ chainId, address, symbol, name, decimals }] })
+ */
+router.post('/admin/tokens/import', (req: Request, res: Response) => {
+    try {
+        const imported = TokenMetadataService.importTokenList(req.body);
+        res.json({
+            success: true,
+            imported,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        res.status(400).json({
+            success: false,
+            error: 'Invalid token list',
+            details: error instanceof Error ? error.message : 'Unknown error',
+            timestamp: new Date().toISOString()
+        });
+    }
+});
+
+/**
+ * Loaded transaction policies (API keys are not returned)
+ * GET /admin/policies
+ */
+router.get('/admin/policies', (req: Request, res: Response) => {
+    res.json({
+        success: true,
+        policies: PolicyEngine.list().map(({ apiKeys, ...policy }) => ({ ...policy, apiKeyCount: apiKeys.length })),
+        timestamp: new Date().toISOString()
+    });
+});
+
+/**
+ * Re-read the POLICY_PATH files; on any error the current policies stay in effect
+ * POST /admin/policies/reload
+ */
+router.post('/admin/policies/reload', (req: Request, res: Response) => {
+    const { loaded, errors } = PolicyEngine.reload();
+
+    if (errors.length > 0) {
+        return res.status(400).json({
+            success: false,
+            error: 'Policies not reloaded',
+            details: errors,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    res.json({
+        success: true,
+        loaded,
+        timestamp: new Date().toISOString()
+    });
+});
+
+export default router;
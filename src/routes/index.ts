@@ -1,11 +1,17 @@
 import { Router } from 'express';
 import healthRoutes from './health';
 import transactionRoutes from './transaction';
+import adminRoutes from './admin';
+import reputationRoutes from './reputation';
+import proxyRoutes from './proxy';
 
 const router = Router();
 
 // Mount route modules
 router.use('/', healthRoutes);
 router.use('/', transactionRoutes);
+router.use('/', adminRoutes);
+router.use('/', reputationRoutes);
+router.use('/', proxyRoutes);
 
 export default router;
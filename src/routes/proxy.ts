@@ -0,0 +1,29 @@
+import { Router, Request, Response } from 'express';
+import { RpcProxy } from '../utils/rpcProxy';
+import { PolicyEngine } from '../utils/policyEngine';
+import { JSON_RPC_ERRORS, JsonRpc } from '../utils/jsonRpc';
+
+const router = Router();
+
+/**
+ * Wallet-facing JSON-RPC endpoint (set as the wallet's RPC URL), enabled with RPC_PROXY_ENABLED=true
+ * POST /rpc/:chainId
+ * Headers: x-api-key, or the apiKey query parameter for wallets that cannot set headers (selects the organization policy)
+ * Body: a JSON-RPC request or batch
+ */
+router.post('/rpc/:chainId', async (req: Request, res: Response) => {
+    if (process.env.RPC_PROXY_ENABLED !== 'true') {
+        return res.status(404).json(JsonRpc.error(null, JSON_RPC_ERRORS.METHOD_NOT_FOUND, 'RPC proxy is disabled'));
+    }
+
+    const chainId = Number(req.params.chainId);
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+        return res.status(400).json(JsonRpc.error(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'chainId must be a positive integer'));
+    }
+
+    const apiKey = req.header('x-api-key') ?? (typeof req.query.apiKey === 'string' ? req.query.apiKey : undefined);
+    const response = await RpcProxy.handle(chainId, req.body, PolicyEngine.resolve(apiKey));
+    return response ? res.json(response) : res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,189 @@
+import { Router, Request, Response } from 'express';
+import { isAddress } from 'viem';
+import { ReputationInput, ReputationStore } from '../utils/reputationStore';
+import { requireAdminKey } from './admin';
+
+const router = Router();
+
+function parseEntry(body: any, address?: string): ReputationInput | string {
+    const target = address ?? body?.address;
+    if (typeof target !== 'string' || !isAddress(target)) {
+        return 'A valid address is required';
+    }
+    if (typeof body?.label !== 'string' || !body.label.trim()) {
+        return 'label is required';
+    }
+    if (body.confidence !== undefined && (typeof body.confidence !== 'number' || body.confidence < 0 || body.confidence > 100)) {
+        return 'confidence must be a number between 0 and 100';
+    }
+    if (body.chainId !== undefined && (!Number.isInteger(body.chainId) || body.chainId <= 0)) {
+        return 'chainId must be a positive integer';
+    }
+
+    return {
+        address: target,
+        label: body.label.trim(),
+        category: typeof body.category === 'string' ? body.category : undefined,
+        confidence: body.confidence ?? 80,
+        chainId: body.chainId,
+        source: typeof body.source === 'string' && body.source ? body.source : 'manual',
+        notes: typeof body.notes === 'string' ? body.notes : undefined
+    };
+}
+
+/**
+ * List reputation entries
+ * GET /reputation/addresses?source=...&category=...
+ */
+router.get('/reputation/addresses', (req: Request, res: Response) => {
+    const entries = ReputationStore.list({
+        source: typeof req.query.source === 'string' ? req.query.source : undefined,
+        category: typeof req.query.category === 'string' ? req.query.category : undefined
+    });
+
+    res.json({
+        success: true,
+        count: entries.length,
+        entries,
+        timestamp: new Date().toISOString()
+    });
+});
+
+/**
+ * Look up one address
+ * GET /reputation/addresses/:address
+ */
+router.get('/reputation/addresses/:address', (req: Request, res: Response) => {
+    if (!isAddress(req.params.address)) {
+        return res.status(400).json({
+            success: false,
+            error: 'Invalid address',
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    const entry = ReputationStore.get(req.params.address);
+    if (!entry) {
+        return res.status(404).json({
+            success: false,
+            error: 'Address has no reputation entry',
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    res.json({
+        success: true,
+        entry,
+        timestamp: new Date().toISOString()
+    });
+});
+
+/**
+ * Add (or replace) an entry
+ * POST /reputation/addresses
+ * Body: { address, label, category?, confidence?: 0-100, chainId?, source?, notes? }
+ */
+router.post('/reputation/addresses', requireAdminKey, (req: Request, res: Response) => {
+    const input = parseEntry(req.body);
+    if (typeof input === 'string') {
+        return res.status(400).json({
+            success: false,
+            error: input,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    const existed = !!ReputationStore.get(input.address);
+    const entry = ReputationStore.upsert(input);
+
+    res.status(existed ? 200 : 201).json({
+        success: true,
+        entry,
+        timestamp: new Date().toISOString()
+    });
+});
+
+/**
+ * Update an existing entry
+ * PUT /reputation/addresses/:address
+ */
+router.put('/reputation/addresses/:address', requireAdminKey, (req: Request, res: Response) => {
+    const existing = isAddress(req.params.address) ? ReputationStore.get(req.params.address) : undefined;
+    if (!existing) {
+        return res.status(404).json({
+            success: false,
+            error: 'Address has no reputation entry',
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    const input = parseEntry({ ...existing, ...req.body }, req.params.address);
+    if (typeof input === 'string') {
+        return res.status(400).json({
+            success: false,
+            error: input,
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    res.json({
+        success: true,
+        entry: ReputationStore.upsert(input),
+        timestamp: new Date().toISOString()
+    });
+});
+
+/**
+ * Remove an entry
+ * DELETE /reputation/addresses/:address
+ */
+router.delete('/reputation/addresses/:address', requireAdminKey, (req: Request, res: Response) => {
+    if (!isAddress(req.params.address) || !ReputationStore.remove(req.params.address)) {
+        return res.status(404).json({
+            success: false,
+            error: 'Address has no reputation entry',
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    res.json({
+        success: true,
+        removed: req.params.address,
+        timestamp: new Date().toISOString()
+    });
+});
+
+/**
+ * Import a blocklist
+ * POST /reputation/import
+ * Body: { source: "scamsniffer", content: "<CSV or JSON text>" } or { source, entries: [...] }
+ */
+router.post('/reputation/import', requireAdminKey, (req: Request, res: Response) => {
+    const { source, content, entries } = req.body ?? {};
+
+    if (typeof source !== 'string' || !source) {
+        return res.status(400).json({
+            success: false,
+            error: 'source is required',
+            timestamp: new Date().toISOString()
+        });
+    }
+
+    try {
+        const imported = ReputationStore.importList(typeof content === 'string' ? content : entries, source);
+        res.json({
+            success: true,
+            imported,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error) {
+        res.status(400).json({
+            success: false,
+            error: 'Invalid reputation list',
+            details: error instanceof Error ? error.message : 'Unknown error',
+            timestamp: new Date().toISOString()
+        });
+    }
+});
+
+export default router;
@@ -2,8 +2,14 @@ import { Router, Request, Response } from 'express';
 import { TransactionDecoder } from '../utils/txDecoder';
 import { TransactionAnalyzer } from '../utils/transactionAnalyzer';
 import { WebsiteAnalyzer } from '../utils/websiteAnalyzer';
+import { TypedDataAnalyzer } from '../utils/typedDataAnalyzer';
+import { MessageAnalyzer } from '../utils/messageAnalyzer';
+import { TransactionSimulator } from '../utils/simulator';
+import { RpcDispatcher, RpcRequestPayload, SUPPORTED_RPC_METHODS } from '../utils/rpcDispatcher';
+import { PolicyEngine } from '../utils/policyEngine';
 import { fetchContractAbi } from '../utils/abi';
-import { DecodedTransaction, WebsiteConnectionRequest } from '../utils/types';
+import { JSON_RPC_ERRORS, JsonRpc, JsonRpcErrorObject, RpcOutcome } from '../utils/jsonRpc';
+import { AIAnalysisResult, AnalysisProgressEvent, DecodedTransaction, WebsiteConnectionRequest } from '../utils/types';
 
 const router = Router();
 
@@ -13,6 +19,92 @@ function jsonSafe<T>(value: T): T {
     );
 }
 
+/**
+ * Switches the response to Server-Sent Events and returns a writer for named events.
+ * Writes after the client disconnected are dropped; the analysis itself runs to completion.
+ */
+function openEventStream(res: Response): (event: string, data: unknown) => void {
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    return (event, data) => {
+        if (!res.writableEnded && !res.destroyed) {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(jsonSafe(data))}\n\n`);
+        }
+    };
+}
+
+/**
+ * Progress events are sent under their stage name, without the stage field
+ */
+function sendProgress(send: (event: string, data: unknown) => void) {
+    return ({ stage, ...data }: AnalysisProgressEvent) => send(stage, data);
+}
+
+/**
+ * Handler for the JSON-RPC style routes. Batches (arrays) and requests with `jsonrpc: "2.0"` get JSON-RPC
+ * responses with HTTP 200; other bodies get the legacy `outcome.status` / `outcome.body`.
+ */
+function rpcHandler<T>(failure: string, handle: (payload: T, req: Request) => Promise<RpcOutcome>, errorStatus = 500) {
+    return async (req: Request, res: Response) => {
+        if (JsonRpc.isJsonRpc(req.body)) {
+            const response = await JsonRpc.handle(req.body, (request) => handle(request as T, req));
+            return response ? res.json(jsonSafe(response)) : res.status(204).end();
+        }
+
+        try {
+            const outcome = await handle(req.body as T, req);
+            return res.status(outcome.status).json(jsonSafe(outcome.body));
+        } catch (error) {
+            console.error(`${failure}:`, error);
+            return res.status(errorStatus).json({
+                success: false,
+                error: failure,
+                details: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString()
+            });
+        }
+    };
+}
+
+function invalidParams(message: string): RpcOutcome {
+    return {
+        status: 400,
+        body: { success: false, error: message, timestamp: new Date().toISOString() },
+        error: { code: JSON_RPC_ERRORS.INVALID_PARAMS, message }
+    };
+}
+
+/**
+ * JSON-RPC error for an analysis that did not produce a verdict; the result is attached as `data`
+ */
+function analysisError(result: AIAnalysisResult, data: unknown): JsonRpcErrorObject | undefined {
+    if (result.analysis.analysisMode === 'fail-closed') {
+        return { code: JSON_RPC_ERRORS.ANALYSIS_UNAVAILABLE, message: 'Analysis unavailable', data };
+    }
+    if (!result.success) {
+        // Analyses fail with an error on technical problems and without one on requests they cannot interpret
+        return result.error
+            ? { code: JSON_RPC_ERRORS.INTERNAL_ERROR, message: result.analysis.description, data }
+            : { code: JSON_RPC_ERRORS.INVALID_PARAMS, message: result.analysis.description, data };
+    }
+    return undefined;
+}
+
+/**
+ * JSON-RPC error for a request the organization's policy blocks
+ */
+function policyError(result: AIAnalysisResult, data: unknown): JsonRpcErrorObject | undefined {
+    return result.policyDecision === 'block' && result.policy
+        ? { code: JSON_RPC_ERRORS.BLOCKED_BY_POLICY, message: `Blocked by policy ${result.policy.policyId}: ${result.policy.violatedRules.join(', ')}`, data }
+        : undefined;
+}
+
 /**
  * Analyze a raw transaction
  * POST /tx/analyze
@@ -63,16 +155,17 @@ router.post('/tx/analyze', async (req: Request, res: Response) => {
             gasPriceFormatted: result.transaction.gasPrice ? TransactionDecoder.formatGasPrice(result.transaction.gasPrice) : undefined,
             maxFeePerGasFormatted: result.transaction.maxFeePerGas ? TransactionDecoder.formatGasPrice(result.transaction.maxFeePerGas) : undefined,
             maxPriorityFeePerGasFormatted: result.transaction.maxPriorityFeePerGas ? TransactionDecoder.formatGasPrice(result.transaction.maxPriorityFeePerGas) : undefined,
+            maxFeePerBlobGasFormatted: result.transaction.maxFeePerBlobGas ? TransactionDecoder.formatGasPrice(result.transaction.maxFeePerBlobGas) : undefined,
             transactionTypeFormatted: TransactionDecoder.getTransactionType(result.transaction.type),
             transactionTypeNumber: TransactionDecoder.getTransactionTypeNumber(result.transaction.type),
         };
 
         console.log('Transaction analyzed successfully:', result.analysis.type);
 
-        res.json({
+        res.json(jsonSafe({
             ...result,
             transaction: formattedTransaction
-        });
+        }));
 
     } catch (error) {
         console.error('Transaction analysis error:', error);
@@ -105,6 +198,9 @@ router.post('/tx/decode', async (req: Request, res: Response) => {
         console.log('Decoding transaction:', rawTx.slice(0, 20) + '...');
 
         const decoded = TransactionDecoder.decodeRawTransaction(rawTx);
+        if (decoded.authorizationList) {
+            decoded.authorizationList = await TransactionDecoder.recoverAuthorities(decoded.authorizationList);
+        }
 
         // Get the abi from the to address
         const abi = await fetchContractAbi(decoded.chainId, decoded.to ?? '');
@@ -118,17 +214,18 @@ router.post('/tx/decode', async (req: Request, res: Response) => {
             gasPriceFormatted: decoded.gasPrice ? TransactionDecoder.formatGasPrice(decoded.gasPrice) : undefined,
             maxFeePerGasFormatted: decoded.maxFeePerGas ? TransactionDecoder.formatGasPrice(decoded.maxFeePerGas) : undefined,
             maxPriorityFeePerGasFormatted: decoded.maxPriorityFeePerGas ? TransactionDecoder.formatGasPrice(decoded.maxPriorityFeePerGas) : undefined,
+            maxFeePerBlobGasFormatted: decoded.maxFeePerBlobGas ? TransactionDecoder.formatGasPrice(decoded.maxFeePerBlobGas) : undefined,
             transactionType: TransactionDecoder.getTransactionType(decoded.type),
             transactionTypeNumber: TransactionDecoder.getTransactionTypeNumber(decoded.type),
         };
 
         console.log('Transaction decoded successfully');
 
-        res.json({
+        res.json(jsonSafe({
             success: true,
             transaction: formattedDecoded,
             timestamp: new Date().toISOString()
-        });
+        }));
 
     } catch (error) {
         console.error('Transaction decode error:', error);
@@ -147,7 +244,9 @@ router.get('/tx/types', (req: Request, res: Response) => {
     const types = [
         { type: 'legacy', typeNumber: 0, name: 'Legacy', description: 'Original transaction format' },
         { type: 'eip2930', typeNumber: 1, name: 'EIP-2930', description: 'Access List transactions' },
-        { type: 'eip1559', typeNumber: 2, name: 'EIP-1559', description: 'Fee Market transactions' }
+        { type: 'eip1559', typeNumber: 2, name: 'EIP-1559', description: 'Fee Market transactions' },
+        { type: 'eip4844', typeNumber: 3, name: 'EIP-4844', description: 'Blob transactions' },
+        { type: 'eip7702', typeNumber: 4, name: 'EIP-7702', description: 'Set code (EOA delegation) transactions' }
     ];
 
     res.json({
@@ -156,54 +255,199 @@ router.get('/tx/types', (req: Request, res: Response) => {
     });
 });
 
-router.post('/tx/ai-analyze', async (req: Request, res: Response) => {
-    try {
-        const payload = req.body as {
-            id?: string;
-            method?: string;
-            params?: Array<{
-                chainId?: string;
-                gas?: string;
-                value?: string;
-                from?: string;
-                to?: string;
-                data?: string;
-            }>;
-        };
+/**
+ * Get wallet JSON-RPC methods analyzed by /tx/ai-analyze
+ * GET /tx/methods
+ */
+router.get('/tx/methods', (req: Request, res: Response) => {
+    res.json({
+        supportedMethods: SUPPORTED_RPC_METHODS,
+        timestamp: new Date().toISOString()
+    });
+});
 
-        const tx = payload?.params && payload.params[0] ? payload.params[0] : undefined;
-        if (!tx) {
-            return res.status(400).json({
-                success: false,
-                error: 'Missing params[0] transaction object',
-                timestamp: new Date().toISOString()
-            });
-        }
+/**
+ * Analyze any wallet JSON-RPC request, routed on its method
+ * POST /tx/ai-analyze
+ * Headers: x-api-key (optional, selects the organization policy)
+ * Body: { id, method, params, chainId?: "0x1", origin?: "https://..." }
+ */
+router.post('/tx/ai-analyze', rpcHandler('AI analysis failed', async (payload: RpcRequestPayload, req: Request) => {
+    if (!payload || typeof payload !== 'object') {
+        return invalidParams('Invalid JSON-RPC payload');
+    }
 
-        console.log('AI analyzing transaction:', tx.to ? `${tx.to.slice(0, 10)}...` : 'contract creation');
+    console.log('AI analyzing request:', payload.method ?? 'eth_sendTransaction');
 
-        // Use AI analyzer
-        const result = await TransactionAnalyzer.analyzeTransactionWithAI(tx);
+    const result = await RpcDispatcher.dispatch(payload, { policy: PolicyEngine.resolve(req.header('x-api-key')) });
+    const body = { id: payload.id, ...result };
 
-        console.log('AI analysis completed:', result.analysis.type, 'Score:', result.analysis.fraudScore);
+    // Malformed params for a supported method; unsupported methods get a "not analyzed" verdict instead
+    if (!result.analyzed && result.error) {
+        return { status: 400, body, error: { code: JSON_RPC_ERRORS.INVALID_PARAMS, message: result.error, data: body } };
+    }
 
-        return res.json({
-            id: payload.id,
-            method: payload.method,
-            ...result
+    console.log('AI analysis completed:', result.method, result.analysis.type, 'Score:', result.analysis.fraudScore);
+    if (result.policy) {
+        console.log(`Policy ${result.policy.policyId}: ${result.policy.decision}`, result.policy.violatedRules);
+    }
+
+    return { status: 200, body, error: policyError(result, body) ?? analysisError(result, body) };
+}));
+
+/**
+ * Streaming variant of /tx/ai-analyze (Server-Sent Events)
+ * POST /tx/ai-analyze/stream
+ * Body: same as /tx/ai-analyze
+ * Events: decoded, contract, rules (with a preliminary verdict), reasoning, then verdict (the /tx/ai-analyze response) or error
+ */
+router.post('/tx/ai-analyze/stream', async (req: Request, res: Response) => {
+    const payload = req.body as RpcRequestPayload;
+
+    if (!payload || typeof payload !== 'object') {
+        return res.status(400).json({
+            success: false,
+            error: 'Invalid JSON-RPC payload',
+            timestamp: new Date().toISOString()
         });
+    }
+
+    const send = openEventStream(res);
+
+    try {
+        console.log('AI analyzing request (stream):', payload.method ?? 'eth_sendTransaction');
+
+        const result = await RpcDispatcher.dispatch(payload, {
+            onProgress: sendProgress(send),
+            policy: PolicyEngine.resolve(req.header('x-api-key'))
+        });
+
+        console.log('AI analysis completed:', result.method, result.analysis.type, 'Score:', result.analysis.fraudScore);
+
+        send('verdict', { id: payload.id, ...result });
 
     } catch (error) {
         console.error('AI analysis error:', error);
-        return res.status(500).json({
+        send('error', {
             success: false,
             error: 'AI analysis failed',
             details: error instanceof Error ? error.message : 'Unknown error',
             timestamp: new Date().toISOString()
         });
     }
+
+    res.end();
 });
 
+/**
+ * Simulate a transaction against the configured node and report balance changes
+ * POST /tx/simulate
+ * Body: { id, method: "eth_sendTransaction", params: [{ chainId, from, to, value, data, gas }] }
+ */
+router.post('/tx/simulate', rpcHandler('Simulation failed', async (payload: {
+    id?: string;
+    method?: string;
+    params?: Array<{
+        chainId?: string;
+        gas?: string;
+        value?: string;
+        from?: string;
+        to?: string;
+        data?: string;
+    }>;
+}) => {
+    const tx = payload?.params && payload.params[0] ? payload.params[0] : undefined;
+    if (!tx) {
+        return invalidParams('Missing params[0] transaction object');
+    }
+
+    const chainId = tx.chainId ? parseInt(tx.chainId, 16) : 1;
+    const simulation = await TransactionSimulator.simulate({ ...tx, chainId });
+
+    if (!simulation) {
+        const message = `No simulation node configured for chain ${chainId}`;
+        return {
+            status: 503,
+            body: { success: false, error: message, timestamp: new Date().toISOString() },
+            error: { code: JSON_RPC_ERRORS.ANALYSIS_UNAVAILABLE, message }
+        };
+    }
+
+    return {
+        status: 200,
+        body: {
+            id: payload.id,
+            method: payload.method,
+            success: simulation.success,
+            simulation,
+            warnings: TransactionSimulator.getWarnings(simulation, tx.from),
+            timestamp: new Date().toISOString()
+        }
+    };
+}));
+
+/**
+ * Analyze an EIP-712 typed data signature request (Permit, Permit2, DAI permit, ...)
+ * POST /tx/typed-data-analyze
+ * Body: { id, method: "eth_signTypedData_v4", params: [address, typedData], chainId?: "0x1" }
+ */
+router.post('/tx/typed-data-analyze', rpcHandler('Typed data analysis failed', async (payload: {
+    id?: string;
+    method?: string;
+    chainId?: string;
+    params?: unknown[];
+}) => {
+    if (!payload?.params || !Array.isArray(payload.params) || payload.params.length === 0) {
+        return invalidParams('Missing params with typed data');
+    }
+
+    console.log('AI analyzing typed data signature:', payload.method ?? 'eth_signTypedData');
+
+    const result = await TypedDataAnalyzer.analyzeTypedDataWithAI(payload);
+    const body = { id: payload.id, method: payload.method, ...result };
+
+    console.log('Typed data analysis completed:', result.typedData?.permitKind, 'Score:', result.analysis.fraudScore);
+
+    // Without typedData the params could not be parsed
+    if (!result.typedData) {
+        return { status: 400, body, error: { code: JSON_RPC_ERRORS.INVALID_PARAMS, message: result.error ?? 'Invalid typed data', data: body } };
+    }
+
+    return { status: 200, body, error: analysisError(result, body) };
+}));
+
+/**
+ * Analyze a personal_sign / eth_sign message signature request
+ * POST /tx/message-analyze
+ * Body: { id, method: "personal_sign" | "eth_sign", params: [...], origin?: "https://..." }
+ */
+router.post('/tx/message-analyze', rpcHandler('Message analysis failed', async (payload: {
+    id?: string;
+    method?: string;
+    origin?: string;
+    params?: unknown[];
+}) => {
+    if (!payload?.params || !Array.isArray(payload.params) || payload.params.length === 0) {
+        return invalidParams('Missing params with message');
+    }
+
+    console.log('AI analyzing message signature:', payload.method ?? 'personal_sign');
+
+    const result = await MessageAnalyzer.analyzeMessageWithAI(payload);
+    const body = { id: payload.id, method: payload.method, ...result };
+
+    console.log('Message analysis completed:', result.analysis.riskLevel, 'Score:', result.analysis.fraudScore);
+
+    // Without message the params could not be parsed
+    return {
+        status: 200,
+        body,
+        error: result.message
+            ? analysisError(result, body)
+            : { code: JSON_RPC_ERRORS.INVALID_PARAMS, message: result.error ?? 'Invalid message', data: body }
+    };
+}));
+
 router.post('/website/analyze', async (req: Request, res: Response) => {
     try {
         const request = req.body as WebsiteConnectionRequest;
@@ -245,77 +489,110 @@ router.post('/website/analyze', async (req: Request, res: Response) => {
     }
 });
 
-router.post('/tx/rpc', async (req: Request, res: Response) => {
-    try {
-        const payload = req.body as {
-            id?: string;
-            method?: string;
-            params?: Array<{
-                chainId?: string;
-                gas?: string;
-                value?: string;
-                from?: string;
-                to?: string;
-                data?: string;
-            }>;
-        };
+/**
+ * Streaming variant of /website/analyze (Server-Sent Events)
+ * POST /website/analyze/stream
+ * Body: same as /website/analyze
+ * Events: domain (with a preliminary verdict), reasoning, then verdict (the /website/analyze response) or error
+ */
+router.post('/website/analyze/stream', async (req: Request, res: Response) => {
+    const request = req.body as WebsiteConnectionRequest;
 
-        const tx = payload?.params && payload.params[0] ? payload.params[0] : undefined;
-        if (!tx) {
-            return res.status(400).json({
-                success: false,
-                error: 'Missing params[0] transaction object',
-                timestamp: new Date().toISOString()
-            });
-        }
+    if (!request?.url || !request.origin) {
+        return res.status(400).json({
+            success: false,
+            error: !request?.url ? 'URL is required' : 'Origin is required',
+            timestamp: new Date().toISOString()
+        });
+    }
 
-        console.log('Analyzing RPC transaction:', tx.to ? `${tx.to.slice(0, 10)}...` : 'contract creation');
+    const send = openEventStream(res);
 
-        // Use the new analyzer for transaction payload
-        const result = await TransactionAnalyzer.analyzeTransactionPayload(tx);
+    try {
+        console.log('Analyzing website connection (stream):', request.url);
 
-        if (!result.success) {
-            return res.status(500).json({
-                id: payload.id,
-                method: payload.method,
-                success: false,
-                error: result.error,
-                timestamp: result.timestamp
-            });
-        }
+        const result = await WebsiteAnalyzer.analyzeWebsiteConnection(request, sendProgress(send));
 
-        // Add formatted values for better readability
-        const formattedTransaction = {
-            ...result.transaction,
-            valueFormatted: TransactionDecoder.formatValue(result.transaction.value),
-            gasPriceFormatted: result.transaction.gasPrice ? TransactionDecoder.formatGasPrice(result.transaction.gasPrice) : undefined,
-            maxFeePerGasFormatted: result.transaction.maxFeePerGas ? TransactionDecoder.formatGasPrice(result.transaction.maxFeePerGas) : undefined,
-            maxPriorityFeePerGasFormatted: result.transaction.maxPriorityFeePerGas ? TransactionDecoder.formatGasPrice(result.transaction.maxPriorityFeePerGas) : undefined,
-            transactionTypeFormatted: TransactionDecoder.getTransactionType(result.transaction.type),
-            transactionTypeNumber: TransactionDecoder.getTransactionTypeNumber(result.transaction.type),
-        };
+        console.log('Website analysis completed:', result.analysis.riskLevel, 'Score:', result.analysis.fraudScore);
 
-        console.log('RPC transaction analyzed successfully:', result.analysis.type);
-
-        return res.json(jsonSafe({
-            id: payload.id,
-            method: payload.method,
-            success: true,
-            transaction: formattedTransaction,
-            analysis: result.analysis,
-            timestamp: result.timestamp
-        }));
+        send('verdict', result);
 
     } catch (error) {
-        console.error('RPC payload parse error:', error);
-        return res.status(400).json({
+        console.error('Website analysis error:', error);
+        send('error', {
             success: false,
-            error: 'Invalid JSON-RPC payload',
+            error: 'Website analysis failed',
             details: error instanceof Error ? error.message : 'Unknown error',
             timestamp: new Date().toISOString()
         });
     }
+
+    res.end();
 });
 
+router.post('/tx/rpc', rpcHandler('Invalid JSON-RPC payload', async (payload: {
+    id?: string;
+    method?: string;
+    params?: Array<{
+        chainId?: string;
+        gas?: string;
+        value?: string;
+        from?: string;
+        to?: string;
+        data?: string;
+        type?: string;
+        maxFeePerBlobGas?: string;
+        blobVersionedHashes?: `0x${string}`[];
+        authorizationList?: unknown[];
+    }>;
+}) => {
+    const tx = payload?.params && payload.params[0] ? payload.params[0] : undefined;
+    if (!tx) {
+        return invalidParams('Missing params[0] transaction object');
+    }
+
+    console.log('Analyzing RPC transaction:', tx.to ? `${tx.to.slice(0, 10)}...` : 'contract creation');
+
+    // Use the new analyzer for transaction payload
+    const result = await TransactionAnalyzer.analyzeTransactionPayload(tx);
+
+    if (!result.success) {
+        const body = {
+            id: payload.id,
+            method: payload.method,
+            success: false,
+            error: result.error,
+            timestamp: result.timestamp
+        };
+        return { status: 500, body, error: { code: JSON_RPC_ERRORS.INTERNAL_ERROR, message: result.error ?? result.analysis.description, data: body } };
+    }
+
+    // Add formatted values for better readability
+    const formattedTransaction = {
+        ...result.transaction,
+        valueFormatted: TransactionDecoder.formatValue(result.transaction.value),
+        gasPriceFormatted: result.transaction.gasPrice ? TransactionDecoder.formatGasPrice(result.transaction.gasPrice) : undefined,
+        maxFeePerGasFormatted: result.transaction.maxFeePerGas ? TransactionDecoder.formatGasPrice(result.transaction.maxFeePerGas) : undefined,
+        maxPriorityFeePerGasFormatted: result.transaction.maxPriorityFeePerGas ? TransactionDecoder.formatGasPrice(result.transaction.maxPriorityFeePerGas) : undefined,
+        maxFeePerBlobGasFormatted: result.transaction.maxFeePerBlobGas ? TransactionDecoder.formatGasPrice(result.transaction.maxFeePerBlobGas) : undefined,
+        transactionTypeFormatted: TransactionDecoder.getTransactionType(result.transaction.type),
+        transactionTypeNumber: TransactionDecoder.getTransactionTypeNumber(result.transaction.type),
+    };
+
+    console.log('RPC transaction analyzed successfully:', result.analysis.type);
+
+    return {
+        status: 200,
+        body: {
+            id: payload.id,
+            method: payload.method,
+            success: true,
+            transaction: formattedTransaction,
+            analysis: result.analysis,
+            timestamp: result.timestamp
+        }
+    };
+}, 400));
+
 export default router;
 
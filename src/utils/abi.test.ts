@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { pad } from 'viem';
+import { fetchAccountCode, fetchContractAbiWithFallback, fetchContractCreationTime, resolveProxy } from './abi';
+
+const PROXY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const IMPLEMENTATION = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const ADMIN = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+const BEACON = '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9';
+
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+const ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+const PROXIABLE_SLOT = '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7';
+
+const PLAIN_CODE = '0x6080604052348015600f57600080fd5b50';
+
+// Chain state served by the in-process node, keyed by lowercase address
+let code: Record<string, string> = {};
+let storage: Record<string, Record<string, string>> = {};
+let beaconImplementation = '0x';
+let server: Server;
+
+const key = (address: string) => address.toLowerCase();
+
+describe('resolveProxy', () => {
+    before(async () => {
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                const { id, method, params } = JSON.parse(body);
+                let result: unknown = null;
+                if (method === 'eth_getCode') {
+                    result = code[key(params[0])] ?? '0x';
+                } else if (method === 'eth_getStorageAt') {
+                    result = storage[key(params[0])]?.[params[1]] ?? pad('0x0');
+                } else if (method === 'eth_call') {
+                    result = beaconImplementation;
+                }
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        mock.method(console, 'warn', () => undefined);
+        code = { [key(PROXY)]: PLAIN_CODE, [key(IMPLEMENTATION)]: PLAIN_CODE };
+        storage = {};
+        beaconImplementation = '0x';
+        delete process.env.ETHERSCAN_API_KEY;
+        process.env.RPC_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.RPC_URL;
+    });
+
+    it('reads code from the configured node', async () => {
+        assert.equal(await fetchAccountCode(1, PROXY), PLAIN_CODE);
+        assert.equal(await fetchAccountCode(1, ADMIN), '0x');
+        assert.equal(await fetchAccountCode(1, 'not-an-address'), null);
+    });
+
+    it('returns null for EOAs and contracts that are not proxies', async () => {
+        assert.equal(await resolveProxy(1, ADMIN), null);
+        assert.equal(await resolveProxy(1, PROXY), null);
+    });
+
+    it('extracts the implementation from EIP-1167 minimal proxy code', async () => {
+        code[key(PROXY)] = `0x363d3d373d3d3d363d73${IMPLEMENTATION.slice(2).toLowerCase()}5af43d82803e903d91602b57fd5bf3`;
+
+        assert.deepEqual(await resolveProxy(1, PROXY), { proxyType: 'eip1167', implementationAddress: IMPLEMENTATION });
+    });
+
+    it('reads the EIP-1967 implementation and admin slots', async () => {
+        storage[key(PROXY)] = { [IMPLEMENTATION_SLOT]: pad(IMPLEMENTATION), [ADMIN_SLOT]: pad(ADMIN) };
+
+        assert.deepEqual(await resolveProxy(1, PROXY), { proxyType: 'eip1967', implementationAddress: IMPLEMENTATION, adminAddress: ADMIN });
+    });
+
+    it('asks the EIP-1967 beacon for its implementation', async () => {
+        storage[key(PROXY)] = { [BEACON_SLOT]: pad(BEACON) };
+        beaconImplementation = pad(IMPLEMENTATION);
+
+        const proxy = await resolveProxy(1, PROXY);
+
+        assert.equal(proxy?.proxyType, 'eip1967-beacon');
+        assert.equal(proxy?.implementationAddress, IMPLEMENTATION);
+        assert.equal(proxy?.beaconAddress, BEACON);
+    });
+
+    it('reads the EIP-1822 proxiable slot', async () => {
+        storage[key(PROXY)] = { [PROXIABLE_SLOT]: pad(IMPLEMENTATION) };
+
+        assert.deepEqual(await resolveProxy(1, PROXY), { proxyType: 'eip1822', implementationAddress: IMPLEMENTATION });
+    });
+
+    it('reads the Safe singleton from slot 0', async () => {
+        // Canonical SafeProxy (PUSH32) and a proxy pushing the selector with PUSH4
+        const safeProxy = '0x608060405273ffffffffffffffffffffffffffffffffffffffff600054167fa619486e0000000000000000000000000000000000000000000000000000000060003514';
+        const push4Proxy = '0x60003560e01c8063a619486e14601b57';
+        storage[key(PROXY)] = { '0x0': pad(IMPLEMENTATION) };
+
+        for (const proxyCode of [safeProxy, push4Proxy]) {
+            code[key(PROXY)] = proxyCode;
+            assert.deepEqual(await resolveProxy(1, PROXY), { proxyType: 'gnosis-safe', implementationAddress: IMPLEMENTATION });
+        }
+    });
+
+    it('does not take a selector-like byte sequence or a slot 0 without code for a Safe proxy', async () => {
+        // a619486e inside a PUSH20 operand, not pushed as a selector
+        code[key(PROXY)] = '0x73000000000000000000000000a619486e0000000050';
+        storage[key(PROXY)] = { '0x0': pad(IMPLEMENTATION) };
+        assert.equal(await resolveProxy(1, PROXY), null);
+
+        code[key(PROXY)] = '0x60003560e01c8063a619486e14601b57';
+        storage[key(PROXY)] = { '0x0': pad(ADMIN) };
+        assert.equal(await resolveProxy(1, PROXY), null);
+    });
+
+    it('resolves proxies over RPC when no Etherscan key is set', async () => {
+        storage[key(PROXY)] = { [IMPLEMENTATION_SLOT]: pad(IMPLEMENTATION) };
+
+        const result = await fetchContractAbiWithFallback(1, PROXY);
+
+        assert.equal(result.abi, null);
+        assert.equal(result.error, 'No Etherscan API key provided');
+        assert.equal(result.proxy?.proxyType, 'eip1967');
+        assert.equal(result.proxy?.implementationAddress, IMPLEMENTATION);
+    });
+});
+
+describe('fetchContractCreationTime', () => {
+    beforeEach(() => {
+        process.env.ETHERSCAN_API_KEY = 'test-key';
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.ETHERSCAN_API_KEY;
+    });
+
+    it('reads the block timestamp through the Etherscan proxy when the creation has none', async () => {
+        mock.method(globalThis, 'fetch', async (url: string) => {
+            const action = new URL(url).searchParams.get('action');
+            return action === 'getcontractcreation'
+                ? Response.json({ status: '1', message: 'OK', result: [{ contractAddress: PROXY, blockNumber: '19000000' }] })
+                : Response.json({ jsonrpc: '2.0', id: 1, result: { number: '0x121eac0', timestamp: '0x65a6f2b0' } });
+        });
+
+        assert.deepEqual(await fetchContractCreationTime(1, PROXY), new Date(0x65a6f2b0 * 1000));
+    });
+});
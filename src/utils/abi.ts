@@ -1,13 +1,39 @@
 import type { Abi } from 'viem';
-import { isAddress } from 'viem';
+import { getAddress, isAddress } from 'viem';
+import { getRpcUrl, rpcRequest } from './rpc';
+import { AbiCache } from './abiCache';
+import { AbiCacheInfo, ProxyInfo } from './types';
 
 // Etherscan v2 unified endpoint works for Etherscan family chains with a single key.
 const ETHERSCAN_V2_BASE = 'https://api.etherscan.io/v2';
 
+// Proxy storage slots
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+const EIP1967_ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+const EIP1822_PROXIABLE_SLOT = '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7';
+
+// Upgraded(address) and BeaconUpgraded(address) event topics
+const UPGRADED_TOPIC = '0xbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b';
+const BEACON_UPGRADED_TOPIC = '0x1cf3b03a6cf19fa2baba4df148e9dcabedea7f8a5c07840e207e5c089be95d3e';
+
+// EIP-1167 minimal proxy runtime code with the implementation address in the middle
+const EIP1167_PATTERN = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3/i;
+// Safe proxies expose masterCopy() (0xa619486e) and keep the singleton in slot 0. The selector is pushed
+// as PUSH4, or left-aligned in a PUSH32 as the canonical SafeProxy does
+const SAFE_MASTER_COPY_PUSH = /63a619486e|7fa619486e0{56}/;
+// implementation() selector, used to query beacons
+const IMPLEMENTATION_SELECTOR = '0x5c60da1b';
+
+// Upgrades within this window are reported as recent
+const RECENT_UPGRADE_MS = 30 * 24 * 60 * 60 * 1000;
+
 export interface AbiFetchResult {
     abi: Abi | null;
     source: 'etherscan' | 'fallback' | 'none';
     sourceCode?: string;
+    proxy?: ProxyInfo;
+    cache?: AbiCacheInfo;
     error?: string;
 }
 
@@ -38,14 +64,74 @@ export async function fetchContractAbiWithFallback(chainId: number, address: str
     }
 
     const key = apiKey ?? process.env.ETHERSCAN_API_KEY;
+
+    // Proxy slots are read through RPC_URL_<chainId> when configured, so they resolve without an explorer key
+    const proxyLookup = key || getRpcUrl(chainId) ? resolveProxyCached(chainId, address, key) : Promise.resolve(null);
+
     if (!key) {
+        const proxy = await proxyLookup;
         return {
             abi: null,
             source: 'none',
+            proxy: proxy ?? undefined,
             error: 'No Etherscan API key provided'
         };
     }
 
+    const [result, proxy] = await Promise.all([
+        fetchVerifiedAbi(chainId, address, key),
+        proxyLookup
+    ]);
+
+    if (!proxy) {
+        return result;
+    }
+
+    // Decode against the implementation, keeping the proxy's own functions (upgradeTo, admin, ...)
+    const implementation = await fetchVerifiedAbi(chainId, proxy.implementationAddress, key);
+    if (!implementation.abi) {
+        return { ...result, proxy };
+    }
+
+    return {
+        abi: [...implementation.abi, ...(result.abi ?? [])],
+        source: 'etherscan',
+        sourceCode: implementation.sourceCode,
+        proxy,
+        cache: implementation.cache
+    };
+}
+
+/**
+ * Fetches the verified ABI and source of a single contract, without proxy resolution.
+ * Verified contracts and "not verified" misses are served from AbiCache; transient failures are not cached.
+ */
+async function fetchVerifiedAbi(chainId: number, address: string, key: string): Promise<AbiFetchResult> {
+    const cached = AbiCache.get(chainId, address);
+    if (cached) {
+        return {
+            abi: cached.abi,
+            source: cached.abi ? 'etherscan' : 'none',
+            sourceCode: cached.sourceCode,
+            cache: cached.cache,
+            error: cached.error
+        };
+    }
+
+    const result = await requestVerifiedAbi(chainId, address, key);
+
+    if (result.abi || result.error?.includes('not verified')) {
+        result.cache = AbiCache.set(chainId, address, {
+            abi: result.abi,
+            sourceCode: result.sourceCode,
+            error: result.error
+        });
+    }
+
+    return result;
+}
+
+async function requestVerifiedAbi(chainId: number, address: string, key: string): Promise<AbiFetchResult> {
     try {
         const url = `${ETHERSCAN_V2_BASE}/api?chainid=${chainId}&module=contract&action=getabi&address=${address}&apikey=${key}`;
 
@@ -151,4 +237,361 @@ async function fetchContractSourceCode(chainId: number, address: string, apiKey:
     }
 }
 
+/**
+ * Fetches deployed bytecode from the configured RPC node, or the Etherscan proxy module.
+ * Returns '0x' for EOAs and null when the lookup fails.
+ */
+export async function fetchAccountCode(chainId: number, address: string, apiKey?: string): Promise<`0x${string}` | null> {
+    if (!address || !isAddress(address) || !chainId || chainId <= 0) {
+        return null;
+    }
+
+    const result = await nodeRequest(chainId, 'eth_getCode', [address, 'latest'], { address, tag: 'latest' }, apiKey);
+    return typeof result === 'string' && result.startsWith('0x') ? result as `0x${string}` : null;
+}
+
+/**
+ * Runs a read-only eth_call against the configured RPC node, or the Etherscan proxy module.
+ * Returns the raw return data, or null when the call fails.
+ */
+export async function callContract(chainId: number, to: string, data: string, apiKey?: string): Promise<`0x${string}` | null> {
+    if (!to || !isAddress(to) || !chainId || chainId <= 0) {
+        return null;
+    }
+
+    const result = await nodeRequest(chainId, 'eth_call', [{ to, data }, 'latest'], { to, data, tag: 'latest' }, apiKey);
+    return typeof result === 'string' && result.startsWith('0x') ? result as `0x${string}` : null;
+}
+
+/**
+ * Detects EIP-1967 (implementation and beacon), EIP-1822, EIP-1167 and Safe proxies.
+ * Returns null for contracts that are not a recognized proxy.
+ */
+export async function resolveProxy(chainId: number, address: string, apiKey?: string): Promise<ProxyInfo | null> {
+    try {
+        const code = await fetchAccountCode(chainId, address, apiKey);
+        if (!code || code === '0x') {
+            return null;
+        }
+
+        const minimal = code.match(EIP1167_PATTERN);
+        if (minimal) {
+            return { proxyType: 'eip1167', implementationAddress: getAddress(`0x${minimal[1]}`) };
+        }
+
+        const [implementation, beacon, proxiable, admin] = await Promise.all([
+            readAddressSlot(chainId, address, EIP1967_IMPLEMENTATION_SLOT, apiKey),
+            readAddressSlot(chainId, address, EIP1967_BEACON_SLOT, apiKey),
+            readAddressSlot(chainId, address, EIP1822_PROXIABLE_SLOT, apiKey),
+            readAddressSlot(chainId, address, EIP1967_ADMIN_SLOT, apiKey)
+        ]);
+
+        let proxy: ProxyInfo | null = null;
 
+        if (implementation) {
+            proxy = { proxyType: 'eip1967', implementationAddress: implementation, adminAddress: admin };
+        } else if (beacon) {
+            const result = await callContract(chainId, beacon, IMPLEMENTATION_SELECTOR, apiKey);
+            const beaconImplementation = result ? wordToAddress(result) : undefined;
+            if (beaconImplementation) {
+                proxy = { proxyType: 'eip1967-beacon', implementationAddress: beaconImplementation, beaconAddress: beacon, adminAddress: admin };
+            }
+        } else if (proxiable) {
+            proxy = { proxyType: 'eip1822', implementationAddress: proxiable };
+        } else if (SAFE_MASTER_COPY_PUSH.test(code.toLowerCase())) {
+            // Slot 0 of any contract can hold an address; only a deployed singleton makes it a Safe proxy
+            const singleton = await readAddressSlot(chainId, address, '0x0', apiKey);
+            const singletonCode = singleton ? await fetchAccountCode(chainId, singleton, apiKey) : null;
+            if (singleton && singletonCode && singletonCode !== '0x') {
+                proxy = { proxyType: 'gnosis-safe', implementationAddress: singleton };
+            }
+        }
+
+        if (proxy && proxy.proxyType !== 'gnosis-safe') {
+            const topic = proxy.proxyType === 'eip1967-beacon' ? BEACON_UPGRADED_TOPIC : UPGRADED_TOPIC;
+            const lastUpgrade = await fetchLastLogTimestamp(chainId, address, topic, apiKey);
+            if (lastUpgrade) {
+                proxy.lastUpgradedAt = lastUpgrade.toISOString();
+                proxy.recentlyUpgraded = Date.now() - lastUpgrade.getTime() < RECENT_UPGRADE_MS;
+            }
+        }
+
+        return proxy;
+
+    } catch (error) {
+        console.warn('Proxy resolution failed:', error);
+        return null;
+    }
+}
+
+/**
+ * resolveProxy behind AbiCache, so cache hits skip the code, slot and upgrade-log lookups
+ */
+async function resolveProxyCached(chainId: number, address: string, apiKey?: string): Promise<ProxyInfo | null> {
+    const cached = AbiCache.getProxy(chainId, address);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    const proxy = await resolveProxy(chainId, address, apiKey);
+    AbiCache.setProxy(chainId, address, proxy);
+    return proxy;
+}
+
+async function readAddressSlot(chainId: number, address: string, slot: string, apiKey?: string): Promise<string | undefined> {
+    const result = await nodeRequest(chainId, 'eth_getStorageAt', [address, slot, 'latest'], { address, position: slot, tag: 'latest' }, apiKey);
+    return typeof result === 'string' ? wordToAddress(result) : undefined;
+}
+
+function wordToAddress(word: string): string | undefined {
+    if (!word.startsWith('0x') || word.length < 42) {
+        return undefined;
+    }
+    const address = `0x${word.slice(-40)}`;
+    return /^0x0{40}$/.test(address) ? undefined : getAddress(address);
+}
+
+/**
+ * Sends a read request to the configured RPC node for the chain,
+ * falling back to the Etherscan proxy module when no node is configured.
+ * Returns the JSON-RPC result (a hex string, or an object such as a block), or null on failure.
+ */
+async function nodeRequest(
+    chainId: number,
+    method: string,
+    params: unknown[],
+    etherscanParams: Record<string, string>,
+    apiKey?: string
+): Promise<unknown> {
+    const rpcUrl = getRpcUrl(chainId);
+    if (rpcUrl) {
+        try {
+            return await rpcRequest(rpcUrl, method, params);
+        } catch (error) {
+            console.warn(`${method} failed:`, error);
+            return null;
+        }
+    }
+
+    const key = apiKey ?? process.env.ETHERSCAN_API_KEY;
+    if (!key) {
+        return null;
+    }
+
+    try {
+        const query = new URLSearchParams({ chainid: String(chainId), module: 'proxy', action: method, ...etherscanParams, apikey: key });
+        const url = `${ETHERSCAN_V2_BASE}/api?${query.toString()}`;
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+        const res = await fetch(url, {
+            signal: controller.signal,
+            headers: {
+                'User-Agent': 'Anti-Fraud-BE/1.0.0'
+            }
+        });
+
+        clearTimeout(timeoutId);
+
+        if (!res.ok) {
+            console.warn(`${method} failed: HTTP ${res.status}`);
+            return null;
+        }
+
+        const body = await res.json() as any;
+
+        // Explorer errors come back as a plain-text result; node results are hex strings or objects
+        const result = body.result;
+        if (body.error || result === undefined || result === null || (typeof result === 'string' && !result.startsWith('0x'))) {
+            console.warn(`${method} not available:`, body.error?.message ?? result);
+            return null;
+        }
+
+        return result;
+
+    } catch (error) {
+        console.warn(`${method} failed:`, error);
+        return null;
+    }
+}
+
+/**
+ * Returns the timestamp of the most recent log with the given topic, from Etherscan's log index
+ */
+async function fetchLastLogTimestamp(chainId: number, address: string, topic0: string, apiKey?: string): Promise<Date | null> {
+    const key = apiKey ?? process.env.ETHERSCAN_API_KEY;
+    if (!key) {
+        return null;
+    }
+
+    try {
+        const url = `${ETHERSCAN_V2_BASE}/api?chainid=${chainId}&module=logs&action=getLogs&address=${address}&topic0=${topic0}&fromBlock=0&toBlock=latest&page=1&offset=1000&apikey=${key}`;
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+        const res = await fetch(url, {
+            signal: controller.signal,
+            headers: {
+                'User-Agent': 'Anti-Fraud-BE/1.0.0'
+            }
+        });
+
+        clearTimeout(timeoutId);
+
+        if (!res.ok) {
+            return null;
+        }
+
+        const body = await res.json() as any;
+
+        if (body.status !== '1' || !Array.isArray(body.result) || body.result.length === 0) {
+            return null;
+        }
+
+        const latest = Math.max(...body.result.map((log: { timeStamp: string }) => parseInt(log.timeStamp, 16)));
+        return Number.isFinite(latest) ? new Date(latest * 1000) : null;
+
+    } catch (error) {
+        console.warn('Upgrade history fetch failed:', error);
+        return null;
+    }
+}
+
+export interface AccountTransfer {
+    hash: string;
+    from: string;
+    to: string;
+    value: string; // wei or token base units
+    tokenAddress?: string; // absent for native transfers
+    tokenSymbol?: string;
+    timestamp: number; // unix seconds
+}
+
+/**
+ * Fetches the most recent native (txlist) and ERC-20 (tokentx) transfers of an account from Etherscan,
+ * newest first. Returns null when the explorer is unavailable.
+ */
+export async function fetchAccountTransfers(chainId: number, address: string, apiKey?: string, limit = 100): Promise<AccountTransfer[] | null> {
+    const key = apiKey ?? process.env.ETHERSCAN_API_KEY;
+    if (!key || !address || !isAddress(address) || !chainId || chainId <= 0) {
+        return null;
+    }
+
+    const fetchList = async (action: 'txlist' | 'tokentx'): Promise<any[] | null> => {
+        const url = `${ETHERSCAN_V2_BASE}/api?chainid=${chainId}&module=account&action=${action}&address=${address}&page=1&offset=${limit}&sort=desc&apikey=${key}`;
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+        try {
+            const res = await fetch(url, {
+                signal: controller.signal,
+                headers: {
+                    'User-Agent': 'Anti-Fraud-BE/1.0.0'
+                }
+            });
+
+            if (!res.ok) {
+                console.warn(`${action} fetch failed: HTTP ${res.status}`);
+                return null;
+            }
+
+            const body = await res.json() as any;
+
+            // "No transactions found" comes back as status 0 with an empty array
+            if (Array.isArray(body.result)) {
+                return body.result;
+            }
+
+            console.warn(`${action} not available:`, body.result);
+            return null;
+
+        } catch (error) {
+            console.warn(`${action} fetch failed:`, error);
+            return null;
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    };
+
+    const [native, tokens] = await Promise.all([fetchList('txlist'), fetchList('tokentx')]);
+    if (!native && !tokens) {
+        return null;
+    }
+
+    const transfers: AccountTransfer[] = [
+        ...(native ?? []).filter((tx) => tx.to).map((tx) => ({
+            hash: tx.hash,
+            from: tx.from,
+            to: tx.to,
+            value: tx.value,
+            timestamp: Number(tx.timeStamp)
+        })),
+        ...(tokens ?? []).map((tx) => ({
+            hash: tx.hash,
+            from: tx.from,
+            to: tx.to,
+            value: tx.value,
+            tokenAddress: tx.contractAddress,
+            tokenSymbol: tx.tokenSymbol,
+            timestamp: Number(tx.timeStamp)
+        }))
+    ];
+
+    return transfers.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Fetches when a contract was deployed from Etherscan's getcontractcreation, falling back to the block
+ * timestamp when the explorer does not return one. Returns null for EOAs or when the explorer is unavailable.
+ */
+export async function fetchContractCreationTime(chainId: number, address: string, apiKey?: string): Promise<Date | null> {
+    const key = apiKey ?? process.env.ETHERSCAN_API_KEY;
+    if (!key || !address || !isAddress(address) || !chainId || chainId <= 0) {
+        return null;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+    try {
+        const url = `${ETHERSCAN_V2_BASE}/api?chainid=${chainId}&module=contract&action=getcontractcreation&contractaddresses=${address}&apikey=${key}`;
+
+        const res = await fetch(url, {
+            signal: controller.signal,
+            headers: {
+                'User-Agent': 'Anti-Fraud-BE/1.0.0'
+            }
+        });
+
+        if (!res.ok) {
+            console.warn(`Contract creation fetch failed: HTTP ${res.status}`);
+            return null;
+        }
+
+        const body = await res.json() as any;
+        const creation = Array.isArray(body.result) ? body.result[0] : undefined;
+        if (body.status !== '1' || !creation) {
+            return null;
+        }
+
+        if (creation.timestamp) {
+            return new Date(Number(creation.timestamp) * 1000);
+        }
+        if (!creation.blockNumber) {
+            return null;
+        }
+
+        const tag = `0x${BigInt(creation.blockNumber).toString(16)}`;
+        const block = await nodeRequest(chainId, 'eth_getBlockByNumber', [tag, false], { tag, boolean: 'false' }, apiKey) as { timestamp?: string } | null;
+        return block?.timestamp ? new Date(parseInt(block.timestamp, 16) * 1000) : null;
+
+    } catch (error) {
+        console.warn('Contract creation fetch failed:', error);
+        return null;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
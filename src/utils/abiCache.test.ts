@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { parseAbi } from 'viem';
+import { AbiCache } from './abiCache';
+
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const OTHER = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const ABI = parseAbi(['function transfer(address to, uint256 amount) returns (bool)']);
+
+let dir: string;
+
+describe('AbiCache', () => {
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'abi-cache-'));
+        process.env.ABI_CACHE_DIR = dir;
+        AbiCache.clear();
+    });
+
+    afterEach(() => {
+        AbiCache.clear();
+        fs.rmSync(dir, { recursive: true, force: true });
+        delete process.env.ABI_CACHE_DIR;
+        delete process.env.ABI_CACHE_MAX_ENTRIES;
+        delete process.env.ABI_CACHE_NEGATIVE_TTL_SECONDS;
+        delete process.env.ABI_CACHE_PROXY_TTL_SECONDS;
+    });
+
+    it('serves a stored ABI from memory, case-insensitively', () => {
+        const stored = AbiCache.set(1, TOKEN, { abi: ABI, sourceCode: 'contract Token {}' });
+        const cached = AbiCache.get(1, TOKEN.toLowerCase());
+
+        assert.equal(stored.hit, false);
+        assert.deepEqual(cached?.abi, ABI);
+        assert.equal(cached?.sourceCode, 'contract Token {}');
+        assert.equal(cached?.cache.tier, 'memory');
+        assert.equal(cached?.cache.negative, false);
+        assert.equal(AbiCache.get(137, TOKEN), null);
+    });
+
+    it('falls back to disk after the entry is evicted from memory', () => {
+        process.env.ABI_CACHE_MAX_ENTRIES = '1';
+        AbiCache.set(1, TOKEN, { abi: ABI });
+        AbiCache.set(1, OTHER, { abi: ABI });
+
+        assert.equal(AbiCache.stats().memoryEntries, 1);
+        assert.equal(AbiCache.stats().diskEntries, 2);
+        assert.equal(AbiCache.get(1, TOKEN)?.cache.tier, 'disk');
+        assert.equal(AbiCache.get(1, TOKEN)?.cache.tier, 'memory');
+    });
+
+    it('expires "not verified" misses on their own TTL', () => {
+        process.env.ABI_CACHE_NEGATIVE_TTL_SECONDS = '0';
+        const stored = AbiCache.set(1, TOKEN, { abi: null, error: 'Contract source code not verified' });
+
+        assert.equal(stored.negative, true);
+        assert.equal(AbiCache.get(1, TOKEN), null);
+        assert.equal(AbiCache.stats().diskEntries, 0);
+    });
+
+    it('keeps proxy resolutions in memory for their own TTL', () => {
+        const proxy = { proxyType: 'eip1967' as const, implementationAddress: OTHER };
+        AbiCache.setProxy(1, TOKEN, proxy);
+        AbiCache.setProxy(1, OTHER, null);
+
+        assert.deepEqual(AbiCache.getProxy(1, TOKEN.toLowerCase()), proxy);
+        assert.equal(AbiCache.getProxy(1, OTHER), null);
+        assert.equal(AbiCache.getProxy(137, TOKEN), undefined);
+        assert.equal(AbiCache.stats().diskEntries, 0);
+
+        AbiCache.purge(1, TOKEN);
+        assert.equal(AbiCache.getProxy(1, TOKEN), undefined);
+
+        process.env.ABI_CACHE_PROXY_TTL_SECONDS = '0';
+        AbiCache.setProxy(1, TOKEN, proxy);
+        assert.equal(AbiCache.getProxy(1, TOKEN), undefined);
+    });
+
+    it('purges single entries and clears everything', () => {
+        AbiCache.set(1, TOKEN, { abi: ABI });
+        AbiCache.set(1, OTHER, { abi: ABI });
+
+        assert.equal(AbiCache.purge(1, TOKEN), true);
+        assert.equal(AbiCache.purge(1, TOKEN), false);
+        assert.equal(AbiCache.get(1, TOKEN), null);
+        assert.equal(AbiCache.clear(), 1);
+        assert.equal(AbiCache.get(1, OTHER), null);
+    });
+
+    it('keeps the cache in memory only when ABI_CACHE_DIR is empty', () => {
+        process.env.ABI_CACHE_DIR = '';
+        AbiCache.set(1, TOKEN, { abi: ABI });
+
+        assert.equal(AbiCache.stats().directory, null);
+        assert.equal(fs.readdirSync(dir).length, 0);
+        assert.deepEqual(AbiCache.get(1, TOKEN)?.abi, ABI);
+    });
+});
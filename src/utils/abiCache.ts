@@ -0,0 +1,249 @@
+import fs from 'fs';
+import path from 'path';
+import type { Abi } from 'viem';
+import { AbiCacheInfo, ProxyInfo } from './types';
+
+interface CacheEntry {
+    abi: Abi | null;
+    sourceCode?: string;
+    error?: string;
+    verified: boolean;
+    cachedAt: number;
+    expiresAt: number;
+}
+
+interface ProxyCacheEntry {
+    proxy: ProxyInfo | null; // null: not a recognized proxy
+    expiresAt: number;
+}
+
+export interface CachedAbi {
+    abi: Abi | null;
+    sourceCode?: string;
+    error?: string;
+    cache: AbiCacheInfo;
+}
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_NEGATIVE_TTL_SECONDS = 60 * 60;
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_PROXY_TTL_SECONDS = 10 * 60;
+
+/**
+ * Verified ABI/source cache keyed by `chainId:address`: an in-memory LRU in front of
+ * one JSON file per contract under ABI_CACHE_DIR. Verified hits and "not verified"
+ * misses expire separately (ABI_CACHE_TTL_SECONDS, ABI_CACHE_NEGATIVE_TTL_SECONDS).
+ */
+export class AbiCache {
+    // Map iteration order doubles as recency order
+    private static memory = new Map<string, CacheEntry>();
+    // Proxy resolutions change on upgrade, so they are kept in memory only and expire quickly
+    private static proxies = new Map<string, ProxyCacheEntry>();
+
+    static key(chainId: number, address: string): string {
+        return `${chainId}:${address.toLowerCase()}`;
+    }
+
+    /**
+     * Returns the cached entry, or null when missing or expired
+     */
+    static get(chainId: number, address: string): CachedAbi | null {
+        const key = this.key(chainId, address);
+        const now = Date.now();
+
+        let entry = this.memory.get(key);
+        let tier: AbiCacheInfo['tier'] = 'memory';
+
+        if (entry) {
+            this.memory.delete(key);
+        } else {
+            entry = this.readFile(key) ?? undefined;
+            tier = 'disk';
+        }
+
+        if (!entry || entry.expiresAt <= now) {
+            if (entry) {
+                this.removeFile(key);
+            }
+            return null;
+        }
+
+        this.remember(key, entry);
+
+        return {
+            abi: entry.abi,
+            sourceCode: entry.sourceCode,
+            error: entry.error,
+            cache: {
+                hit: true,
+                tier,
+                negative: !entry.verified,
+                cachedAt: new Date(entry.cachedAt).toISOString(),
+                expiresAt: new Date(entry.expiresAt).toISOString()
+            }
+        };
+    }
+
+    /**
+     * Stores a verified ABI, or a "not verified" miss when abi is null
+     */
+    static set(chainId: number, address: string, value: { abi: Abi | null; sourceCode?: string; error?: string }): AbiCacheInfo {
+        const key = this.key(chainId, address);
+        const verified = value.abi !== null;
+        const ttlSeconds = verified
+            ? this.envNumber('ABI_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS)
+            : this.envNumber('ABI_CACHE_NEGATIVE_TTL_SECONDS', DEFAULT_NEGATIVE_TTL_SECONDS);
+        const cachedAt = Date.now();
+        const entry: CacheEntry = { ...value, verified, cachedAt, expiresAt: cachedAt + ttlSeconds * 1000 };
+
+        this.memory.delete(key);
+        this.remember(key, entry);
+        this.writeFile(key, entry);
+
+        return {
+            hit: false,
+            negative: !verified,
+            cachedAt: new Date(entry.cachedAt).toISOString(),
+            expiresAt: new Date(entry.expiresAt).toISOString()
+        };
+    }
+
+    /**
+     * Returns the cached proxy resolution (null for contracts that are not a proxy), or undefined when missing or expired
+     */
+    static getProxy(chainId: number, address: string): ProxyInfo | null | undefined {
+        const key = this.key(chainId, address);
+        const entry = this.proxies.get(key);
+        if (!entry || entry.expiresAt <= Date.now()) {
+            this.proxies.delete(key);
+            return undefined;
+        }
+        return entry.proxy;
+    }
+
+    /**
+     * Stores a proxy resolution for ABI_CACHE_PROXY_TTL_SECONDS
+     */
+    static setProxy(chainId: number, address: string, proxy: ProxyInfo | null): void {
+        const key = this.key(chainId, address);
+        this.proxies.delete(key);
+        this.proxies.set(key, { proxy, expiresAt: Date.now() + this.envNumber('ABI_CACHE_PROXY_TTL_SECONDS', DEFAULT_PROXY_TTL_SECONDS) * 1000 });
+        while (this.proxies.size > this.maxEntries()) {
+            this.proxies.delete(this.proxies.keys().next().value as string);
+        }
+    }
+
+    /**
+     * Removes an entry from memory and disk. Returns whether anything was removed.
+     */
+    static purge(chainId: number, address: string): boolean {
+        const key = this.key(chainId, address);
+        this.proxies.delete(key);
+        const inMemory = this.memory.delete(key);
+        const onDisk = this.removeFile(key);
+        return inMemory || onDisk;
+    }
+
+    /**
+     * Removes every entry. Returns the number of entries removed from disk.
+     */
+    static clear(): number {
+        this.memory.clear();
+        this.proxies.clear();
+        const dir = this.cacheDir();
+        if (!dir || !fs.existsSync(dir)) {
+            return 0;
+        }
+
+        let removed = 0;
+        for (const file of fs.readdirSync(dir)) {
+            if (file.endsWith('.json')) {
+                fs.rmSync(path.join(dir, file), { force: true });
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    static stats(): { memoryEntries: number; maxEntries: number; diskEntries: number; directory: string | null } {
+        const dir = this.cacheDir();
+        const diskEntries = dir && fs.existsSync(dir)
+            ? fs.readdirSync(dir).filter((file) => file.endsWith('.json')).length
+            : 0;
+
+        return {
+            memoryEntries: this.memory.size,
+            maxEntries: this.maxEntries(),
+            diskEntries,
+            directory: dir
+        };
+    }
+
+    private static remember(key: string, entry: CacheEntry): void {
+        this.memory.set(key, entry);
+        while (this.memory.size > this.maxEntries()) {
+            const oldest = this.memory.keys().next().value as string;
+            this.memory.delete(oldest);
+        }
+    }
+
+    /**
+     * ABI_CACHE_DIR, defaulting to .cache/abi; set it to an empty string to keep the cache in memory only
+     */
+    private static cacheDir(): string | null {
+        const dir = process.env.ABI_CACHE_DIR ?? path.join(process.cwd(), '.cache', 'abi');
+        return dir ? dir : null;
+    }
+
+    private static filePath(key: string): string | null {
+        const dir = this.cacheDir();
+        return dir ? path.join(dir, `${key.replace(':', '_')}.json`) : null;
+    }
+
+    private static readFile(key: string): CacheEntry | null {
+        const file = this.filePath(key);
+        if (!file || !fs.existsSync(file)) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(file, 'utf8')) as CacheEntry;
+        } catch (error) {
+            console.warn(`Ignoring unreadable ABI cache entry ${file}:`, error);
+            return null;
+        }
+    }
+
+    private static writeFile(key: string, entry: CacheEntry): void {
+        const file = this.filePath(key);
+        if (!file) {
+            return;
+        }
+
+        try {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, JSON.stringify(entry));
+        } catch (error) {
+            console.warn('ABI cache write failed:', error);
+        }
+    }
+
+    private static removeFile(key: string): boolean {
+        const file = this.filePath(key);
+        if (!file || !fs.existsSync(file)) {
+            return false;
+        }
+
+        fs.rmSync(file, { force: true });
+        return true;
+    }
+
+    private static maxEntries(): number {
+        return this.envNumber('ABI_CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES);
+    }
+
+    private static envNumber(name: string, fallback: number): number {
+        const value = Number(process.env[name]);
+        return Number.isFinite(value) && value >= 0 ? value : fallback;
+    }
+}
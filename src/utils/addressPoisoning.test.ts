@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { encodeFunctionData, getAddress, parseAbi } from 'viem';
+import { AddressPoisoningDetector } from './addressPoisoning';
+
+const REAL = '0x1234567890AbcdEF1234567890aBcdef12345678';
+const POISON = '0x1234000000000000000000000000000000005678';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const FAKE_TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+// Each test uses its own sender, since histories are cached per sender
+const sender = (n: number) => getAddress(`0x${n.toString(16).padStart(40, 'f')}`);
+
+interface EtherscanTx {
+    hash: string;
+    from: string;
+    to: string;
+    value: string;
+    timeStamp: string;
+    contractAddress?: string;
+    tokenSymbol?: string;
+}
+
+/**
+ * Serves txlist/tokentx answers from the given histories instead of Etherscan
+ */
+function mockEtherscan(history: { txlist?: EtherscanTx[]; tokentx?: EtherscanTx[] } | null): void {
+    mock.method(globalThis, 'fetch', async (url: string) => {
+        if (!history) {
+            return new Response('unavailable', { status: 503 });
+        }
+        const action = new URL(url).searchParams.get('action') as 'txlist' | 'tokentx';
+        return Response.json({ status: '1', message: 'OK', result: history[action] ?? [] });
+    });
+}
+
+describe('AddressPoisoningDetector', () => {
+    beforeEach(() => {
+        mock.method(console, 'warn', () => undefined);
+        process.env.ETHERSCAN_API_KEY = 'test-key';
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.ETHERSCAN_API_KEY;
+    });
+
+    it('reads the recipient of ETH and ERC-20 transfers', () => {
+        const abi = parseAbi(['function transfer(address to, uint256 amount)', 'function approve(address spender, uint256 amount)']);
+
+        assert.equal(AddressPoisoningDetector.getRecipient({ to: REAL, data: '0x' }), REAL);
+        assert.equal(AddressPoisoningDetector.getRecipient({ to: TOKEN, data: encodeFunctionData({ abi, functionName: 'transfer', args: [POISON, 1n] }) }), POISON);
+        assert.equal(AddressPoisoningDetector.getRecipient({ to: TOKEN, data: encodeFunctionData({ abi, functionName: 'approve', args: [POISON, 1n] }) }), undefined);
+    });
+
+    it('flags a recipient that shares the first and last characters of a past counterparty', async () => {
+        const from = sender(1);
+        mockEtherscan({ txlist: [{ hash: '0x01', from, to: REAL, value: '1000000000000000000', timeStamp: '1700000000' }] });
+
+        const check = await AddressPoisoningDetector.check(1, from, POISON);
+        const findings = AddressPoisoningDetector.toFindings(check);
+
+        assert.equal(check?.knownRecipient, false);
+        assert.deepEqual(check?.lookalikes.map((l) => [l.address, l.sharedPrefix, l.sharedSuffix]), [[getAddress(REAL), 4, 4]]);
+        assert.deepEqual(findings.map((f) => [f.ruleId, f.minimumFraudScore]), [['ADDRESS_POISONING', 90]]);
+    });
+
+    it('does not flag the counterparty itself or addresses that share too little', async () => {
+        const from = sender(2);
+        mockEtherscan({ txlist: [{ hash: '0x01', from, to: REAL, value: '1', timeStamp: '1700000000' }] });
+
+        const known = await AddressPoisoningDetector.check(1, from, REAL.toLowerCase());
+        const unrelated = await AddressPoisoningDetector.check(1, from, '0x12ff000000000000000000000000000000000078');
+
+        assert.equal(known?.knownRecipient, true);
+        assert.deepEqual(AddressPoisoningDetector.toFindings(known), []);
+        assert.deepEqual(unrelated?.lookalikes, []);
+    });
+
+    it('ignores spoofed outgoing token transfers and flags their recipients as dust senders', async () => {
+        const from = sender(3);
+        mockEtherscan({
+            txlist: [{ hash: '0x01', from, to: TOKEN, value: '0', timeStamp: '1700000000' }],
+            tokentx: [
+                { hash: '0x01', from, to: REAL, value: '5000000', timeStamp: '1700000000', contractAddress: TOKEN, tokenSymbol: 'USDC' },
+                // Zero-value transferFrom planted by the poisoner in a transaction the sender never signed
+                { hash: '0x02', from, to: POISON, value: '0', timeStamp: '1700000100', contractAddress: TOKEN, tokenSymbol: 'USDC' },
+                { hash: '0x03', from: POISON, to: from, value: '0', timeStamp: '1700000100', contractAddress: FAKE_TOKEN, tokenSymbol: 'USDC' }
+            ]
+        });
+
+        const check = await AddressPoisoningDetector.check(1, from, POISON);
+
+        assert.equal(check?.knownRecipient, false);
+        assert.equal(check?.dustSender, true);
+        assert.deepEqual(AddressPoisoningDetector.toFindings(check).map((f) => f.ruleId), ['ADDRESS_POISONING', 'POISONING_DUST_SENDER']);
+    });
+
+    it('does not let incoming native transfers vouch for the sender', async () => {
+        const from = sender(4);
+        mockEtherscan({
+            txlist: [
+                { hash: '0x01', from, to: REAL, value: '1000000000000000000', timeStamp: '1700000000' },
+                { hash: '0x02', from: POISON, to: from, value: '1000000000000000000', timeStamp: '1700000100' }
+            ]
+        });
+
+        const check = await AddressPoisoningDetector.check(1, from, POISON);
+
+        assert.equal(check?.knownRecipient, false);
+        assert.deepEqual(AddressPoisoningDetector.toFindings(check).map((f) => f.ruleId), ['ADDRESS_POISONING']);
+    });
+
+    it('returns undefined when the history is unavailable', async () => {
+        mockEtherscan(null);
+
+        assert.equal(await AddressPoisoningDetector.check(1, sender(5), POISON), undefined);
+        assert.deepEqual(AddressPoisoningDetector.toFindings(undefined), []);
+    });
+});
@@ -0,0 +1,171 @@
+import { getAddress, isAddress, parseAbi } from 'viem';
+import { AccountTransfer, fetchAccountTransfers } from './abi';
+import { TransactionDecoder } from './txDecoder';
+import { DecodedTransaction, RecipientCheck, RuleFinding } from './types';
+
+const TRANSFER_ABI = parseAbi([
+    'function transfer(address to, uint256 amount)',
+    'function transferFrom(address from, address to, uint256 amount)'
+]);
+
+// Vanity generators match the characters wallets show (first and last few); random collisions this long are negligible
+const MIN_SHARED_PREFIX = 2;
+const MIN_SHARED_SUFFIX = 2;
+const MIN_SHARED_TOTAL = 7;
+
+// Incoming native transfers below this are treated as dust
+const DUST_THRESHOLD_WEI = 10n ** 13n;
+
+// History is reused across the popups of one signing session
+const HISTORY_TTL_MS = 5 * 60 * 1000;
+
+export class AddressPoisoningDetector {
+    private static history = new Map<string, { transfers: AccountTransfer[]; expiresAt: number }>();
+
+    /**
+     * The address that receives value: the target of a plain transfer, or the `to` of ERC-20 transfer/transferFrom
+     */
+    static getRecipient(transaction: Pick<DecodedTransaction, 'to' | 'data'>): string | undefined {
+        if (!transaction.data || transaction.data === '0x') {
+            return transaction.to ?? undefined;
+        }
+
+        const call = TransactionDecoder.decodeWithAbi(transaction.data, TRANSFER_ABI);
+        if (call?.method === 'transfer') {
+            return call.params[0] as string;
+        }
+        if (call?.method === 'transferFrom') {
+            return call.params[1] as string;
+        }
+        return undefined;
+    }
+
+    /**
+     * Compares the recipient against the sender's recent counterparties.
+     * Returns undefined when the sender's history is unavailable.
+     */
+    static async check(chainId: number, sender: string, recipient: string): Promise<RecipientCheck | undefined> {
+        if (!isAddress(sender) || !isAddress(recipient)) {
+            return undefined;
+        }
+
+        const transfers = await this.getHistory(chainId, sender);
+        if (!transfers) {
+            return undefined;
+        }
+
+        const self = sender.toLowerCase();
+        const target = recipient.toLowerCase();
+
+        // Poisoners forge "outgoing" token transfers with fake tokens or zero-value transferFrom,
+        // so only transfers in transactions the sender signed count as real counterparties
+        const ownHashes = new Set(transfers.filter((t) => !t.tokenAddress && t.from.toLowerCase() === self).map((t) => t.hash));
+        const counterparties = new Map<string, number>();
+        const dustSenders = new Set<string>();
+
+        for (const transfer of transfers) {
+            const from = transfer.from.toLowerCase();
+            const to = transfer.to.toLowerCase();
+            const outgoing = from === self;
+            const other = outgoing ? to : from;
+
+            let genuine: boolean;
+            let dust: boolean;
+            if (outgoing) {
+                // Native transactions are always signed by the sender; token transfers only when in one of them
+                genuine = !transfer.tokenAddress || (ownHashes.has(transfer.hash) && transfer.value !== '0');
+                dust = !genuine;
+            } else {
+                // Anyone can send to the user, poisoners included, so incoming transfers never vouch for an address.
+                // Incoming tokens may be fake tokens, so only zero-value ones count as dust.
+                genuine = false;
+                dust = transfer.tokenAddress ? transfer.value === '0' : BigInt(transfer.value) < DUST_THRESHOLD_WEI;
+            }
+
+            if (genuine) {
+                counterparties.set(other, Math.max(counterparties.get(other) ?? 0, transfer.timestamp));
+            } else if (dust) {
+                dustSenders.add(other);
+            }
+        }
+
+        const knownRecipient = counterparties.has(target);
+        const lookalikes: RecipientCheck['lookalikes'] = [];
+
+        if (!knownRecipient) {
+            for (const [address, lastSeen] of counterparties) {
+                const { prefix, suffix } = this.sharedCharacters(address, target);
+                if (prefix >= MIN_SHARED_PREFIX && suffix >= MIN_SHARED_SUFFIX && prefix + suffix >= MIN_SHARED_TOTAL) {
+                    lookalikes.push({
+                        address: getAddress(address),
+                        sharedPrefix: prefix,
+                        sharedSuffix: suffix,
+                        lastSeen: new Date(lastSeen * 1000).toISOString()
+                    });
+                }
+            }
+        }
+
+        return {
+            recipient: getAddress(recipient),
+            knownRecipient,
+            lookalikes: lookalikes.sort((a, b) => (b.sharedPrefix + b.sharedSuffix) - (a.sharedPrefix + a.sharedSuffix)),
+            dustSender: !knownRecipient && dustSenders.has(target),
+            transfersChecked: transfers.length
+        };
+    }
+
+    static toFindings(check?: RecipientCheck): RuleFinding[] {
+        if (!check) {
+            return [];
+        }
+
+        const findings: RuleFinding[] = [];
+
+        for (const lookalike of check.lookalikes) {
+            findings.push({
+                ruleId: 'ADDRESS_POISONING',
+                severity: 'high',
+                message: `Recipient ${check.recipient} is not ${lookalike.address}, which you have transacted with; they share the first ${lookalike.sharedPrefix} and last ${lookalike.sharedSuffix} characters (address poisoning)`,
+                minimumFraudScore: 90,
+                spender: check.recipient
+            });
+        }
+
+        if (check.dustSender) {
+            findings.push({
+                ruleId: 'POISONING_DUST_SENDER',
+                severity: 'high',
+                message: `Recipient ${check.recipient} only appears in your history through zero-value or spoofed transfers, a common way to plant a poisoned address`,
+                minimumFraudScore: 75,
+                spender: check.recipient
+            });
+        }
+
+        return findings;
+    }
+
+    private static async getHistory(chainId: number, sender: string): Promise<AccountTransfer[] | null> {
+        const key = `${chainId}:${sender.toLowerCase()}`;
+        const cached = this.history.get(key);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.transfers;
+        }
+
+        const transfers = await fetchAccountTransfers(chainId, sender);
+        if (transfers) {
+            this.history.set(key, { transfers, expiresAt: Date.now() + HISTORY_TTL_MS });
+        }
+        return transfers;
+    }
+
+    private static sharedCharacters(a: string, b: string): { prefix: number; suffix: number } {
+        const x = a.toLowerCase().replace(/^0x/, '');
+        const y = b.toLowerCase().replace(/^0x/, '');
+        let prefix = 0;
+        while (prefix < x.length && x[prefix] === y[prefix]) prefix++;
+        let suffix = 0;
+        while (suffix < x.length - prefix && x[x.length - 1 - suffix] === y[y.length - 1 - suffix]) suffix++;
+        return { prefix, suffix };
+    }
+}
@@ -1,154 +1,108 @@
-import OpenAI from "openai";
-import { DecodedTxWithAbi, AIAnalysisResult } from "./types";
+import {
+  DecodedTxWithAbi,
+  DecodedTypedDataWithAbi,
+  DecodedMessage,
+  AIAnalysisResult,
+  AnalysisProgressListener,
+  FraudAssessment,
+} from "./types";
+import { BatchDecoder } from "./batchDecoder";
+import { SoliditySource } from "./soliditySource";
+import {
+  LlmProviders,
+  LlmResponseError,
+  LlmTool,
+  LlmToolResult,
+  RISK_SCORE_CONSISTENCY,
+} from "./llmProvider";
+import { AIFailureRoute, HeuristicScore, HeuristicScorer } from "./heuristicScorer";
+
+const FRAUD_ASSESSMENT_SYSTEM = `You are an expert blockchain security analyst specializing in fraud detection. 
+                        Analyze the provided transaction data and return a JSON response with fraud assessment.
+                        Focus on detecting common fraud patterns like:
+                        - Suspicious contract interactions
+                        - High-risk function calls
+                        - Unusual transaction patterns
+                        - Known malicious contracts
+                        - Verified code (Unverified code is bad)`;
+
+const FRAUD_ASSESSMENT_TOOL: LlmTool = {
+  name: "generate_explanation_response",
+  description:
+    "Generate an explanation response with risk level, fraud score, description, reasoning, warnings, function metadata, and AI confidence.",
+  parameters: {
+    type: "object",
+    properties: {
+      riskLevel: {
+        type: "string",
+        description: "Level of risk determined by analysis",
+        enum: ["low", "medium", "high"],
+      },
+      fraudScore: {
+        type: "integer",
+        description: "Fraud risk score between 0 and 100",
+        minimum: 0,
+        maximum: 100,
+      },
+      description: {
+        type: "string",
+        description: "Brief description of the analysis result",
+      },
+      reasoning: {
+        type: "string",
+        description: "Detailed analysis reasoning",
+      },
+      warnings: {
+        type: "array",
+        description: "Array of warning messages relevant to the result",
+        items: {
+          type: "string",
+          description: "A warning statement",
+        },
+      },
+      functionName: {
+        type: "string",
+        description:
+          "Function name if the analysis involves a contract interaction",
+      },
+      functionDescription: {
+        type: "string",
+        description: "Description of what the contract function does",
+      },
+      aiConfidence: {
+        type: "integer",
+        description: "AI confidence score between 0 and 100 for the explanation",
+        minimum: 0,
+        maximum: 100,
+      },
+    },
+    required: [
+      "riskLevel",
+      "fraudScore",
+      "description",
+      "reasoning",
+      "warnings",
+      "functionName",
+      "functionDescription",
+      "aiConfidence",
+    ],
+    additionalProperties: false,
+  },
+};
 
 export class AIService {
-  private static getOpenAI(): OpenAI {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error("OPENAI_API_KEY environment variable is required");
-    }
-    return new OpenAI({ apiKey });
-  }
   /**
    * Analyzes transaction using AI for fraud detection
    */
   static async analyzeTransactionForFraud(
-    decodedTxWithAbi: DecodedTxWithAbi
+    decodedTxWithAbi: DecodedTxWithAbi,
+    onProgress?: AnalysisProgressListener
   ): Promise<AIAnalysisResult> {
     try {
       const prompt = this.createAnalysisPrompt(decodedTxWithAbi);
-      const openai = this.getOpenAI();
-
-
-      //   const completion = await openai.chat.completions.create({
-      //     model: "gpt-5-mini",
-
-      //     messages: [
-      //       {
-      //         role: "system",
-      //         content: `You are an expert blockchain security analyst specializing in fraud detection.
-      //                     Analyze the provided transaction data and return a JSON response with fraud assessment.
-      //                     Focus on detecting common fraud patterns like:
-      //                     - Suspicious contract interactions
-      //                     - High-risk function calls
-      //                     - Unusual transaction patterns
-      //                     - Known malicious contracts
-      //                     - Verified code (Unverified code is bad)
-      //                `,
-      //       },
-      //       {
-      //         role: "user",
-      //         content: prompt,
-      //       },
-      //     ],
-      //   });
-
-      const completion = await openai.responses.create({
-        model: "gpt-5-mini",
-        input: [
-          {
-            role: "developer",
-            content: [
-              {
-                type: "input_text",
-                text: "You are an expert blockchain security analyst specializing in fraud detection. \n                        Analyze the provided transaction data and return a JSON response with fraud assessment.\n                        Focus on detecting common fraud patterns like:\n                        - Suspicious contract interactions\n                        - High-risk function calls\n                        - Unusual transaction patterns\n                        - Known malicious contracts\n                        - Verified code (Unverified code is bad)",
-              },
-              {
-                type: "input_text",
-                text: prompt,
-              },
-            ],
-          },
-        ],
-        text: {
-          format: {
-            type: "text",
-          },
-        },
-        reasoning: {
-          effort: "medium",
-          summary: "auto",
-        },
-        tools: [
-          {
-            type: "function",
-            name: "generate_explanation_response",
-            description:
-              "Generate an explanation response with risk level, fraud score, description, reasoning, warnings, function metadata, and AI confidence.",
-            parameters: {
-              type: "object",
-              properties: {
-                riskLevel: {
-                  type: "string",
-                  description: "Level of risk determined by analysis",
-                  enum: ["low", "medium", "high"],
-                },
-                fraudScore: {
-                  type: "integer",
-                  description: "Fraud risk score between 0 and 100",
-                  minimum: 0,
-                  maximum: 100,
-                },
-                description: {
-                  type: "string",
-                  description: "Brief description of the analysis result",
-                },
-                reasoning: {
-                  type: "string",
-                  description: "Detailed analysis reasoning",
-                },
-                warnings: {
-                  type: "array",
-                  description:
-                    "Array of warning messages relevant to the result",
-                  items: {
-                    type: "string",
-                    description: "A warning statement",
-                  },
-                },
-                functionName: {
-                  type: "string",
-                  description:
-                    "Function name if the analysis involves a contract interaction",
-                },
-                functionDescription: {
-                  type: "string",
-                  description: "Description of what the contract function does",
-                },
-                aiConfidence: {
-                  type: "integer",
-                  description:
-                    "AI confidence score between 0 and 100 for the explanation",
-                  minimum: 0,
-                  maximum: 100,
-                },
-              },
-              required: [
-                "riskLevel",
-                "fraudScore",
-                "description",
-                "reasoning",
-                "warnings",
-                "functionName",
-                "functionDescription",
-                "aiConfidence",
-              ],
-              additionalProperties: false,
-            },
-            strict: true,
-          },
-        ],
-        store: true,
-        include: ["reasoning.encrypted_content"],
-      });
-
-      // @ts-ignore
-      const response = completion.output[completion.output.length - 1].arguments;
-      if (!response) {
-        throw new Error("No response from AI");
-      }
 
-      const aiAnalysis = JSON.parse(response);
+      const assessment = await this.requestFraudAssessment(prompt, onProgress);
+      const aiAnalysis = assessment.args;
 
       return {
         success: true,
@@ -167,26 +121,212 @@ export class AIService {
               }
             : undefined,
           aiConfidence: aiAnalysis.aiConfidence,
+          analysisMode: "ai",
+          validationStatus: assessment.validationStatus,
+          validationIssues: assessment.issues.length > 0 ? assessment.issues : undefined,
         },
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
       console.error("AI analysis error:", error);
 
+      return this.fallbackResult(
+        "transaction",
+        decodedTxWithAbi.analysis.type,
+        "transaction",
+        error,
+        () => HeuristicScorer.scoreTransaction(decodedTxWithAbi),
+        decodedTxWithAbi.analysis.contractInfo
+      );
+    }
+  }
+
+  /**
+   * Result for a failed AI call, according to the route's AI_FAILURE_MODE
+   */
+  private static fallbackResult(
+    route: AIFailureRoute,
+    type: AIAnalysisResult["analysis"]["type"],
+    subject: string,
+    error: unknown,
+    score: () => HeuristicScore,
+    contractInfo?: AIAnalysisResult["analysis"]["contractInfo"]
+  ): AIAnalysisResult {
+    const mode = HeuristicScorer.getFailureMode(route);
+    const timestamp = new Date().toISOString();
+    const message = error instanceof Error ? error.message : "Unknown error";
+    // Set when the model answered but no attempt passed validation
+    const validation =
+      error instanceof LlmResponseError
+        ? { validationStatus: "invalid" as const, validationIssues: error.issues }
+        : {};
+
+    if (mode === "fail-closed") {
       return {
         success: false,
         analysis: {
-          type: decodedTxWithAbi.analysis.type,
+          type,
           riskLevel: "high",
           fraudScore: 100,
           description: "AI analysis failed",
-          reasoning: "Unable to analyze transaction due to AI service error",
+          reasoning: `Unable to analyze ${subject} due to AI service error`,
           warnings: ["AI analysis unavailable"],
           aiConfidence: 0,
+          analysisMode: "fail-closed",
+          ...validation,
+        },
+        timestamp,
+        error: message,
+      };
+    }
+
+    if (mode === "fail-open") {
+      return {
+        success: true,
+        analysis: {
+          type,
+          riskLevel: "low",
+          fraudScore: 0,
+          description: "AI analysis unavailable",
+          reasoning: `The ${subject} was not scored because the AI service failed and this route fails open`,
+          warnings: ["AI analysis unavailable; not scored"],
+          contractInfo,
+          aiConfidence: 0,
+          analysisMode: "fail-open",
+          ...validation,
+        },
+        timestamp,
+        error: message,
+      };
+    }
+
+    const heuristic = score();
+    return {
+      success: true,
+      analysis: {
+        type,
+        riskLevel: heuristic.riskLevel,
+        fraudScore: heuristic.fraudScore,
+        description: "Heuristic risk assessment (AI unavailable)",
+        reasoning: `Scored from deterministic signals: ${heuristic.signals.join("; ")}`,
+        warnings: ["AI analysis unavailable; score is heuristic"],
+        contractInfo,
+        aiConfidence: 0,
+        analysisMode: "heuristic",
+        ...validation,
+      },
+      timestamp,
+      error: message,
+    };
+  }
+
+  /**
+   * Runs the fraud-assessment tool call on the configured provider and returns the validated arguments
+   */
+  private static async requestFraudAssessment(
+    prompt: string,
+    onProgress?: AnalysisProgressListener
+  ): Promise<LlmToolResult<FraudAssessment>> {
+    return LlmProviders.callTool<FraudAssessment>("transaction", {
+      system: FRAUD_ASSESSMENT_SYSTEM,
+      prompt,
+      tool: FRAUD_ASSESSMENT_TOOL,
+      consistency: RISK_SCORE_CONSISTENCY,
+      reasoningEffort: "medium",
+      onReasoning: onProgress
+        ? (delta) => onProgress({ stage: "reasoning", delta })
+        : undefined,
+    });
+  }
+
+  /**
+   * Analyzes an EIP-712 typed data signature request using AI for fraud detection
+   */
+  static async analyzeTypedDataForFraud(
+    decodedTypedData: DecodedTypedDataWithAbi
+  ): Promise<AIAnalysisResult> {
+    try {
+      const prompt = this.createTypedDataPrompt(decodedTypedData);
+
+      const assessment = await this.requestFraudAssessment(prompt);
+      const aiAnalysis = assessment.args;
+
+      return {
+        success: true,
+        analysis: {
+          type: "typed_data_signature",
+          riskLevel: aiAnalysis.riskLevel,
+          fraudScore: aiAnalysis.fraudScore,
+          description: aiAnalysis.description,
+          reasoning: aiAnalysis.reasoning,
+          warnings: aiAnalysis.warnings || [],
+          contractInfo: decodedTypedData.contractInfo
+            ? {
+                ...decodedTypedData.contractInfo,
+                functionName: aiAnalysis.functionName,
+                functionDescription: aiAnalysis.functionDescription,
+              }
+            : undefined,
+          aiConfidence: aiAnalysis.aiConfidence,
+          analysisMode: "ai",
+          validationStatus: assessment.validationStatus,
+          validationIssues: assessment.issues.length > 0 ? assessment.issues : undefined,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error("AI typed data analysis error:", error);
+
+      return this.fallbackResult(
+        "typed_data",
+        "typed_data_signature",
+        "signature request",
+        error,
+        () => HeuristicScorer.scoreTypedData(decodedTypedData),
+        decodedTypedData.contractInfo
+      );
+    }
+  }
+
+  /**
+   * Analyzes a personal_sign / eth_sign message using AI for fraud detection
+   */
+  static async analyzeMessageForFraud(
+    message: DecodedMessage,
+    warnings: string[]
+  ): Promise<AIAnalysisResult> {
+    try {
+      const prompt = this.createMessagePrompt(message, warnings);
+
+      const assessment = await this.requestFraudAssessment(prompt);
+      const aiAnalysis = assessment.args;
+
+      return {
+        success: true,
+        analysis: {
+          type: "message_signature",
+          riskLevel: aiAnalysis.riskLevel,
+          fraudScore: aiAnalysis.fraudScore,
+          description: aiAnalysis.description,
+          reasoning: aiAnalysis.reasoning,
+          warnings: aiAnalysis.warnings || [],
+          aiConfidence: aiAnalysis.aiConfidence,
+          analysisMode: "ai",
+          validationStatus: assessment.validationStatus,
+          validationIssues: assessment.issues.length > 0 ? assessment.issues : undefined,
         },
         timestamp: new Date().toISOString(),
-        error: error instanceof Error ? error.message : "Unknown error",
       };
+    } catch (error) {
+      console.error("AI message analysis error:", error);
+
+      return this.fallbackResult(
+        "message",
+        "message_signature",
+        "message",
+        error,
+        () => HeuristicScorer.scoreMessage(message, warnings)
+      );
     }
   }
 
@@ -196,7 +336,19 @@ export class AIService {
   private static createAnalysisPrompt(
     decodedTxWithAbi: DecodedTxWithAbi
   ): string {
-    const { transaction, analysis, abi, sourceCode } = decodedTxWithAbi;
+    const {
+      transaction,
+      analysis,
+      abi,
+      sourceCode,
+      sourceExcerpt,
+      ruleFindings,
+      simulation,
+    } = decodedTxWithAbi;
+
+    // Without an excerpt (unknown method), the whole source goes in, flattened and capped
+    const flattenedSource =
+      !sourceExcerpt && sourceCode ? SoliditySource.flatten(sourceCode) : undefined;
 
     // Handle BigInt serialization
     const safeStringify = (obj: any) => {
@@ -215,14 +367,57 @@ TRANSACTION DATA:
 - To Address: ${transaction.to}
 - Value: ${transaction.value} wei
 - Gas: ${transaction.gas}
-- Data: ${transaction.data}
+- Data: ${transaction.data}${
+      transaction.token
+        ? `
+- Target Token: ${transaction.token.symbol ?? "unknown symbol"} (${transaction.token.name ?? "unknown name"}, ${transaction.token.standard.toUpperCase()}${
+            transaction.token.decimals !== undefined ? `, ${transaction.token.decimals} decimals` : ""
+          })`
+        : ""
+    }
 
 ${
   transaction.decodedData
     ? `
 DECODED FUNCTION CALL:
 - Method: ${transaction.decodedData.method}
-- Parameters: ${safeStringify(transaction.decodedData.params)}
+- Parameters: ${safeStringify(transaction.decodedData.params)}${
+        transaction.decodedData.annotations
+          ? `
+- Human-readable parameters:
+${transaction.decodedData.annotations
+  .map((a) => `  - #${a.index}${a.name ? ` ${a.name}` : ""} (${a.type}): ${a.formatted}`)
+  .join("\n")}`
+          : ""
+      }${
+        transaction.decodedData.collision
+          ? `
+- WARNING: selector collision, the calldata also decodes as: ${transaction.decodedData.candidates!.slice(1).map((c) => c.signature).join(", ")}`
+          : ""
+      }
+`
+    : ""
+}
+
+${
+  transaction.callTree
+    ? `
+BATCHED CALL TREE (inner calls executed by this transaction):
+${BatchDecoder.describeCallTree(transaction.callTree)}
+`
+    : ""
+}
+
+${
+  transaction.authorizationList && transaction.authorizationList.length > 0
+    ? `
+EIP-7702 AUTHORIZATIONS (each signing EOA will run the delegate's code for every call it receives):
+${transaction.authorizationList
+  .map(
+    (a) =>
+      `- Delegate: ${a.address}, Authority: ${a.authority ?? "unknown"}, Chain ID: ${a.chainId === 0 ? "0 (any chain)" : a.chainId}, Nonce: ${a.nonce}`
+  )
+  .join("\n")}
 `
     : ""
 }
@@ -233,7 +428,58 @@ ${
 CONTRACT INFO:
 - Address: ${analysis.contractInfo.address}
 - ABI Available: ${analysis.contractInfo.abiAvailable}
-- ABI Source: ${analysis.contractInfo.abiSource}
+- ABI Source: ${analysis.contractInfo.abiSource}${
+        analysis.contractInfo.proxyType
+          ? `
+- Proxy Type: ${analysis.contractInfo.proxyType}
+- Implementation Address: ${analysis.contractInfo.implementationAddress}
+- Recently Upgraded: ${analysis.contractInfo.recentlyUpgraded ?? "Unknown"}
+- Note: ABI and source code below are from the implementation contract`
+          : ""
+      }
+`
+    : ""
+}
+
+${
+  analysis.contractInfo?.bytecode
+    ? `
+UNVERIFIED CONTRACT BYTECODE ANALYSIS (${analysis.contractInfo.bytecode.address}, ${analysis.contractInfo.bytecode.size} bytes):
+- Exposed functions: ${
+        analysis.contractInfo.bytecode.selectors
+          .map((s) => (s.signatures.length > 0 ? s.signatures.join(" / ") : s.selector))
+          .join(", ") || "none found"
+      }
+- DELEGATECALL: ${analysis.contractInfo.bytecode.opcodes.delegatecall}${
+        analysis.contractInfo.bytecode.delegatecallFromStorage ? " (target read from storage)" : ""
+      }
+- SELFDESTRUCT: ${analysis.contractInfo.bytecode.opcodes.selfdestruct}
+- msg.sender comparisons: ${analysis.contractInfo.bytecode.callerChecks}, tx.origin comparisons: ${analysis.contractInfo.bytecode.originChecks}
+- Forwards msg.value or its whole balance: ${analysis.contractInfo.bytecode.forwardsValue}
+- Solidity metadata present: ${analysis.contractInfo.bytecode.hasMetadata}
+Base your assessment of this contract on this evidence rather than on it being unverified alone.
+`
+    : ""
+}
+
+${
+  ruleFindings && ruleFindings.length > 0
+    ? `
+DETERMINISTIC RULE FINDINGS (already confirmed, do not score below them):
+${ruleFindings.map((f) => `- [${f.severity}] ${f.ruleId}: ${f.message}`).join("\n")}
+`
+    : ""
+}
+
+${
+  simulation
+    ? `
+SIMULATION RESULT (${simulation.method} against a forked node):
+- Reverted: ${simulation.reverted}${
+        simulation.revertReason ? ` (${simulation.revertReason})` : ""
+      }
+- Balance Changes: ${safeStringify(simulation.balanceChanges)}
+- Approvals Emitted: ${safeStringify(simulation.approvals)}
 `
     : ""
 }
@@ -248,10 +494,17 @@ ${abi}
 }
 
 ${
-  sourceCode
+  sourceExcerpt
     ? `
-CONTRACT SOURCE CODE:
-${sourceCode}
+RELEVANT CONTRACT SOURCE CODE (excerpt for ${sourceExcerpt.method}: the called function, its modifiers, the internal functions it calls and the state variables they use; from ${sourceExcerpt.files} file(s)${
+        sourceExcerpt.truncated ? ", truncated" : ""
+      }):
+${sourceExcerpt.text}
+`
+    : flattenedSource
+    ? `
+CONTRACT SOURCE CODE${flattenedSource.truncated ? " (truncated)" : ""}:
+${flattenedSource.text}
 `
     : ""
 }
@@ -259,4 +512,130 @@ ${sourceCode}
 Please analyze this transaction for potential fraud indicators and provide a comprehensive risk assessment. 
 Pay special attention to the contract source code if available, as it provides the most accurate context for understanding what the contract does.`;
   }
+
+  /**
+   * Creates analysis prompt for an EIP-712 signature request
+   */
+  private static createTypedDataPrompt(
+    decodedTypedData: DecodedTypedDataWithAbi
+  ): string {
+    const { typedData, warnings, contractInfo, abi } = decodedTypedData;
+
+    const safeStringify = (obj: any) => {
+      return JSON.stringify(
+        obj,
+        (key, value) => (typeof value === "bigint" ? value.toString() : value),
+        2
+      );
+    };
+
+    return `Analyze this EIP-712 typed data signature request for fraud risk.
+Signing it does not send a transaction, but a signed permit lets the spender move tokens later without further approval.
+
+SIGNATURE REQUEST:
+- Signer: ${typedData.signer || "Unknown"}
+- Primary Type: ${typedData.primaryType}
+- Recognized Permit Kind: ${typedData.permitKind}
+- Wallet Chain ID: ${typedData.requestedChainId ?? "Unknown"}
+
+DOMAIN:
+${safeStringify(typedData.domain)}
+
+MESSAGE:
+${safeStringify(typedData.message)}
+
+${
+  typedData.permits.length > 0
+    ? `
+DECODED PERMITS:
+${safeStringify(typedData.permits)}
+`
+    : ""
+}
+
+${
+  warnings.length > 0
+    ? `
+DETERMINISTIC FINDINGS:
+${warnings.map((w) => `- ${w}`).join("\n")}
+`
+    : ""
+}
+
+${
+  contractInfo
+    ? `
+VERIFYING CONTRACT INFO:
+- Address: ${contractInfo.address}
+- ABI Available: ${contractInfo.abiAvailable}
+- ABI Source: ${contractInfo.abiSource}
+`
+    : ""
+}
+
+${
+  abi
+    ? `
+VERIFYING CONTRACT ABI:
+${abi}
+`
+    : ""
+}
+
+Please assess who gains the ability to move which assets, for how long, and whether the request looks like a drainer or phishing permit.
+Use functionName for the permit primary type and functionDescription to describe what signing grants.`;
+  }
+
+  /**
+   * Creates analysis prompt for a personal_sign / eth_sign request
+   */
+  private static createMessagePrompt(
+    message: DecodedMessage,
+    warnings: string[]
+  ): string {
+    return `Analyze this wallet message signature request for fraud risk:
+
+SIGNATURE REQUEST:
+- Method: ${message.method}
+- Signer: ${message.signer || "Unknown"}
+- Requesting Origin: ${message.origin || "Unknown"}
+- Encoding: ${message.encoding}
+
+${
+  message.text !== undefined
+    ? `
+MESSAGE TEXT:
+${message.text}
+`
+    : `
+RAW MESSAGE:
+${message.raw}
+`
+}
+
+${
+  message.siwe
+    ? `
+SIGN-IN WITH ETHEREUM (EIP-4361):
+- Domain: ${message.siwe.domain}
+- Address: ${message.siwe.address}
+- URI: ${message.siwe.uri}
+- Chain ID: ${message.siwe.chainId}
+- Domain Matches Origin: ${message.siwe.domainMatchesOrigin ?? "Unknown"}
+`
+    : ""
+}
+
+${
+  warnings.length > 0
+    ? `
+DETERMINISTIC FINDINGS:
+${warnings.map((w) => `- ${w}`).join("\n")}
+`
+    : ""
+}
+
+Please assess whether signing this message could grant access, authorize asset movements, or is part of a phishing flow.
+Leave functionName and functionDescription empty unless the message references a specific contract action.`;
+  }
 }
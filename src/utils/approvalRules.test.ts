@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { encodeFunctionData, maxUint160, maxUint256, maxUint48, parseAbi } from 'viem';
+import { ApprovalRules } from './approvalRules';
+import { AIAnalysisResult, DecodedTransaction } from './types';
+
+const SENDER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const SPENDER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const PERMIT2 = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+const abi = parseAbi([
+    'function approve(address spender, uint256 amount)',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function transferFrom(address from, address to, uint256 amount)',
+    'function approve(address token, address spender, uint160 amount, uint48 expiration)'
+]);
+
+function tx(to: `0x${string}`, data: `0x${string}`): DecodedTransaction {
+    return {
+        hash: '',
+        from: SENDER,
+        to,
+        value: '0',
+        gas: '100000',
+        nonce: 0,
+        data,
+        type: 'eip1559',
+        chainId: 1,
+        isContractCreation: false,
+        isContractInteraction: true,
+        transactionType: 'contract_interaction'
+    };
+}
+
+function aiResult(fraudScore: number, riskLevel: 'low' | 'medium' | 'high'): AIAnalysisResult {
+    return {
+        success: true,
+        analysis: { type: 'contract_interaction', riskLevel, fraudScore, description: '', reasoning: '', warnings: ['from AI'], aiConfidence: 80 },
+        timestamp: new Date().toISOString()
+    };
+}
+
+describe('ApprovalRules.evaluate', () => {
+    // Without an Etherscan key the spender lookups return nothing, so only calldata rules fire
+    beforeEach(() => {
+        delete process.env.ETHERSCAN_API_KEY;
+    });
+
+    it('flags unlimited and effectively unlimited approvals with a floor of 60', async () => {
+        const unlimited = await ApprovalRules.evaluate(tx(TOKEN, encodeFunctionData({ abi, functionName: 'approve', args: [SPENDER, maxUint256] })));
+        const huge = await ApprovalRules.evaluate(tx(TOKEN, encodeFunctionData({ abi, functionName: 'approve', args: [SPENDER, 2n ** 128n] })));
+
+        assert.deepEqual(unlimited.findings.map((f) => f.ruleId), ['UNLIMITED_APPROVAL']);
+        assert.equal(unlimited.minimumFraudScore, 60);
+        assert.ok(unlimited.findings[0].message.includes('2^256-1'));
+        assert.ok(huge.findings[0].message.startsWith('Effectively unlimited'));
+    });
+
+    it('ignores bounded approvals and revocations', async () => {
+        const bounded = await ApprovalRules.evaluate(tx(TOKEN, encodeFunctionData({ abi, functionName: 'approve', args: [SPENDER, 1000n] })));
+        const revoke = await ApprovalRules.evaluate(tx(TOKEN, encodeFunctionData({ abi, functionName: 'setApprovalForAll', args: [SPENDER, false] })));
+
+        assert.equal(bounded.minimumFraudScore, 0);
+        assert.equal(revoke.minimumFraudScore, 0);
+    });
+
+    it('sets a floor of 70 for setApprovalForAll', async () => {
+        const result = await ApprovalRules.evaluate(tx(TOKEN, encodeFunctionData({ abi, functionName: 'setApprovalForAll', args: [SPENDER, true] })));
+
+        assert.deepEqual(result.findings.map((f) => f.ruleId), ['SET_APPROVAL_FOR_ALL']);
+        assert.equal(result.minimumFraudScore, 70);
+    });
+
+    it('flags unlimited, non-expiring Permit2 allowances', async () => {
+        const data = encodeFunctionData({ abi, functionName: 'approve', args: [TOKEN, SPENDER, maxUint160, Number(maxUint48)] });
+        const result = await ApprovalRules.evaluate(tx(PERMIT2, data));
+
+        assert.deepEqual(result.findings.map((f) => f.ruleId), ['PERMIT2_UNLIMITED_APPROVAL', 'PERMIT2_NO_EXPIRATION']);
+        assert.equal(result.findings[0].token, TOKEN);
+    });
+
+    it('flags transferFrom moving the sender\'s own tokens', async () => {
+        const result = await ApprovalRules.evaluate(tx(TOKEN, encodeFunctionData({ abi, functionName: 'transferFrom', args: [SENDER, SPENDER, 1n] })));
+
+        assert.deepEqual(result.findings.map((f) => f.ruleId), ['TRANSFER_FROM_SELF']);
+        assert.equal(result.minimumFraudScore, 40);
+    });
+});
+
+describe('ApprovalRules.applyToResult', () => {
+    it('raises the AI score and risk level to the rule floor', async () => {
+        delete process.env.ETHERSCAN_API_KEY;
+        const evaluation = await ApprovalRules.evaluate(tx(TOKEN, encodeFunctionData({ abi, functionName: 'setApprovalForAll', args: [SPENDER, true] })));
+
+        const result = ApprovalRules.applyToResult(aiResult(10, 'low'), evaluation);
+
+        assert.equal(result.analysis.fraudScore, 70);
+        assert.equal(result.analysis.riskLevel, 'high');
+        assert.equal(result.analysis.minimumFraudScore, 70);
+        assert.equal(result.analysis.warnings.at(-1), 'from AI');
+    });
+
+    it('keeps a higher AI score and leaves results without findings untouched', () => {
+        const evaluation = { findings: [{ ruleId: 'X', severity: 'medium' as const, message: 'm', minimumFraudScore: 40 }], minimumFraudScore: 40 };
+        const original = aiResult(90, 'high');
+
+        assert.equal(ApprovalRules.applyToResult(original, evaluation).analysis.fraudScore, 90);
+        assert.equal(ApprovalRules.applyToResult(original, { findings: [], minimumFraudScore: 0 }), original);
+    });
+});
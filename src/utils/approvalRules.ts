@@ -0,0 +1,316 @@
+import { maxUint160, maxUint256, maxUint48, parseAbi } from 'viem';
+import { fetchAccountCode, fetchContractAbiWithFallback } from './abi';
+import { TransactionDecoder } from './txDecoder';
+import { BatchDecoder } from './batchDecoder';
+import { AIAnalysisResult, CallNode, DecodedTransaction, RuleFinding } from './types';
+
+// Approval-related functions; selectors are unique so the ABI decodes calldata even without a verified ABI
+const APPROVAL_ABI = parseAbi([
+    'function approve(address spender, uint256 amount)',
+    'function increaseAllowance(address spender, uint256 addedValue)',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function transferFrom(address from, address to, uint256 amount)',
+    'function approve(address token, address spender, uint160 amount, uint48 expiration)',
+    'function transferFrom(address from, address to, uint160 amount, address token)'
+]);
+
+// Allowances this large are "unlimited" in practice even if not exactly 2^256-1
+const EFFECTIVELY_UNLIMITED = 2n ** 128n;
+
+export interface RuleEvaluation {
+    findings: RuleFinding[];
+    minimumFraudScore: number;
+}
+
+export class ApprovalRules {
+    /**
+     * Evaluates deterministic approval-risk rules for a decoded transaction and every call batched inside it
+     */
+    static async evaluate(transaction: DecodedTransaction): Promise<RuleEvaluation> {
+        const findings = await this.evaluateCall(transaction);
+
+        if (transaction.callTree) {
+            for (const node of BatchDecoder.flatten(transaction.callTree)) {
+                findings.push(...this.evaluateBatchNode(node));
+
+                if (node.data && node.data !== '0x') {
+                    const inner = await this.evaluateCall({ ...transaction, to: node.target as `0x${string}`, data: node.data, callTree: undefined });
+                    findings.push(...inner.map((f) => ({ ...f, message: `Inner call to ${node.target}: ${f.message}` })));
+                }
+            }
+        }
+
+        return {
+            findings,
+            minimumFraudScore: findings.reduce((max, f) => Math.max(max, f.minimumFraudScore), 0)
+        };
+    }
+
+    /**
+     * Addresses the transaction grants a non-zero allowance or operator rights to, including batched calls
+     */
+    static spenders(transaction: Pick<DecodedTransaction, 'data' | 'callTree'>): string[] {
+        const nodes = transaction.callTree ? BatchDecoder.flatten(transaction.callTree) : [];
+        const spenders = [transaction.data, ...nodes.map((node) => node.data)].flatMap((data) => this.spendersOf(data));
+
+        for (const node of nodes) {
+            const permit = this.permitOf(node);
+            if (permit?.spender && permit.details.some((detail) => detail.amount > 0n)) {
+                spenders.push(permit.spender);
+            }
+        }
+
+        return spenders.filter((spender, i) => spenders.findIndex((s) => s.toLowerCase() === spender.toLowerCase()) === i);
+    }
+
+    private static spendersOf(data?: `0x${string}`): string[] {
+        const call = data && data !== '0x' ? TransactionDecoder.decodeWithAbi(data, APPROVAL_ABI) : undefined;
+        const args = call?.params ?? [];
+
+        switch (call?.method) {
+            case 'approve':
+            case 'increaseAllowance': {
+                // Permit2 approve(token, spender, amount, expiration) has the spender second
+                const [spender, amount] = args.length === 4 ? [args[1], args[2]] : [args[0], args[1]];
+                return amount === 0n ? [] : [String(spender)];
+            }
+            case 'setApprovalForAll':
+                return args[1] === true ? [String(args[0])] : [];
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Spender and token allowances of a Universal Router PERMIT2_PERMIT or PERMIT2_PERMIT_BATCH command
+     */
+    private static permitOf(node: CallNode): { spender: string; details: Array<{ token: string; amount: bigint }> } | undefined {
+        if ((node.method !== 'PERMIT2_PERMIT' && node.method !== 'PERMIT2_PERMIT_BATCH') || node.params.length === 0) {
+            return undefined;
+        }
+        const permit = node.params[0] as { details?: { token: string; amount: bigint } | Array<{ token: string; amount: bigint }>; spender?: string };
+        if (!permit?.details || !permit.spender) {
+            return undefined;
+        }
+        return { spender: permit.spender, details: Array.isArray(permit.details) ? permit.details : [permit.details] };
+    }
+
+    /**
+     * Rules that only apply to calls inside a batch
+     */
+    private static evaluateBatchNode(node: CallNode): RuleFinding[] {
+        const findings: RuleFinding[] = [];
+
+        if (node.operation === 'delegatecall') {
+            findings.push({
+                ruleId: 'BATCH_DELEGATECALL',
+                severity: 'high',
+                message: `Batched call delegatecalls into ${node.target}, running its code with the caller's storage and permissions`,
+                minimumFraudScore: 60,
+                spender: node.target
+            });
+        }
+
+        const permit = this.permitOf(node);
+        for (const detail of permit?.details ?? []) {
+            if (detail.amount >= maxUint160) {
+                findings.push({
+                    ruleId: 'PERMIT2_UNLIMITED_APPROVAL',
+                    severity: 'high',
+                    message: `Universal Router command grants unlimited Permit2 allowance of ${detail.token} to ${permit!.spender}`,
+                    minimumFraudScore: 60,
+                    token: detail.token,
+                    spender: permit!.spender,
+                    amount: detail.amount.toString()
+                });
+            }
+        }
+
+        if (node.truncated) {
+            findings.push({
+                ruleId: 'BATCH_TOO_DEEP',
+                severity: 'medium',
+                message: `Batched calls nest deeper than the decoder allows; inner calls of ${node.method} were not inspected`,
+                minimumFraudScore: 50
+            });
+        }
+
+        return findings;
+    }
+
+    /**
+     * Evaluates the approval rules for a single call
+     */
+    private static async evaluateCall(transaction: DecodedTransaction): Promise<RuleFinding[]> {
+        const findings: RuleFinding[] = [];
+        const token = transaction.to ?? undefined;
+
+        const call = transaction.data && transaction.data !== '0x'
+            ? TransactionDecoder.decodeWithAbi(transaction.data, APPROVAL_ABI)
+            : undefined;
+
+        if (!call) {
+            return findings;
+        }
+
+        const args = call.params;
+        let spender: string | undefined;
+
+        switch (call.method) {
+            case 'approve':
+            case 'increaseAllowance': {
+                if (args.length === 4) {
+                    // Permit2 approve(token, spender, amount, expiration)
+                    const [permitToken, permitSpender, amount, expiration] = args as [string, string, bigint, number];
+                    if (amount === 0n) {
+                        break;
+                    }
+                    spender = permitSpender;
+                    if (amount >= maxUint160) {
+                        findings.push({
+                            ruleId: 'PERMIT2_UNLIMITED_APPROVAL',
+                            severity: 'high',
+                            message: `Unlimited Permit2 allowance of ${permitToken} granted to ${permitSpender}`,
+                            minimumFraudScore: 60,
+                            token: permitToken,
+                            spender: permitSpender,
+                            amount: amount.toString()
+                        });
+                    }
+                    if (BigInt(expiration) >= maxUint48) {
+                        findings.push({
+                            ruleId: 'PERMIT2_NO_EXPIRATION',
+                            severity: 'medium',
+                            message: `Permit2 allowance of ${permitToken} to ${permitSpender} never expires`,
+                            minimumFraudScore: 40,
+                            token: permitToken,
+                            spender: permitSpender
+                        });
+                    }
+                    break;
+                }
+
+                const [approveSpender, amount] = args as [string, bigint];
+                if (amount === 0n) {
+                    break;
+                }
+                spender = approveSpender;
+                if (amount >= EFFECTIVELY_UNLIMITED) {
+                    findings.push({
+                        ruleId: 'UNLIMITED_APPROVAL',
+                        severity: 'high',
+                        message: amount === maxUint256
+                            ? `Unlimited (2^256-1) allowance granted to ${approveSpender}`
+                            : `Effectively unlimited allowance granted to ${approveSpender}`,
+                        minimumFraudScore: 60,
+                        token,
+                        spender: approveSpender,
+                        amount: amount.toString()
+                    });
+                }
+                break;
+            }
+
+            case 'setApprovalForAll': {
+                const [operator, approved] = args as [string, boolean];
+                if (!approved) {
+                    break;
+                }
+                spender = operator;
+                findings.push({
+                    ruleId: 'SET_APPROVAL_FOR_ALL',
+                    severity: 'high',
+                    message: `setApprovalForAll grants ${operator} control of every token in the collection`,
+                    minimumFraudScore: 70,
+                    token,
+                    spender: operator
+                });
+                break;
+            }
+
+            case 'transferFrom': {
+                const [from, to] = args as [string, string];
+                const sender = transaction.from?.toLowerCase();
+                if (sender && from.toLowerCase() === sender && to.toLowerCase() !== sender) {
+                    findings.push({
+                        ruleId: args.length === 4 ? 'PERMIT2_TRANSFER_FROM_SELF' : 'TRANSFER_FROM_SELF',
+                        severity: 'medium',
+                        message: `transferFrom moves your own tokens to ${to} through an allowance`,
+                        minimumFraudScore: 40,
+                        token: args.length === 4 ? String(args[3]) : token,
+                        spender: to
+                    });
+                }
+                break;
+            }
+        }
+
+        if (spender) {
+            findings.push(...await this.checkSpender(transaction.chainId, spender, token));
+        }
+
+        return findings;
+    }
+
+    /**
+     * Flags approvals to EOAs and unverified contracts
+     */
+    private static async checkSpender(chainId: number, spender: string, token?: string): Promise<RuleFinding[]> {
+        const code = await fetchAccountCode(chainId, spender);
+
+        if (code === '0x') {
+            return [{
+                ruleId: 'APPROVAL_TO_EOA',
+                severity: 'high',
+                message: `Approval spender ${spender} is an externally owned account, not a contract`,
+                minimumFraudScore: 80,
+                token,
+                spender
+            }];
+        }
+
+        if (code === null) {
+            return [];
+        }
+
+        const abiResult = await fetchContractAbiWithFallback(chainId, spender);
+        if (!abiResult.abi && abiResult.error?.includes('not verified')) {
+            return [{
+                ruleId: 'APPROVAL_TO_UNVERIFIED_CONTRACT',
+                severity: 'medium',
+                message: `Approval spender ${spender} is an unverified contract`,
+                minimumFraudScore: 50,
+                token,
+                spender
+            }];
+        }
+
+        return [];
+    }
+
+    /**
+     * Merges rule findings into an AI result and enforces the fraud score floor
+     */
+    static applyToResult(result: AIAnalysisResult, evaluation: RuleEvaluation): AIAnalysisResult {
+        if (evaluation.findings.length === 0) {
+            return result;
+        }
+
+        const fraudScore = Math.max(result.analysis.fraudScore ?? 0, evaluation.minimumFraudScore);
+        const floorLevel = evaluation.minimumFraudScore >= 70 ? 'high' : evaluation.minimumFraudScore >= 40 ? 'medium' : 'low';
+        const levels = ['low', 'medium', 'high'] as const;
+        const riskLevel = levels[Math.max(levels.indexOf(result.analysis.riskLevel), levels.indexOf(floorLevel))];
+
+        return {
+            ...result,
+            analysis: {
+                ...result.analysis,
+                riskLevel,
+                fraudScore,
+                warnings: [...evaluation.findings.map((f) => f.message), ...result.analysis.warnings],
+                ruleFindings: evaluation.findings,
+                minimumFraudScore: evaluation.minimumFraudScore
+            }
+        };
+    }
+}
@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { concatHex, encodeAbiParameters, encodeFunctionData, encodePacked, maxUint160, maxUint256, parseAbi, parseAbiParameters, size, toHex } from 'viem';
+import { BatchDecoder, MAX_BATCH_DEPTH, MAX_BATCH_NODES } from './batchDecoder';
+import { ApprovalRules } from './approvalRules';
+import { CallNode, DecodedTransaction } from './types';
+
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const ROUTER = '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD';
+const SAFE = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const SPENDER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const abi = parseAbi([
+    'struct Call3 { address target; bool allowFailure; bytes callData; }',
+    'function aggregate3(Call3[] calls)',
+    'function multicall(bytes[] data)',
+    'function multiSend(bytes transactions)',
+    'function execute(bytes commands, bytes[] inputs)',
+    'function approve(address spender, uint256 amount)'
+]);
+
+const approve = (amount: bigint) => encodeFunctionData({ abi, functionName: 'approve', args: [SPENDER, amount] });
+const aggregate3 = (calls: Array<{ target: `0x${string}`; callData: `0x${string}` }>) =>
+    encodeFunctionData({ abi, functionName: 'aggregate3', args: [calls.map((c) => ({ ...c, allowFailure: false }))] });
+const multicall = (data: `0x${string}`[]) => encodeFunctionData({ abi, functionName: 'multicall', args: [data] });
+
+function multiSend(calls: Array<{ operation: number; to: `0x${string}`; data: `0x${string}` }>): `0x${string}` {
+    const packed = concatHex(calls.map((c) => encodePacked(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [c.operation, c.to, 0n, BigInt(size(c.data)), c.data]
+    )));
+    return encodeFunctionData({ abi, functionName: 'multiSend', args: [packed] });
+}
+
+function decode(target: string, data: `0x${string}`): Promise<CallNode | undefined> {
+    return BatchDecoder.decodeCallTree(1, target, '0', data);
+}
+
+describe('BatchDecoder', () => {
+    // No Etherscan key: inner calls fall back to the built-in selector table
+    beforeEach(() => {
+        delete process.env.ETHERSCAN_API_KEY;
+    });
+
+    it('leaves non-batch calls alone', async () => {
+        assert.equal(BatchDecoder.isBatchCall(approve(1n)), false);
+        assert.equal(await decode(TOKEN, approve(1n)), undefined);
+    });
+
+    it('decodes Multicall3 aggregate3 into child calls', async () => {
+        const tree = await decode(MULTICALL3, aggregate3([{ target: TOKEN, callData: approve(1n) }, { target: SPENDER, callData: '0x' }]));
+
+        assert.equal(tree?.method, 'aggregate3');
+        assert.deepEqual(tree?.children?.map((c) => [c.target, c.depth]), [[TOKEN, 1], [SPENDER, 1]]);
+        assert.equal(tree?.children?.[1].method, 'transfer');
+    });
+
+    it('unpacks Safe multiSend and keeps the delegatecall operation', async () => {
+        const tree = await decode(SAFE, multiSend([
+            { operation: 0, to: TOKEN, data: approve(1n) },
+            { operation: 1, to: SPENDER, data: '0x' }
+        ]));
+
+        assert.deepEqual(tree?.children?.map((c) => c.operation), ['call', 'delegatecall']);
+        assert.ok(BatchDecoder.describeCallTree(tree!).includes('[DELEGATECALL]'));
+    });
+
+    it('stops at the depth limit and marks the node truncated', async () => {
+        let data = approve(1n);
+        for (let i = 0; i < MAX_BATCH_DEPTH + 2; i++) {
+            data = multicall([data]);
+        }
+
+        const tree = await decode(ROUTER, data);
+        const nodes = [tree!, ...BatchDecoder.flatten(tree!)];
+
+        assert.equal(Math.max(...nodes.map((n) => n.depth)), MAX_BATCH_DEPTH);
+        assert.equal(nodes.at(-1)?.truncated, true);
+    });
+
+    it('stops at the node limit', async () => {
+        const calls = Array.from({ length: MAX_BATCH_NODES * 2 }, () => ({ target: TOKEN as `0x${string}`, callData: approve(1n) }));
+
+        const tree = await decode(MULTICALL3, aggregate3(calls));
+
+        assert.equal(tree?.truncated, true);
+        assert.equal(BatchDecoder.flatten(tree!).length, MAX_BATCH_NODES - 1);
+    });
+
+    it('decodes Universal Router commands, flags and sub-plans', async () => {
+        const permit = encodeAbiParameters(
+            parseAbiParameters('((address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature'),
+            [{ details: { token: TOKEN, amount: maxUint160, expiration: 0, nonce: 0 }, spender: SPENDER, sigDeadline: 0n }, '0x']
+        );
+        const sweep = encodeAbiParameters(parseAbiParameters('address token, address recipient, uint256 amountMin'), [TOKEN, SPENDER, 0n]);
+        const subPlan = encodeAbiParameters(parseAbiParameters('bytes commands, bytes[] inputs'), ['0x04', [sweep]]);
+        const data = encodeFunctionData({ abi, functionName: 'execute', args: ['0x0a8421', [permit, sweep, subPlan]] });
+
+        const tree = await decode(ROUTER, data);
+
+        assert.deepEqual(tree?.children?.map((c) => [c.method, c.allowFailure]), [
+            ['PERMIT2_PERMIT', false],
+            ['SWEEP', true],
+            ['EXECUTE_SUB_PLAN', false]
+        ]);
+        assert.equal(tree?.children?.[2].children?.[0].method, 'SWEEP');
+        assert.equal(tree?.children?.[2].children?.[0].depth, 2);
+    });
+
+    it('names commands it does not know', async () => {
+        const tree = await decode(ROUTER, encodeFunctionData({ abi, functionName: 'execute', args: [toHex(0x3f, { size: 1 }), ['0x']] }));
+
+        assert.equal(tree?.children?.[0].method, 'UNKNOWN_COMMAND_0x3f');
+    });
+});
+
+describe('ApprovalRules on batched calls', () => {
+    beforeEach(() => {
+        delete process.env.ETHERSCAN_API_KEY;
+    });
+
+    it('finds unlimited approvals and delegatecalls inside a batch', async () => {
+        const data = multiSend([
+            { operation: 0, to: TOKEN, data: approve(maxUint256) },
+            { operation: 1, to: SPENDER, data: '0x' }
+        ]);
+        const transaction: DecodedTransaction = {
+            hash: '', to: SAFE, value: '0', gas: '100000', nonce: 0, data, type: 'eip1559', chainId: 1,
+            isContractCreation: false, isContractInteraction: true, transactionType: 'contract_interaction',
+            callTree: await decode(SAFE, data)
+        };
+
+        const evaluation = await ApprovalRules.evaluate(transaction);
+
+        assert.deepEqual(evaluation.findings.map((f) => f.ruleId), ['UNLIMITED_APPROVAL', 'BATCH_DELEGATECALL']);
+        assert.ok(evaluation.findings[0].message.startsWith(`Inner call to ${TOKEN}`));
+        assert.equal(evaluation.minimumFraudScore, 60);
+    });
+
+    it('checks every allowance of a Universal Router PERMIT2_PERMIT_BATCH', async () => {
+        const permitBatch = encodeAbiParameters(
+            parseAbiParameters('((address token, uint160 amount, uint48 expiration, uint48 nonce)[] details, address spender, uint256 sigDeadline) permitBatch, bytes signature'),
+            [{
+                details: [
+                    { token: TOKEN, amount: 1000n, expiration: 0, nonce: 0 },
+                    { token: MULTICALL3, amount: maxUint160, expiration: 0, nonce: 0 }
+                ],
+                spender: SPENDER,
+                sigDeadline: 0n
+            }, '0x']
+        );
+        const data = encodeFunctionData({ abi, functionName: 'execute', args: ['0x03', [permitBatch]] });
+        const transaction: DecodedTransaction = {
+            hash: '', to: ROUTER, value: '0', gas: '100000', nonce: 0, data, type: 'eip1559', chainId: 1,
+            isContractCreation: false, isContractInteraction: true, transactionType: 'contract_interaction',
+            callTree: await decode(ROUTER, data)
+        };
+
+        const evaluation = await ApprovalRules.evaluate(transaction);
+        const unlimited = evaluation.findings.filter((f) => f.ruleId === 'PERMIT2_UNLIMITED_APPROVAL');
+
+        assert.equal(transaction.callTree?.children?.[0].method, 'PERMIT2_PERMIT_BATCH');
+        assert.deepEqual(unlimited.map((f) => [f.token, f.spender]), [[MULTICALL3, SPENDER]]);
+    });
+});
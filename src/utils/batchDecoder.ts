@@ -0,0 +1,311 @@
+import { decodeAbiParameters, getAddress, hexToBigInt, hexToNumber, parseAbi, parseAbiParameters, size, slice } from 'viem';
+import type { Abi } from 'viem';
+import { fetchContractAbiWithFallback } from './abi';
+import { TransactionDecoder } from './txDecoder';
+import { CallNode } from './types';
+
+// Nesting deeper than this is almost certainly an obfuscation attempt
+export const MAX_BATCH_DEPTH = 4;
+// Upper bound on decoded nodes per transaction, to keep ABI lookups and prompts bounded
+export const MAX_BATCH_NODES = 64;
+
+const BATCH_ABI = parseAbi([
+    // Multicall3
+    'struct Call { address target; bytes callData; }',
+    'struct Call3 { address target; bool allowFailure; bytes callData; }',
+    'struct Call3Value { address target; bool allowFailure; uint256 value; bytes callData; }',
+    'function aggregate(Call[] calls)',
+    'function tryAggregate(bool requireSuccess, Call[] calls)',
+    'function blockAndAggregate(Call[] calls)',
+    'function tryBlockAndAggregate(bool requireSuccess, Call[] calls)',
+    'function aggregate3(Call3[] calls)',
+    'function aggregate3Value(Call3Value[] calls)',
+    // Self-multicall (Uniswap routers, position managers, ...)
+    'function multicall(bytes[] data)',
+    'function multicall(uint256 deadline, bytes[] data)',
+    'function multicall(bytes32 previousBlockhash, bytes[] data)',
+    // Safe
+    'function multiSend(bytes transactions)',
+    'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)',
+    // Uniswap Universal Router
+    'function execute(bytes commands, bytes[] inputs)',
+    'function execute(bytes commands, bytes[] inputs, uint256 deadline)'
+]);
+
+// Universal Router command ids (lower 6 bits of each command byte) and their input encodings
+const UNIVERSAL_ROUTER_COMMANDS: Record<number, { name: string; params?: string }> = {
+    0x00: { name: 'V3_SWAP_EXACT_IN', params: 'address recipient, uint256 amountIn, uint256 amountOutMin, bytes path, bool payerIsUser' },
+    0x01: { name: 'V3_SWAP_EXACT_OUT', params: 'address recipient, uint256 amountOut, uint256 amountInMax, bytes path, bool payerIsUser' },
+    0x02: { name: 'PERMIT2_TRANSFER_FROM', params: 'address token, address recipient, uint256 amount' },
+    0x03: { name: 'PERMIT2_PERMIT_BATCH', params: '((address token, uint160 amount, uint48 expiration, uint48 nonce)[] details, address spender, uint256 sigDeadline) permitBatch, bytes signature' },
+    0x04: { name: 'SWEEP', params: 'address token, address recipient, uint256 amountMin' },
+    0x05: { name: 'TRANSFER', params: 'address token, address recipient, uint256 value' },
+    0x06: { name: 'PAY_PORTION', params: 'address token, address recipient, uint256 bips' },
+    0x08: { name: 'V2_SWAP_EXACT_IN', params: 'address recipient, uint256 amountIn, uint256 amountOutMin, address[] path, bool payerIsUser' },
+    0x09: { name: 'V2_SWAP_EXACT_OUT', params: 'address recipient, uint256 amountOut, uint256 amountInMax, address[] path, bool payerIsUser' },
+    0x0a: { name: 'PERMIT2_PERMIT', params: '((address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature' },
+    0x0b: { name: 'WRAP_ETH', params: 'address recipient, uint256 amountMin' },
+    0x0c: { name: 'UNWRAP_WETH', params: 'address recipient, uint256 amountMin' },
+    0x0d: { name: 'PERMIT2_TRANSFER_FROM_BATCH', params: '(address from, address to, uint160 amount, address token)[] batchDetails' },
+    0x0e: { name: 'BALANCE_CHECK_ERC20', params: 'address owner, address token, uint256 minBalance' },
+    0x10: { name: 'V4_SWAP' },
+    0x11: { name: 'V3_POSITION_MANAGER_PERMIT' },
+    0x12: { name: 'V3_POSITION_MANAGER_CALL' },
+    0x13: { name: 'V4_INITIALIZE_POOL' },
+    0x14: { name: 'V4_POSITION_MANAGER_CALL' },
+    0x21: { name: 'EXECUTE_SUB_PLAN', params: 'bytes commands, bytes[] inputs' }
+};
+
+interface InnerCall {
+    target: string;
+    value: bigint;
+    data: `0x${string}`;
+    operation?: 'call' | 'delegatecall';
+    allowFailure?: boolean;
+}
+
+interface DecodeContext {
+    chainId: number;
+    abis: Map<string, Promise<Abi | null>>;
+    nodeCount: number;
+}
+
+export class BatchDecoder {
+    /**
+     * Returns true if the calldata is one of the batch formats this decoder unpacks
+     */
+    static isBatchCall(data: string): boolean {
+        return !!data && data.length >= 10 && TransactionDecoder.decodeWithAbi(data, BATCH_ABI) !== undefined;
+    }
+
+    /**
+     * Recursively decodes a batched call into a tree of inner calls.
+     * Returns undefined when the outer call is not a batch.
+     */
+    static async decodeCallTree(
+        chainId: number,
+        target: string,
+        value: string,
+        data: `0x${string}`,
+        outerAbi?: Abi | null
+    ): Promise<CallNode | undefined> {
+        if (!this.isBatchCall(data)) {
+            return undefined;
+        }
+
+        const context: DecodeContext = { chainId, abis: new Map(), nodeCount: 0 };
+        if (outerAbi) {
+            context.abis.set(target.toLowerCase(), Promise.resolve(outerAbi));
+        }
+
+        return this.decodeCall(context, { target, value: this.toBigInt(value), data }, 0);
+    }
+
+    /**
+     * Flattens a call tree into every descendant node (excluding the root)
+     */
+    static flatten(node: CallNode): CallNode[] {
+        return (node.children ?? []).flatMap((child) => [child, ...this.flatten(child)]);
+    }
+
+    /**
+     * Renders a call tree as indented text for prompts and logs
+     */
+    static describeCallTree(node: CallNode): string {
+        const safe = (v: unknown) => JSON.stringify(v, (_k, x) => (typeof x === 'bigint' ? x.toString() : x));
+        const flags = [
+            node.operation === 'delegatecall' ? 'DELEGATECALL' : '',
+            node.value !== '0' ? `value=${node.value}` : '',
+            node.allowFailure ? 'allowFailure' : '',
+            node.truncated ? 'TRUNCATED' : ''
+        ].filter(Boolean).join(', ');
+
+        // Batch nodes carry their inner calls as raw bytes; the children already show them decoded
+        const args = node.children ? `${node.children.length} inner calls` : safe(node.params);
+        const line = `${'  '.repeat(node.depth)}- ${node.target}.${node.method}(${args})${flags ? ` [${flags}]` : ''}`;
+        return [line, ...(node.children ?? []).map((c) => this.describeCallTree(c))].join('\n');
+    }
+
+    private static async decodeCall(context: DecodeContext, call: InnerCall, depth: number): Promise<CallNode> {
+        context.nodeCount++;
+
+        const node: CallNode = {
+            target: call.target,
+            value: call.value.toString(),
+            method: 'unknown',
+            params: [],
+            data: call.data,
+            operation: call.operation,
+            allowFailure: call.allowFailure,
+            depth
+        };
+
+        if (!call.data || call.data === '0x') {
+            node.method = 'transfer';
+            return node;
+        }
+
+        const batch = TransactionDecoder.decodeWithAbi(call.data, BATCH_ABI);
+        if (batch) {
+            node.method = batch.method;
+            node.params = batch.params;
+
+            if (depth >= MAX_BATCH_DEPTH || context.nodeCount >= MAX_BATCH_NODES) {
+                node.truncated = true;
+                return node;
+            }
+
+            if (batch.method === 'execute') {
+                const [commands, inputs] = batch.params as [`0x${string}`, `0x${string}`[]];
+                node.children = this.decodeUniversalRouter(context, call.target, commands, inputs, depth + 1);
+                return node;
+            }
+
+            const inner = this.getInnerCalls(call.target, batch.method, batch.params);
+            const children: CallNode[] = [];
+            for (const innerCall of inner) {
+                if (context.nodeCount >= MAX_BATCH_NODES) {
+                    node.truncated = true;
+                    break;
+                }
+                children.push(await this.decodeCall(context, innerCall, depth + 1));
+            }
+            node.children = children;
+            return node;
+        }
+
+        const abi = await this.getAbi(context, call.target);
+        const decoded = (abi ? TransactionDecoder.decodeWithAbi(call.data, abi) : undefined)
+            ?? TransactionDecoder.decodeFunctionData(call.data);
+        node.method = decoded.method;
+        node.params = decoded.params;
+        return node;
+    }
+
+    /**
+     * Extracts inner calls from a decoded batch function
+     */
+    private static getInnerCalls(target: string, method: string, params: unknown[]): InnerCall[] {
+        switch (method) {
+            case 'aggregate':
+            case 'blockAndAggregate':
+                return (params[0] as Array<{ target: string; callData: `0x${string}` }>)
+                    .map((c) => ({ target: c.target, value: 0n, data: c.callData }));
+            case 'tryAggregate':
+            case 'tryBlockAndAggregate':
+                return (params[1] as Array<{ target: string; callData: `0x${string}` }>)
+                    .map((c) => ({ target: c.target, value: 0n, data: c.callData, allowFailure: !params[0] }));
+            case 'aggregate3':
+                return (params[0] as Array<{ target: string; allowFailure: boolean; callData: `0x${string}` }>)
+                    .map((c) => ({ target: c.target, value: 0n, data: c.callData, allowFailure: c.allowFailure }));
+            case 'aggregate3Value':
+                return (params[0] as Array<{ target: string; allowFailure: boolean; value: bigint; callData: `0x${string}` }>)
+                    .map((c) => ({ target: c.target, value: c.value, data: c.callData, allowFailure: c.allowFailure }));
+            case 'multicall': {
+                // Self-multicall: every inner call targets the same contract
+                const calls = params[params.length - 1] as `0x${string}`[];
+                return calls.map((data) => ({ target, value: 0n, data }));
+            }
+            case 'multiSend':
+                return this.decodeMultiSend(params[0] as `0x${string}`);
+            case 'execTransaction': {
+                const [to, value, data, operation] = params as [string, bigint, `0x${string}`, number];
+                return [{ target: to, value, data, operation: operation === 1 ? 'delegatecall' : 'call' }];
+            }
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Decodes Safe multiSend packed transactions: operation(1) | to(20) | value(32) | dataLength(32) | data
+     */
+    private static decodeMultiSend(transactions: `0x${string}`): InnerCall[] {
+        const calls: InnerCall[] = [];
+        const total = size(transactions);
+        let offset = 0;
+
+        while (offset + 85 <= total && calls.length < MAX_BATCH_NODES) {
+            const operation = hexToNumber(slice(transactions, offset, offset + 1));
+            const to = getAddress(slice(transactions, offset + 1, offset + 21));
+            const value = hexToBigInt(slice(transactions, offset + 21, offset + 53));
+            const dataLength = Number(hexToBigInt(slice(transactions, offset + 53, offset + 85)));
+            const start = offset + 85;
+
+            if (start + dataLength > total) {
+                break;
+            }
+
+            const data = dataLength > 0 ? slice(transactions, start, start + dataLength) : '0x';
+            calls.push({ target: to, value, data, operation: operation === 1 ? 'delegatecall' : 'call' });
+            offset = start + dataLength;
+        }
+
+        return calls;
+    }
+
+    /**
+     * Decodes Universal Router commands; each command becomes a child node of the router
+     */
+    private static decodeUniversalRouter(
+        context: DecodeContext,
+        router: string,
+        commands: `0x${string}`,
+        inputs: `0x${string}`[],
+        depth: number
+    ): CallNode[] {
+        const nodes: CallNode[] = [];
+        const count = Math.min(size(commands), inputs.length);
+
+        for (let i = 0; i < count && context.nodeCount < MAX_BATCH_NODES; i++) {
+            context.nodeCount++;
+            const commandByte = hexToNumber(slice(commands, i, i + 1));
+            const command = UNIVERSAL_ROUTER_COMMANDS[commandByte & 0x3f];
+            const node: CallNode = {
+                target: router,
+                value: '0',
+                method: command ? command.name : `UNKNOWN_COMMAND_0x${(commandByte & 0x3f).toString(16)}`,
+                params: [],
+                allowFailure: (commandByte & 0x80) !== 0,
+                depth
+            };
+
+            if (command?.params) {
+                try {
+                    node.params = decodeAbiParameters(parseAbiParameters(command.params), inputs[i]) as unknown[];
+                } catch (error) {
+                    console.warn(`Could not decode Universal Router ${command.name} input:`, error);
+                }
+            }
+
+            if (command?.name === 'EXECUTE_SUB_PLAN' && node.params.length === 2) {
+                if (depth >= MAX_BATCH_DEPTH) {
+                    node.truncated = true;
+                } else {
+                    const [subCommands, subInputs] = node.params as [`0x${string}`, `0x${string}`[]];
+                    node.children = this.decodeUniversalRouter(context, router, subCommands, subInputs, depth + 1);
+                }
+            }
+
+            nodes.push(node);
+        }
+
+        return nodes;
+    }
+
+    private static getAbi(context: DecodeContext, target: string): Promise<Abi | null> {
+        const key = target.toLowerCase();
+        if (!context.abis.has(key)) {
+            context.abis.set(key, fetchContractAbiWithFallback(context.chainId, target).then((r) => r.abi));
+        }
+        return context.abis.get(key)!;
+    }
+
+    private static toBigInt(value: string): bigint {
+        try {
+            return value ? BigInt(value) : 0n;
+        } catch {
+            return 0n;
+        }
+    }
+}
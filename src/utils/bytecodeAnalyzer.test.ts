@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { pad } from 'viem';
+import { BytecodeAnalyzer } from './bytecodeAnalyzer';
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TARGET = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+// ipfs hash + solc 0.8.20 metadata, as appended by the compiler
+const METADATA = `a2646970667358221220${'ab'.repeat(32)}64736f6c63430008140033`;
+
+describe('BytecodeAnalyzer.disassemble', () => {
+    it('skips PUSH operands so their bytes are not read as opcodes', () => {
+        const instructions = BytecodeAnalyzer.disassemble('0x60ff5f7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff00ff');
+
+        assert.deepEqual(instructions.map((i) => [i.pc, i.name]), [[0, 'PUSH1'], [2, 'PUSH0'], [3, 'PUSH32'], [36, 'STOP'], [37, 'SELFDESTRUCT']]);
+        assert.equal(instructions[0].push, 'ff');
+    });
+
+    it('names unlisted opcodes by their hex value', () => {
+        assert.deepEqual(BytecodeAnalyzer.disassemble('0x0102').map((i) => i.name), ['0x01', '0x02']);
+    });
+});
+
+describe('BytecodeAnalyzer.analyzeInitCode', () => {
+    it('reads the compiler version, constructor args and hard-coded addresses', () => {
+        const code = `6080604052${'73'}${TARGET.slice(2)}${'73'}${'f'.repeat(40)}f4`;
+        const args = `${pad(OWNER).slice(2)}${pad('0x2a').slice(2)}`;
+
+        const analysis = BytecodeAnalyzer.analyzeInitCode(`0x${code}${METADATA}${args}`);
+
+        assert.deepEqual(analysis.metadata, { hashKind: 'ipfs', hash: 'ab'.repeat(32), solcVersion: '0.8.20' });
+        assert.equal(analysis.codeSize, code.length / 2);
+        assert.deepEqual(analysis.hardcodedAddresses, [TARGET]);
+        assert.deepEqual(analysis.constructorArgs?.addresses, [OWNER]);
+        assert.equal(analysis.constructorArgs?.words.length, 2);
+        assert.deepEqual(analysis.findings.map((f) => f.ruleId), ['INIT_DELEGATECALL']);
+        assert.equal(analysis.riskLevel, 'medium');
+        assert.equal(BytecodeAnalyzer.describe(analysis), `Contract deployment (${analysis.size} bytes, solc 0.8.20, 2 constructor argument words)`);
+    });
+
+    it('flags the metamorphic CREATE2 + SELFDESTRUCT pattern', () => {
+        const analysis = BytecodeAnalyzer.analyzeInitCode(`0x6000f5ff${METADATA}`);
+
+        assert.deepEqual(analysis.findings.map((f) => f.ruleId), ['INIT_METAMORPHIC']);
+        assert.equal(analysis.riskScore, 80);
+        assert.equal(analysis.riskLevel, 'high');
+    });
+
+    it('reports code without metadata and tx.origin reads', () => {
+        const analysis = BytecodeAnalyzer.analyzeInitCode('0x3233146000f2');
+
+        assert.equal(analysis.metadata, undefined);
+        assert.equal(analysis.constructorArgs, undefined);
+        assert.deepEqual(analysis.findings.map((f) => f.ruleId), ['INIT_CALLCODE', 'INIT_TX_ORIGIN', 'INIT_NO_METADATA']);
+        assert.equal(analysis.riskScore, 50);
+    });
+
+    it('scores plain deployments as low risk', () => {
+        const analysis = BytecodeAnalyzer.analyzeInitCode(`0x6080604052348015600f57600080fd5b50${METADATA}`);
+
+        assert.deepEqual(analysis.findings, []);
+        assert.equal(analysis.riskScore, 15);
+        assert.equal(analysis.riskLevel, 'low');
+    });
+});
+
+describe('BytecodeAnalyzer.analyzeRuntimeCode', () => {
+    // Dispatcher: selector = calldata[0:4]; then one PUSHn <selector> EQ PUSH2 <dest> JUMPI per function
+    const dispatch = (push: string) => `80${push}1461010057`;
+    const DISPATCHER = '60003560e01c';
+
+    it('lists dispatcher selectors, including ones pushed with PUSH3', () => {
+        const analysis = BytecodeAnalyzer.analyzeRuntimeCode(TARGET, `0x${DISPATCHER}${dispatch('63a9059cbb')}${dispatch('62fdd58e')}00${METADATA}`);
+
+        assert.deepEqual(analysis.selectors.map((s) => s.selector), ['0xa9059cbb', '0x00fdd58e']);
+        assert.equal(analysis.selectors[0].signatures[0], 'transfer(address,uint256)');
+        assert.equal(analysis.hasMetadata, true);
+        assert.deepEqual(analysis.findings, []);
+        assert.equal(analysis.riskLevel, 'low');
+    });
+
+    it('flags drainer lures that forward ETH, storage-loaded delegatecalls and tx.origin checks', () => {
+        const claim = '634e71d92d';
+        const forwardValue = '5b346000600060006000335af100';
+        const delegateFromStorage = '5b600054f400';
+        const originGate = '5b32331461010057';
+
+        const analysis = BytecodeAnalyzer.analyzeRuntimeCode(TARGET, `0x${DISPATCHER}${dispatch(claim)}${forwardValue}${delegateFromStorage}${originGate}`);
+
+        assert.deepEqual(analysis.drainerSelectors, ['claim()']);
+        assert.equal(analysis.forwardsValue, true);
+        assert.equal(analysis.delegatecallFromStorage, true);
+        assert.equal(analysis.originChecks, 1);
+        assert.equal(analysis.callerChecks, 1);
+        assert.equal(analysis.hasMetadata, false);
+        assert.deepEqual(analysis.findings.map((f) => f.ruleId), ['RUNTIME_DRAINER', 'RUNTIME_DELEGATECALL_STORAGE', 'RUNTIME_TX_ORIGIN_AUTH']);
+        assert.equal(analysis.riskScore, 90);
+    });
+
+    it('only reports a lure when the ETH is not forwarded', () => {
+        const analysis = BytecodeAnalyzer.analyzeRuntimeCode(TARGET, `0x${DISPATCHER}${dispatch('634e71d92d')}5b00`);
+
+        assert.deepEqual(analysis.findings.map((f) => f.ruleId), ['RUNTIME_DRAINER_LURE']);
+        assert.equal(analysis.riskLevel, 'medium');
+    });
+});
@@ -0,0 +1,346 @@
+import { getAddress, toFunctionSelector } from 'viem';
+import { SelectorDatabase } from './selectorDatabase';
+import { InitCodeAnalysis, OpcodeCounts, RuleFinding, RuntimeCodeAnalysis } from './types';
+
+export interface Instruction {
+    pc: number;
+    opcode: number;
+    name: string;
+    push?: string; // immediate operand of PUSH1..PUSH32, without 0x
+}
+
+// Opcodes the analysis reports on; everything else disassembles as its hex value
+const OPCODE_NAMES: Record<number, string> = {
+    0x00: 'STOP', 0x14: 'EQ', 0x30: 'ADDRESS', 0x31: 'BALANCE', 0x32: 'ORIGIN', 0x33: 'CALLER', 0x34: 'CALLVALUE', 0x3b: 'EXTCODESIZE', 0x3f: 'EXTCODEHASH',
+    0x47: 'SELFBALANCE', 0x54: 'SLOAD', 0x55: 'SSTORE', 0x56: 'JUMP', 0x57: 'JUMPI', 0x5b: 'JUMPDEST', 0x5f: 'PUSH0',
+    0xf0: 'CREATE', 0xf1: 'CALL', 0xf2: 'CALLCODE', 0xf3: 'RETURN', 0xf4: 'DELEGATECALL', 0xf5: 'CREATE2',
+    0xfa: 'STATICCALL', 0xfd: 'REVERT', 0xfe: 'INVALID', 0xff: 'SELFDESTRUCT'
+};
+
+// Solidity CBOR metadata at the end of the runtime code: ipfs + solc version (>=0.6), bzzr1 (0.5.x), bzzr0 (<0.5)
+const METADATA_PATTERNS: Array<{ pattern: RegExp; hashKind: 'ipfs' | 'bzzr1' | 'bzzr0' }> = [
+    { pattern: /a2646970667358221220([0-9a-f]{64})64736f6c6343([0-9a-f]{6})0033/g, hashKind: 'ipfs' },
+    { pattern: /a265627a7a72315820([0-9a-f]{64})64736f6c6343([0-9a-f]{6})0032/g, hashKind: 'bzzr1' },
+    { pattern: /a165627a7a72305820([0-9a-f]{64})0029/g, hashKind: 'bzzr0' }
+];
+
+// Lure names used by wallet drainers; the "claim" button calls one of these with the victim's ETH attached
+const DRAINER_SIGNATURES = [
+    'claim()', 'Claim()', 'claimReward()', 'ClaimReward()', 'claimRewards()', 'ClaimRewards()',
+    'SecurityUpdate()', 'securityUpdate()', 'Airdrop()', 'airdrop()', 'Connect()', 'connect()',
+    'Execute()', 'Multicall()', 'NetworkMerge()', 'SafeClaim()', 'Verify()', 'Enable()'
+];
+const DRAINER_SELECTORS = new Map<string, string>(DRAINER_SIGNATURES.map((signature) => [toFunctionSelector(signature), signature]));
+
+// Opcodes that end a basic block (JUMPDEST starts one)
+const BLOCK_TERMINATORS = new Set(['JUMP', 'JUMPI', 'STOP', 'RETURN', 'REVERT', 'INVALID', 'SELFDESTRUCT']);
+
+// Well-known constants that are pushed as 20-byte values but are not contract addresses
+const IGNORED_PUSH20 = /^(0{40}|f{40}|e{40})$/;
+
+export class BytecodeAnalyzer {
+    /**
+     * Linear-sweep disassembly; data sections disassemble as junk but never hide real opcodes before them
+     */
+    static disassemble(bytecode: string): Instruction[] {
+        const hex = bytecode.toLowerCase().replace(/^0x/, '');
+        const instructions: Instruction[] = [];
+
+        for (let i = 0; i < hex.length; i += 2) {
+            const pc = i / 2;
+            const opcode = parseInt(hex.slice(i, i + 2), 16);
+            if (opcode >= 0x60 && opcode <= 0x7f) {
+                const size = opcode - 0x5f;
+                instructions.push({ pc, opcode, name: `PUSH${size}`, push: hex.slice(i + 2, i + 2 + size * 2) });
+                i += size * 2;
+            } else {
+                instructions.push({ pc, opcode, name: OPCODE_NAMES[opcode] ?? `0x${opcode.toString(16).padStart(2, '0')}` });
+            }
+        }
+
+        return instructions;
+    }
+
+    /**
+     * Statically analyzes contract-creation init code (constructor + embedded runtime + constructor args)
+     */
+    static analyzeInitCode(initCode: string): InitCodeAnalysis {
+        const hex = initCode.toLowerCase().replace(/^0x/, '');
+        const metadata = this.findMetadata(hex);
+
+        // Constructor args follow the runtime's metadata; without metadata the whole input is treated as code
+        const codeHex = metadata ? hex.slice(0, metadata.start) : hex;
+        const argsHex = metadata ? hex.slice(metadata.end) : '';
+        const instructions = this.disassemble(codeHex);
+
+        const opcodes = this.countOpcodes(instructions);
+
+        const hardcodedAddresses = new Set<string>();
+        for (const instruction of instructions) {
+            if (instruction.name === 'PUSH20' && instruction.push?.length === 40 && !IGNORED_PUSH20.test(instruction.push)) {
+                hardcodedAddresses.add(getAddress(`0x${instruction.push}`));
+            }
+        }
+
+        let constructorArgs: InitCodeAnalysis['constructorArgs'];
+        if (argsHex.length > 0 && argsHex.length % 64 === 0) {
+            const words = argsHex.match(/.{64}/g)!.map((word) => `0x${word}`);
+            const addresses = words
+                .filter((word) => /^0x0{24}[0-9a-f]{40}$/.test(word) && BigInt(word) > 2n ** 96n)
+                .map((word) => getAddress(`0x${word.slice(26)}`));
+            constructorArgs = { raw: `0x${argsHex}`, words, addresses };
+        }
+
+        const analysis: InitCodeAnalysis = {
+            size: hex.length / 2,
+            codeSize: codeHex.length / 2,
+            opcodes,
+            hardcodedAddresses: Array.from(hardcodedAddresses),
+            metadata: metadata ? { hashKind: metadata.hashKind, hash: metadata.hash, solcVersion: metadata.solcVersion } : undefined,
+            constructorArgs,
+            findings: [],
+            riskScore: 0,
+            riskLevel: 'low'
+        };
+
+        analysis.findings = this.getFindings(analysis);
+        analysis.riskScore = analysis.findings.reduce((max, f) => Math.max(max, f.minimumFraudScore), 15);
+        analysis.riskLevel = analysis.riskScore >= 70 ? 'high' : analysis.riskScore >= 40 ? 'medium' : 'low';
+
+        return analysis;
+    }
+
+    /**
+     * Heuristics over deployed runtime code, for targets without verified source
+     */
+    static analyzeRuntimeCode(address: string, code: string): RuntimeCodeAnalysis {
+        const hex = code.toLowerCase().replace(/^0x/, '');
+        const metadata = this.findMetadata(hex);
+        const instructions = this.disassemble(metadata ? hex.slice(0, metadata.start) : hex);
+        const blocks = this.basicBlocks(instructions);
+
+        // Dispatcher entries: the selector is pushed and compared to the calldata's first four bytes (PUSH3 when it starts with 00)
+        const selectors = new Set<string>();
+        instructions.forEach((instruction, i) => {
+            if ((instruction.name === 'PUSH4' || instruction.name === 'PUSH3') && instructions[i + 1]?.name === 'EQ') {
+                selectors.add(`0x${instruction.push!.padStart(8, '0')}`);
+            }
+        });
+
+        const blockHas = (block: Instruction[], first: string[], then: string[]) => {
+            const start = block.findIndex((i) => first.includes(i.name));
+            return start !== -1 && block.slice(start + 1).some((i) => then.includes(i.name));
+        };
+        const comparisons = (source: string) => blocks.filter((block) => blockHas(block, [source], ['EQ'])).length;
+
+        const analysis: RuntimeCodeAnalysis = {
+            address,
+            size: hex.length / 2,
+            selectors: Array.from(selectors).map((selector) => ({ selector, signatures: SelectorDatabase.lookupFunction(selector) })),
+            opcodes: this.countOpcodes(instructions),
+            delegatecallFromStorage: blocks.some((block) => blockHas(block, ['SLOAD'], ['DELEGATECALL'])),
+            callerChecks: comparisons('CALLER'),
+            originChecks: comparisons('ORIGIN'),
+            forwardsValue: blocks.some((block) => blockHas(block, ['CALLVALUE', 'SELFBALANCE'], ['CALL'])),
+            drainerSelectors: Array.from(selectors).filter((s) => DRAINER_SELECTORS.has(s)).map((s) => DRAINER_SELECTORS.get(s)!),
+            hasMetadata: !!metadata,
+            findings: [],
+            riskScore: 0,
+            riskLevel: 'low'
+        };
+
+        analysis.findings = this.getRuntimeFindings(analysis);
+        analysis.riskScore = analysis.findings.reduce((max, f) => Math.max(max, f.minimumFraudScore), 0);
+        analysis.riskLevel = analysis.riskScore >= 70 ? 'high' : analysis.riskScore >= 40 ? 'medium' : 'low';
+
+        return analysis;
+    }
+
+    /**
+     * Short plain-language summary of the deployment for descriptions and prompts
+     */
+    static describe(analysis: InitCodeAnalysis): string {
+        const compiler = analysis.metadata?.solcVersion ? `solc ${analysis.metadata.solcVersion}` : 'unknown compiler';
+        const words = analysis.constructorArgs?.words.length ?? 0;
+        const args = words > 0 ? `, ${words} constructor argument word${words === 1 ? '' : 's'}` : '';
+        return `Contract deployment (${analysis.size} bytes, ${compiler}${args})`;
+    }
+
+    private static getFindings(analysis: InitCodeAnalysis): RuleFinding[] {
+        const findings: RuleFinding[] = [];
+        const { opcodes } = analysis;
+
+        if (opcodes.selfdestruct > 0 && opcodes.create2 > 0) {
+            findings.push({
+                ruleId: 'INIT_METAMORPHIC',
+                severity: 'high',
+                message: 'Bytecode combines CREATE2 and SELFDESTRUCT, the metamorphic-contract pattern that lets code at an address be replaced',
+                minimumFraudScore: 80
+            });
+        } else if (opcodes.selfdestruct > 0) {
+            findings.push({
+                ruleId: 'INIT_SELFDESTRUCT',
+                severity: 'medium',
+                message: 'Bytecode contains SELFDESTRUCT; the contract can be destroyed and its ETH sent elsewhere',
+                minimumFraudScore: 55
+            });
+        } else if (opcodes.create2 > 0) {
+            findings.push({
+                ruleId: 'INIT_CREATE2',
+                severity: 'low',
+                message: 'Bytecode deploys further contracts with CREATE2',
+                minimumFraudScore: 25
+            });
+        }
+
+        if (opcodes.callcode > 0) {
+            findings.push({
+                ruleId: 'INIT_CALLCODE',
+                severity: 'medium',
+                message: 'Bytecode uses the deprecated CALLCODE opcode, which runs external code in this contract\'s storage',
+                minimumFraudScore: 50
+            });
+        }
+
+        if (opcodes.delegatecall > 0) {
+            findings.push({
+                ruleId: 'INIT_DELEGATECALL',
+                severity: 'medium',
+                message: 'Bytecode uses DELEGATECALL; whoever controls the target code controls this contract (proxy or plugin pattern)',
+                minimumFraudScore: 40
+            });
+        }
+
+        if (opcodes.origin > 0) {
+            findings.push({
+                ruleId: 'INIT_TX_ORIGIN',
+                severity: 'low',
+                message: 'Bytecode reads tx.origin, often used for authorization that phishing contracts can abuse',
+                minimumFraudScore: 30
+            });
+        }
+
+        if (!analysis.metadata) {
+            findings.push({
+                ruleId: 'INIT_NO_METADATA',
+                severity: 'low',
+                message: 'Bytecode has no Solidity compiler metadata (hand-written, stripped or non-Solidity code)',
+                minimumFraudScore: 30
+            });
+        }
+
+        return findings;
+    }
+
+    private static getRuntimeFindings(analysis: RuntimeCodeAnalysis): RuleFinding[] {
+        const findings: RuleFinding[] = [];
+        const lures = analysis.drainerSelectors.join(', ');
+
+        if (analysis.drainerSelectors.length > 0 && analysis.forwardsValue) {
+            findings.push({
+                ruleId: 'RUNTIME_DRAINER',
+                severity: 'high',
+                message: `Unverified contract exposes ${lures} and forwards the ETH it receives, the pattern of wallet drainer contracts`,
+                minimumFraudScore: 90
+            });
+        } else if (analysis.drainerSelectors.length > 0) {
+            findings.push({
+                ruleId: 'RUNTIME_DRAINER_LURE',
+                severity: 'medium',
+                message: `Unverified contract exposes ${lures}, function names used by drainer sites`,
+                minimumFraudScore: 50
+            });
+        }
+
+        if (analysis.delegatecallFromStorage) {
+            findings.push({
+                ruleId: 'RUNTIME_DELEGATECALL_STORAGE',
+                severity: 'medium',
+                message: 'Unverified contract delegates execution to an address read from storage; whoever can change it controls the contract',
+                minimumFraudScore: 50
+            });
+        } else if (analysis.opcodes.delegatecall > 0) {
+            findings.push({
+                ruleId: 'RUNTIME_DELEGATECALL',
+                severity: 'low',
+                message: 'Unverified contract uses DELEGATECALL',
+                minimumFraudScore: 30
+            });
+        }
+
+        if (analysis.opcodes.selfdestruct > 0) {
+            findings.push({
+                ruleId: 'RUNTIME_SELFDESTRUCT',
+                severity: 'medium',
+                message: 'Unverified contract contains SELFDESTRUCT',
+                minimumFraudScore: 45
+            });
+        }
+
+        if (analysis.originChecks > 0) {
+            findings.push({
+                ruleId: 'RUNTIME_TX_ORIGIN_AUTH',
+                severity: 'low',
+                message: 'Unverified contract compares tx.origin, an authorization check that any contract you call can pass on your behalf',
+                minimumFraudScore: 30
+            });
+        }
+
+        return findings;
+    }
+
+    private static countOpcodes(instructions: Instruction[]): OpcodeCounts {
+        const count = (name: string) => instructions.filter((i) => i.name === name).length;
+        return {
+            selfdestruct: count('SELFDESTRUCT'),
+            delegatecall: count('DELEGATECALL'),
+            callcode: count('CALLCODE'),
+            create: count('CREATE'),
+            create2: count('CREATE2'),
+            origin: count('ORIGIN')
+        };
+    }
+
+    private static basicBlocks(instructions: Instruction[]): Instruction[][] {
+        const blocks: Instruction[][] = [];
+        let current: Instruction[] = [];
+        for (const instruction of instructions) {
+            if (instruction.name === 'JUMPDEST' && current.length > 0) {
+                blocks.push(current);
+                current = [];
+            }
+            current.push(instruction);
+            if (BLOCK_TERMINATORS.has(instruction.name)) {
+                blocks.push(current);
+                current = [];
+            }
+        }
+        if (current.length > 0) {
+            blocks.push(current);
+        }
+        return blocks;
+    }
+
+    /**
+     * Finds the last Solidity metadata block; the runtime embedded in init code carries it right before the constructor args
+     */
+    private static findMetadata(hex: string): { start: number; end: number; hashKind: 'ipfs' | 'bzzr1' | 'bzzr0'; hash: string; solcVersion?: string } | null {
+        let best: { start: number; end: number; hashKind: 'ipfs' | 'bzzr1' | 'bzzr0'; hash: string; solcVersion?: string } | null = null;
+
+        for (const { pattern, hashKind } of METADATA_PATTERNS) {
+            for (const match of hex.matchAll(pattern)) {
+                // Offsets must fall on byte boundaries
+                if (match.index! % 2 !== 0) {
+                    continue;
+                }
+                const end = match.index! + match[0].length;
+                if (!best || end > best.end) {
+                    const version = match[2]?.match(/.{2}/g)?.map((byte) => parseInt(byte, 16)).join('.');
+                    best = { start: match.index!, end, hashKind, hash: match[1], solcVersion: version };
+                }
+            }
+        }
+
+        return best;
+    }
+}
@@ -0,0 +1,78 @@
+export interface KnownChain {
+    chainId: number;
+    names: string[];
+    nativeSymbol: string;
+    // Hostname suffixes of public RPC providers commonly used for this chain
+    rpcHosts: string[];
+}
+
+// Hostname suffixes of RPC providers that serve many chains
+export const TRUSTED_RPC_PROVIDERS = [
+    'infura.io',
+    'alchemy.com',
+    'alchemyapi.io',
+    'quicknode.pro',
+    'ankr.com',
+    'publicnode.com',
+    'llamarpc.com',
+    'blastapi.io',
+    'drpc.org',
+    '1rpc.io',
+    'chainstack.com'
+];
+
+export const KNOWN_CHAINS: Record<number, KnownChain> = {
+    1: { chainId: 1, names: ['ethereum', 'mainnet', 'ethereum mainnet'], nativeSymbol: 'ETH', rpcHosts: ['cloudflare-eth.com', 'flashbots.net'] },
+    10: { chainId: 10, names: ['optimism', 'op mainnet'], nativeSymbol: 'ETH', rpcHosts: ['optimism.io'] },
+    56: { chainId: 56, names: ['bnb smart chain', 'bsc', 'binance smart chain', 'bnb chain'], nativeSymbol: 'BNB', rpcHosts: ['binance.org', 'bnbchain.org', 'defibit.io', 'ninicoin.io'] },
+    100: { chainId: 100, names: ['gnosis', 'gnosis chain', 'xdai'], nativeSymbol: 'XDAI', rpcHosts: ['gnosischain.com', 'gnosis.io'] },
+    137: { chainId: 137, names: ['polygon', 'polygon mainnet', 'matic'], nativeSymbol: 'POL', rpcHosts: ['polygon-rpc.com', 'polygon.technology'] },
+    8453: { chainId: 8453, names: ['base', 'base mainnet'], nativeSymbol: 'ETH', rpcHosts: ['base.org'] },
+    42161: { chainId: 42161, names: ['arbitrum', 'arbitrum one'], nativeSymbol: 'ETH', rpcHosts: ['arbitrum.io'] },
+    43114: { chainId: 43114, names: ['avalanche', 'avalanche c-chain', 'avalanche mainnet'], nativeSymbol: 'AVAX', rpcHosts: ['avax.network'] },
+    11155111: { chainId: 11155111, names: ['sepolia', 'sepolia testnet'], nativeSymbol: 'ETH', rpcHosts: ['sepolia.org'] }
+};
+
+// Canonical addresses of tokens that scammers most often impersonate, keyed by chainId then symbol
+export const WELL_KNOWN_TOKENS: Record<number, Record<string, string>> = {
+    1: {
+        USDC: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+        USDT: '0xdac17f958d2ee523a2206206994597c13d831ec7',
+        DAI: '0x6b175474e89094c44da98b954eedeac495271d0f',
+        WETH: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+        WBTC: '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599',
+        UNI: '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984',
+        LINK: '0x514910771af9ca656af840dff83e8264ecf986ca'
+    },
+    10: {
+        USDC: '0x0b2c639c533813f4aa9d7837caf62653d097ff85',
+        USDT: '0x94b008aa00579c1307b0ef2c499ad98a8ce58e58',
+        WETH: '0x4200000000000000000000000000000000000006'
+    },
+    56: {
+        USDC: '0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+        USDT: '0x55d398326f99059ff775485246999027b3197955',
+        WBNB: '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c'
+    },
+    137: {
+        USDC: '0x3c499c542cef5e3811e1192ce70d8cc03d5c3359',
+        USDT: '0xc2132d05d31c914a87c6611c10748aeb04b58e8f',
+        WETH: '0x7ceb23fd6bc0add59e62ac25578270cff1b9f619'
+    },
+    8453: {
+        USDC: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+        WETH: '0x4200000000000000000000000000000000000006'
+    },
+    42161: {
+        USDC: '0xaf88d065e77c8cc2239327c5edb3a432268e5831',
+        USDT: '0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9',
+        WETH: '0x82af49447d8a07e3bd95bd0d56f35241523fbab1'
+    }
+};
+
+// Native currency symbols that should never be added as an ERC-20 watch asset
+export const NATIVE_SYMBOLS = ['ETH', 'BNB', 'POL', 'MATIC', 'AVAX', 'XDAI'];
+
+export function getKnownChain(chainId: number): KnownChain | undefined {
+    return KNOWN_CHAINS[chainId];
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { zeroAddress } from 'viem';
+import { DelegationRules } from './delegationRules';
+import { DecodedAuthorization } from './types';
+
+const AUTHORITY = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const DELEGATE = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const EMPTY = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const DELEGATED_EOA = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+
+// Account code served by the in-process node, keyed by lowercase address
+const code: Record<string, string> = {
+    [DELEGATE.toLowerCase()]: '0x6080604052348015600f57600080fd5b50',
+    [DELEGATED_EOA.toLowerCase()]: `0xef0100${DELEGATE.slice(2)}`
+};
+let server: Server;
+
+const authorization = (address: string, chainId: number): DecodedAuthorization => ({ address, chainId, nonce: 0, authority: AUTHORITY });
+
+async function ruleIds(...authorizationList: DecodedAuthorization[]): Promise<string[]> {
+    const evaluation = await DelegationRules.evaluate({ chainId: 1, from: AUTHORITY, authorizationList });
+    return evaluation.findings.map((finding) => finding.ruleId);
+}
+
+describe('DelegationRules.evaluate', () => {
+    before(async () => {
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                const { id, params } = JSON.parse(body);
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({ jsonrpc: '2.0', id, result: code[String(params[0]).toLowerCase()] ?? '0x' }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        mock.method(console, 'warn', () => undefined);
+        process.env.RPC_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        process.env.ABI_CACHE_DIR = '';
+        delete process.env.ETHERSCAN_API_KEY;
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.RPC_URL;
+        delete process.env.ABI_CACHE_DIR;
+    });
+
+    it('flags every delegation to a contract', async () => {
+        const evaluation = await DelegationRules.evaluate({ chainId: 1, from: AUTHORITY, authorizationList: [authorization(DELEGATE, 1)] });
+
+        assert.deepEqual(evaluation.findings.map((finding) => finding.ruleId), ['EIP7702_DELEGATION']);
+        assert.equal(evaluation.findings[0].spender, DELEGATE);
+        // Below the default block threshold, so a verified delegation warns instead of blocking
+        assert.equal(evaluation.minimumFraudScore, 60);
+    });
+
+    it('flags replayable and other-chain authorizations', async () => {
+        const mismatch = await DelegationRules.evaluate({ chainId: 1, from: AUTHORITY, authorizationList: [authorization(DELEGATE, 10)] });
+
+        assert.deepEqual(await ruleIds(authorization(DELEGATE, 0)), ['EIP7702_DELEGATION', 'EIP7702_ANY_CHAIN']);
+        assert.deepEqual(mismatch.findings.map((finding) => [finding.ruleId, finding.severity]), [['EIP7702_DELEGATION', 'high'], ['EIP7702_CHAIN_MISMATCH', 'high']]);
+        assert.equal(mismatch.minimumFraudScore, 75);
+    });
+
+    it('flags delegates without code and delegated EOAs', async () => {
+        assert.deepEqual(await ruleIds(authorization(EMPTY, 1)), ['EIP7702_DELEGATION', 'EIP7702_DELEGATE_WITHOUT_CODE']);
+        assert.deepEqual(await ruleIds(authorization(DELEGATED_EOA, 1)), ['EIP7702_DELEGATION', 'EIP7702_DELEGATE_WITHOUT_CODE']);
+    });
+
+    it('reports a delegation removal as low risk', async () => {
+        const evaluation = await DelegationRules.evaluate({ chainId: 1, from: AUTHORITY, authorizationList: [authorization(zeroAddress, 1)] });
+
+        assert.deepEqual(evaluation.findings.map((finding) => finding.ruleId), ['EIP7702_DELEGATION_CLEARED']);
+        assert.equal(evaluation.minimumFraudScore, 0);
+        assert.equal(DelegationRules.describe([authorization(zeroAddress, 1)]), 'EIP-7702 delegation removal');
+        assert.equal(DelegationRules.describe([authorization(DELEGATE, 1), authorization(DELEGATE, 0)]), `EIP-7702 code delegation to ${DELEGATE}`);
+    });
+});
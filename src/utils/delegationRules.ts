@@ -0,0 +1,118 @@
+import { zeroAddress } from 'viem';
+import { fetchAccountCode, fetchContractAbiWithFallback } from './abi';
+import { RuleEvaluation } from './approvalRules';
+import { DecodedAuthorization, DecodedTransaction, RuleFinding } from './types';
+
+// Code of an EOA that is itself delegated: 0xef0100 followed by the delegate address
+const DELEGATION_DESIGNATOR = '0xef0100';
+
+export class DelegationRules {
+    /**
+     * Evaluates every EIP-7702 authorization of a transaction. Once included, the authority's EOA runs
+     * the delegate's code on every call, so each delegation is a high-severity finding on its own. Its floor
+     * stays below the block threshold (70) for verified delegates; replayable or mismatched authorizations
+     * and delegates without verified code raise it above.
+     */
+    static async evaluate(transaction: Pick<DecodedTransaction, 'chainId' | 'from' | 'authorizationList'>): Promise<RuleEvaluation> {
+        const findings: RuleFinding[] = [];
+        for (const authorization of transaction.authorizationList ?? []) {
+            findings.push(...await this.evaluateAuthorization(transaction.chainId, authorization, transaction.from ?? undefined));
+        }
+
+        return {
+            findings,
+            minimumFraudScore: findings.reduce((max, f) => Math.max(max, f.minimumFraudScore), 0)
+        };
+    }
+
+    /**
+     * Short description of what the authorizations do, for results without an AI description
+     */
+    static describe(authorizations: DecodedAuthorization[]): string {
+        const delegates = authorizations.filter((a) => a.address.toLowerCase() !== zeroAddress).map((a) => a.address);
+        if (delegates.length === 0) {
+            return 'EIP-7702 delegation removal';
+        }
+        return `EIP-7702 code delegation to ${Array.from(new Set(delegates)).join(', ')}`;
+    }
+
+    private static async evaluateAuthorization(chainId: number, authorization: DecodedAuthorization, sender?: string): Promise<RuleFinding[]> {
+        const { address, nonce } = authorization;
+        const account = authorization.authority ?? sender ?? 'the signing account';
+
+        if (address.toLowerCase() === zeroAddress) {
+            return [{
+                ruleId: 'EIP7702_DELEGATION_CLEARED',
+                severity: 'low',
+                message: `Authorization clears the code delegation of ${account}, making it a plain EOA again`,
+                minimumFraudScore: 0
+            }];
+        }
+
+        const findings: RuleFinding[] = [{
+            ruleId: 'EIP7702_DELEGATION',
+            severity: 'high',
+            message: `Authorization (nonce ${nonce}) makes ${account} run the code of ${address}; that code can move everything the account holds`,
+            minimumFraudScore: 60,
+            spender: address
+        }];
+
+        if (authorization.chainId === 0) {
+            findings.push({
+                ruleId: 'EIP7702_ANY_CHAIN',
+                severity: 'high',
+                message: `Authorization for ${address} has chainId 0 and can be replayed on every chain where ${account} has nonce ${nonce}`,
+                minimumFraudScore: 80,
+                spender: address
+            });
+        } else if (authorization.chainId !== chainId) {
+            findings.push({
+                ruleId: 'EIP7702_CHAIN_MISMATCH',
+                severity: 'high',
+                message: `Authorization for ${address} is for chain ${authorization.chainId}, not chain ${chainId}; it is skipped here but stays valid there`,
+                minimumFraudScore: 75,
+                spender: address
+            });
+        }
+
+        // The delegate is checked on the chain the authorization applies to (this one, for chainId 0)
+        findings.push(...await this.checkDelegate(authorization.chainId || chainId, address));
+        return findings;
+    }
+
+    /**
+     * Flags delegates that have no code (whoever deploys there later controls the account) or unverified code
+     */
+    private static async checkDelegate(chainId: number, delegate: string): Promise<RuleFinding[]> {
+        const code = await fetchAccountCode(chainId, delegate);
+
+        if (code === null) {
+            return [];
+        }
+
+        if (code === '0x' || code.startsWith(DELEGATION_DESIGNATOR)) {
+            return [{
+                ruleId: 'EIP7702_DELEGATE_WITHOUT_CODE',
+                severity: 'high',
+                message: code === '0x'
+                    ? `Delegate ${delegate} has no code on chain ${chainId}; whoever deploys code there controls the account`
+                    : `Delegate ${delegate} is itself a delegated EOA; delegations are not followed, so the account would run no code`,
+                minimumFraudScore: 85,
+                spender: delegate
+            }];
+        }
+
+        const abiResult = await fetchContractAbiWithFallback(chainId, delegate);
+        if (!abiResult.abi && abiResult.error?.includes('not verified')) {
+            return [{
+                ruleId: 'EIP7702_UNVERIFIED_DELEGATE',
+                severity: 'high',
+                message: `Delegate ${delegate} is an unverified contract`,
+                minimumFraudScore: 85,
+                spender: delegate
+            }];
+        }
+
+        return [];
+    }
+}
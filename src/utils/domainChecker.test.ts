@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { DomainChecker } from './domainChecker';
+
+const techniqueOf = (url: string) => DomainChecker.check(url).matches[0]?.technique;
+
+describe('DomainChecker.check', () => {
+    // The legitimate list is built once, on first use
+    before(() => {
+        process.env.LEGIT_DOMAINS = 'myprotocol.xyz';
+    });
+
+    it('accepts legitimate domains and their subdomains', () => {
+        for (const url of ['https://uniswap.org', 'https://app.uniswap.org/swap', 'opensea.io', 'https://MyProtocol.xyz', 'https://app.aave.app', 'https://curve.finance']) {
+            const result = DomainChecker.check(url);
+            assert.equal(result.isLegitimate, true, url);
+            assert.deepEqual(result.warnings, [], url);
+        }
+    });
+
+    it('catches homographs written in Cyrillic or with lookalike sequences', () => {
+        // Browsers send the punycode form of the Cyrillic 'а'
+        const punycode = DomainChecker.check(`https://${new URL('https://uniswаp.org').hostname}`);
+
+        assert.equal(punycode.unicodeHostname, 'uniswаp.org');
+        assert.equal(punycode.isPunycode, true);
+        assert.equal(punycode.matches[0].technique, 'homoglyph');
+        assert.equal(punycode.riskScore, 95);
+        assert.ok(punycode.warnings.some((w) => w.includes('internationalized characters')));
+        assert.equal(techniqueOf('https://rnetamask.io'), 'homoglyph');
+        assert.equal(techniqueOf('https://myprotoco1.xyz'), 'homoglyph');
+    });
+
+    it('tells keyboard typos from other misspellings', () => {
+        const typo = DomainChecker.check('https://unisqap.org');
+
+        assert.equal(typo.matches[0].technique, 'keyboard_adjacency');
+        assert.equal(typo.matches[0].legitimateDomain, 'uniswap.org');
+        assert.equal(typo.matches[0].distance, 1);
+        assert.equal(techniqueOf('https://opensae.io'), 'edit_distance');
+    });
+
+    it('keeps similarity-only matches below the high-risk threshold', () => {
+        assert.equal(DomainChecker.check('https://opensae.io').riskScore, 60);
+        assert.equal(DomainChecker.check('https://uniswap.co.uk').riskScore, 55);
+        // A misspelling on another ending is an ordinary word, not a lookalike
+        assert.deepEqual(DomainChecker.check('https://balance.com').matches, []);
+    });
+
+    it('catches the brand placed in a subdomain or the name', () => {
+        const subdomain = DomainChecker.check('https://uniswap.org.claim-rewards.xyz');
+
+        assert.equal(subdomain.registrableDomain, 'claim-rewards.xyz');
+        assert.equal(subdomain.matches[0].technique, 'subdomain');
+        assert.equal(subdomain.riskScore, 90);
+        assert.equal(techniqueOf('https://metamask-support.com'), 'brand_in_domain');
+        assert.equal(techniqueOf('https://uniswap.app.evil.xyz'), 'brand_in_domain');
+    });
+
+    it('compares names across endings, including hosting platforms', () => {
+        const hosted = DomainChecker.check('https://opensea.github.io');
+
+        assert.equal(hosted.registrableDomain, 'opensea.github.io');
+        assert.equal(hosted.matches[0].technique, 'lookalike_tld');
+        assert.equal(techniqueOf('https://uniswap.co.uk'), 'lookalike_tld');
+    });
+
+    it('leaves unrelated domains alone', () => {
+        for (const url of ['https://example.com', 'https://news.ycombinator.com', 'https://safety.gov']) {
+            assert.deepEqual(DomainChecker.check(url).matches, [], url);
+        }
+    });
+});
@@ -0,0 +1,325 @@
+import fs from 'fs';
+import { domainToUnicode } from 'url';
+import { DomainCheckResult, DomainMatch } from './types';
+
+// Registrable domains of dApps users are commonly phished for; extend with LEGIT_DOMAINS / LEGIT_DOMAINS_PATH
+const DEFAULT_LEGITIMATE_DOMAINS = [
+    'uniswap.org',
+    'opensea.io',
+    'metamask.io',
+    'aave.com',
+    'aave.app',
+    'curve.fi',
+    'curve.finance',
+    'lido.fi',
+    'lido.finance',
+    'compound.finance',
+    '1inch.io',
+    'sushi.com',
+    'pancakeswap.finance',
+    'blur.io',
+    'etherscan.io',
+    'coinbase.com',
+    'binance.com',
+    'walletconnect.com',
+    'safe.global',
+    'safe.com',
+    'ens.domains',
+    'arbitrum.io',
+    'optimism.io',
+    'polygon.technology',
+    'balancer.fi',
+    'makerdao.com',
+    'rarible.com',
+    'magiceden.io',
+    'zapper.xyz',
+    'debank.com',
+    'revoke.cash',
+    'eigenlayer.xyz',
+    'pendle.finance',
+    'rabby.io',
+    'phantom.app',
+    'ledger.com',
+    'ledger.fr',
+    'trezor.io'
+];
+
+// Multi-label public suffixes and hosting platforms (private suffixes in the Public Suffix List)
+// where the label before the suffix is the registrant's name
+const MULTI_LABEL_SUFFIXES = new Set([
+    'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'me.uk',
+    'com.au', 'net.au', 'org.au',
+    'co.jp', 'ne.jp', 'or.jp',
+    'com.br', 'com.cn', 'com.tr', 'com.mx', 'com.ar', 'com.sg', 'com.hk', 'com.tw', 'com.ua', 'com.ng',
+    'co.kr', 'co.in', 'co.nz', 'co.za', 'co.id',
+    'eth.limo', 'eth.link',
+    'github.io', 'gitbook.io', 'vercel.app', 'netlify.app', 'pages.dev', 'workers.dev', 'web.app',
+    'firebaseapp.com', 'herokuapp.com', 'onrender.com', 'glitch.me', 'replit.app', 'webflow.io', 'framer.website'
+]);
+
+// Characters that render like Latin letters: Cyrillic, Greek, Latin lookalikes and digit swaps
+const CONFUSABLES: Record<string, string> = {
+    'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'х': 'x', 'у': 'y', 'і': 'i', 'ј': 'j', 'ӏ': 'l',
+    'ԁ': 'd', 'ɡ': 'g', 'ո': 'n', 'ս': 'u', 'ѕ': 's', 'ԛ': 'q', 'ԝ': 'w', 'һ': 'h', 'к': 'k', 'м': 'm',
+    'т': 't', 'в': 'b', 'н': 'h',
+    'α': 'a', 'ο': 'o', 'ν': 'v', 'ι': 'i', 'κ': 'k', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x', 'ε': 'e',
+    'ı': 'i', 'ł': 'l', 'ɩ': 'i', 'ǀ': 'l', 'ß': 'b',
+    '0': 'o', '1': 'l', '3': 'e', '5': 's', '7': 't'
+};
+// Multi-character sequences that read as a single letter
+const CONFUSABLE_SEQUENCES: Array<[RegExp, string]> = [[/rn/g, 'm'], [/vv/g, 'w'], [/cl/g, 'd']];
+
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+// Scores per technique, from most to least certain. Plain misspellings and other endings are often
+// unrelated sites or the project's own domains, so they stay below the high-risk threshold
+const TECHNIQUE_SCORES: Record<DomainMatch['technique'], number> = {
+    homoglyph: 95,
+    subdomain: 90,
+    keyboard_adjacency: 85,
+    brand_in_domain: 65,
+    edit_distance: 60,
+    lookalike_tld: 55
+};
+
+interface LegitimateDomain {
+    domain: string;
+    name: string;
+    suffix: string;
+}
+
+export class DomainChecker {
+    private static legitimate: LegitimateDomain[] | null = null;
+
+    /**
+     * Legitimate domains: the defaults, LEGIT_DOMAINS (comma-separated) and LEGIT_DOMAINS_PATH (JSON array or one per line)
+     */
+    private static getLegitimateDomains(): LegitimateDomain[] {
+        if (this.legitimate) {
+            return this.legitimate;
+        }
+
+        const domains = new Set(DEFAULT_LEGITIMATE_DOMAINS);
+        (process.env.LEGIT_DOMAINS ?? '').split(',').map((d) => d.trim().toLowerCase()).filter(Boolean).forEach((d) => domains.add(d));
+
+        const listPath = process.env.LEGIT_DOMAINS_PATH;
+        if (listPath) {
+            try {
+                const content = fs.readFileSync(listPath, 'utf8').trim();
+                const entries: string[] = content.startsWith('[') ? JSON.parse(content) : content.split(/\r?\n/);
+                entries.map((d) => d.trim().toLowerCase()).filter((d) => d && !d.startsWith('#')).forEach((d) => domains.add(d));
+            } catch (error) {
+                console.warn(`Could not load legitimate domains from ${listPath}:`, error);
+            }
+        }
+
+        this.legitimate = Array.from(domains).map((domain) => {
+            const { name, suffix } = this.splitRegistrable(domain.split('.'));
+            return { domain: `${name}.${suffix}`, name, suffix };
+        });
+        return this.legitimate;
+    }
+
+    /**
+     * Compares a URL's registrable domain against the legitimate dApp domains
+     */
+    static check(url: string): DomainCheckResult {
+        const hostname = this.extractHostname(url);
+        const unicodeHostname = domainToUnicode(hostname) || hostname;
+        const labels = unicodeHostname.split('.').filter(Boolean);
+        const { name, suffix, subdomains } = this.splitRegistrable(labels);
+        const registrableDomain = suffix ? `${name}.${suffix}` : name;
+        const isPunycode = hostname.split('.').some((label) => label.startsWith('xn--'));
+
+        const result: DomainCheckResult = {
+            hostname,
+            unicodeHostname,
+            registrableDomain,
+            isPunycode,
+            isLegitimate: false,
+            matches: [],
+            warnings: [],
+            riskScore: 0
+        };
+
+        const legitimate = this.getLegitimateDomains();
+        if (legitimate.some((l) => l.domain === registrableDomain)) {
+            result.isLegitimate = true;
+            return result;
+        }
+
+        const matches: DomainMatch[] = [];
+        for (const legit of legitimate) {
+            const match = this.compare(name, suffix, subdomains, legit);
+            if (match) {
+                matches.push(match);
+            }
+        }
+
+        if (isPunycode && /[^\x00-\x7f]/.test(unicodeHostname)) {
+            result.warnings.push(`Domain uses internationalized characters: ${hostname} displays as ${unicodeHostname}`);
+            result.riskScore = 40;
+        }
+
+        matches.sort((a, b) => TECHNIQUE_SCORES[b.technique] - TECHNIQUE_SCORES[a.technique]);
+        result.matches = matches;
+        for (const match of matches) {
+            result.warnings.push(this.describe(match, registrableDomain));
+        }
+        if (matches.length > 0) {
+            result.riskScore = Math.max(result.riskScore, TECHNIQUE_SCORES[matches[0].technique]);
+        }
+
+        return result;
+    }
+
+    private static compare(name: string, suffix: string, subdomains: string[], legit: LegitimateDomain): DomainMatch | null {
+        const base = { brand: legit.name, legitimateDomain: legit.domain };
+
+        if (name === legit.name && suffix !== legit.suffix) {
+            return { ...base, technique: 'lookalike_tld' };
+        }
+
+        if (name !== legit.name && this.skeleton(name) === this.skeleton(legit.name)) {
+            return { ...base, technique: 'homoglyph' };
+        }
+
+        const distance = this.editDistance(name, legit.name);
+        const maxDistance = legit.name.length >= 9 ? 2 : legit.name.length >= 5 ? 1 : 0;
+        if (distance > 0 && distance <= maxDistance) {
+            if (this.isKeyboardTypo(name, legit.name)) {
+                return { ...base, technique: 'keyboard_adjacency', distance };
+            }
+            // A misspelling on another ending is usually an ordinary word (balance.com, not balancer.fi)
+            if (suffix === legit.suffix) {
+                return { ...base, technique: 'edit_distance', distance };
+            }
+        }
+
+        // app-uniswap-org.evil.xyz, opensea.io.claim.xyz
+        const subdomainText = subdomains.join('.');
+        if (subdomainText.includes(legit.domain) || subdomainText.includes(legit.domain.replace(/\./g, '-'))) {
+            return { ...base, technique: 'subdomain' };
+        }
+        // uniswap.app.evil.xyz; a brand label alone is also how real sites name subdomains (coinbase.wallet.com)
+        if (subdomains.includes(legit.name)) {
+            return { ...base, technique: 'brand_in_domain' };
+        }
+
+        // uniswap-airdrop.com, claimopensea.io; short brands only as a whole hyphen-separated word
+        const brand = this.skeleton(legit.name);
+        const containsBrand = legit.name.length >= 6
+            ? this.skeleton(name).includes(brand)
+            : legit.name.length >= 4 && name.split('-').some((word) => this.skeleton(word) === brand);
+        if (name !== legit.name && containsBrand) {
+            return { ...base, technique: 'brand_in_domain' };
+        }
+
+        return null;
+    }
+
+    private static describe(match: DomainMatch, registrableDomain: string): string {
+        switch (match.technique) {
+            case 'homoglyph':
+                return `${registrableDomain} uses lookalike characters to impersonate ${match.legitimateDomain}`;
+            case 'subdomain':
+                return `Subdomain trick: the site is on ${registrableDomain}, not ${match.legitimateDomain}`;
+            case 'keyboard_adjacency':
+                return `${registrableDomain} is a keyboard typo of ${match.legitimateDomain}`;
+            case 'edit_distance':
+                return `${registrableDomain} is a misspelling of ${match.legitimateDomain}`;
+            case 'lookalike_tld':
+                return `${registrableDomain} imitates ${match.legitimateDomain} on a different domain ending`;
+            case 'brand_in_domain':
+                return `${registrableDomain} uses the ${match.brand} brand but is not ${match.legitimateDomain}`;
+        }
+    }
+
+    /**
+     * Splits labels into subdomains, the registrant's name and the public suffix
+     */
+    private static splitRegistrable(labels: string[]): { name: string; suffix: string; subdomains: string[] } {
+        if (labels.length < 2) {
+            return { name: labels[0] ?? '', suffix: '', subdomains: [] };
+        }
+        const lastTwo = labels.slice(-2).join('.');
+        const suffixLength = labels.length >= 3 && MULTI_LABEL_SUFFIXES.has(lastTwo) ? 2 : 1;
+        const nameIndex = labels.length - suffixLength - 1;
+        return {
+            name: labels[nameIndex],
+            suffix: labels.slice(nameIndex + 1).join('.'),
+            subdomains: labels.slice(0, nameIndex)
+        };
+    }
+
+    /**
+     * Maps confusable characters to the Latin letters they imitate and drops separators
+     */
+    private static skeleton(label: string): string {
+        let result = Array.from(label.normalize('NFKC').toLowerCase())
+            .map((char) => CONFUSABLES[char] ?? char)
+            .join('')
+            .normalize('NFD')
+            .replace(/[̀-ͯ]/g, '')
+            .replace(/-/g, '');
+        for (const [pattern, replacement] of CONFUSABLE_SEQUENCES) {
+            result = result.replace(pattern, replacement);
+        }
+        return result;
+    }
+
+    /**
+     * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+     */
+    private static editDistance(a: string, b: string): number {
+        const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+        for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+        for (let i = 1; i <= a.length; i++) {
+            for (let j = 1; j <= b.length; j++) {
+                const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+                d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+                if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                    d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+                }
+            }
+        }
+        return d[a.length][b.length];
+    }
+
+    /**
+     * True when the strings differ by one substitution, or one insertion, of a key next to the intended one
+     */
+    private static isKeyboardTypo(typed: string, intended: string): boolean {
+        if (typed.length === intended.length) {
+            const diffs = Array.from(typed).map((c, i) => [c, intended[i]]).filter(([a, b]) => a !== b);
+            return diffs.length === 1 && this.areAdjacentKeys(diffs[0][0], diffs[0][1]);
+        }
+        if (typed.length === intended.length + 1) {
+            for (let i = 0; i < typed.length; i++) {
+                if (typed.slice(0, i) + typed.slice(i + 1) === intended) {
+                    return [typed[i - 1], typed[i + 1]].some((neighbour) => neighbour && this.areAdjacentKeys(typed[i], neighbour));
+                }
+            }
+        }
+        return false;
+    }
+
+    private static areAdjacentKeys(a: string, b: string): boolean {
+        const position = (key: string) => {
+            const row = KEYBOARD_ROWS.findIndex((r) => r.includes(key));
+            return row === -1 ? null : { row, col: KEYBOARD_ROWS[row].indexOf(key) };
+        };
+        const pa = position(a);
+        const pb = position(b);
+        return !!pa && !!pb && a !== b && Math.abs(pa.row - pb.row) <= 1 && Math.abs(pa.col - pb.col) <= 1;
+    }
+
+    private static extractHostname(url: string): string {
+        try {
+            return new URL(url.includes('://') ? url : `https://${url}`).hostname.toLowerCase().replace(/\.$/, '');
+        } catch {
+            return url.toLowerCase();
+        }
+    }
+}
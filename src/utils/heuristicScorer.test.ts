@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { DomainChecker } from './domainChecker';
+import { HeuristicScorer } from './heuristicScorer';
+import { DecodedTxWithAbi, RuleFinding } from './types';
+
+const TARGET = '0x1111111111111111111111111111111111111111';
+
+function contractCall(options: { abiAvailable?: boolean; value?: string; method?: string; ruleFindings?: RuleFinding[] } = {}): DecodedTxWithAbi {
+    return {
+        success: true,
+        transaction: {
+            hash: '',
+            to: TARGET,
+            value: options.value ?? '0',
+            gas: '100000',
+            nonce: 0,
+            data: '0xa9059cbb',
+            type: 'eip1559',
+            chainId: 1,
+            decodedData: { method: options.method ?? 'transfer', params: [] },
+            isContractCreation: false,
+            isContractInteraction: true,
+            transactionType: 'contract_interaction'
+        },
+        analysis: {
+            type: 'contract_interaction',
+            description: 'Contract interaction',
+            contractInfo: { address: TARGET, abiAvailable: options.abiAvailable ?? true, abiSource: 'etherscan' }
+        },
+        abi: '',
+        sourceCode: '',
+        ruleFindings: options.ruleFindings,
+        timestamp: new Date(0).toISOString()
+    };
+}
+
+describe('HeuristicScorer', () => {
+    afterEach(() => {
+        delete process.env.AI_FAILURE_MODE;
+        delete process.env.AI_FAILURE_MODE_WEBSITE;
+    });
+
+    it('scores a verified call with a known selector as low risk', () => {
+        const score = HeuristicScorer.scoreTransaction(contractCall());
+
+        assert.equal(score.fraudScore, 5);
+        assert.equal(score.riskLevel, 'low');
+    });
+
+    it('combines independent signals with noisy-OR', () => {
+        const score = HeuristicScorer.scoreTransaction(contractCall({ abiAvailable: false, method: 'unknown_0xdeadbeef', value: '20000000000000000000' }));
+
+        // 1 - 0.95 * 0.75 * 0.8 * 0.8
+        assert.equal(score.fraudScore, 54);
+        assert.equal(score.riskLevel, 'medium');
+        assert.deepEqual(score.signals.slice(1), ['Target contract is not verified', 'Function selector is unknown', 'Sends 20 ETH']);
+    });
+
+    it('counts rule findings by their minimum score and stays below 100', () => {
+        const finding: RuleFinding = { ruleId: 'KNOWN_MALICIOUS_ADDRESS', severity: 'high', message: 'Known drainer', minimumFraudScore: 100 };
+
+        const score = HeuristicScorer.scoreTransaction(contractCall({ ruleFindings: [finding] }));
+
+        assert.equal(score.fraudScore, 95);
+        assert.equal(score.riskLevel, 'high');
+    });
+
+    it('scores websites from the domain check', () => {
+        assert.equal(HeuristicScorer.scoreWebsite(DomainChecker.check('https://app.uniswap.org')).fraudScore, 2);
+        assert.equal(HeuristicScorer.scoreWebsite(DomainChecker.check('https://example.org')).fraudScore, 15);
+        assert.equal(HeuristicScorer.scoreWebsite(DomainChecker.check('https://opensea.io.claim.xyz')).riskLevel, 'high');
+    });
+
+    it('reads the failure mode per route, then globally', () => {
+        assert.equal(HeuristicScorer.getFailureMode('website'), 'heuristic');
+
+        process.env.AI_FAILURE_MODE = 'fail-open';
+        process.env.AI_FAILURE_MODE_WEBSITE = 'fail-closed';
+        assert.equal(HeuristicScorer.getFailureMode('website'), 'fail-closed');
+        assert.equal(HeuristicScorer.getFailureMode('transaction'), 'fail-open');
+
+        process.env.AI_FAILURE_MODE = 'sometimes';
+        assert.equal(HeuristicScorer.getFailureMode('transaction'), 'heuristic');
+    });
+});
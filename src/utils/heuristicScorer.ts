@@ -0,0 +1,132 @@
+import { TransactionDecoder } from './txDecoder';
+import { DecodedMessage, DecodedTxWithAbi, DecodedTypedDataWithAbi, DomainCheckResult } from './types';
+
+/**
+ * What a route returns when the AI call fails:
+ * - heuristic: a deterministic score from the signals below
+ * - fail-open: low risk, so an outage does not block users (deterministic rule floors still apply)
+ * - fail-closed: high risk / fraudScore 100
+ */
+export type AIFailureMode = 'heuristic' | 'fail-open' | 'fail-closed';
+
+export type AIFailureRoute = 'transaction' | 'typed_data' | 'message' | 'website';
+
+export interface HeuristicScore {
+    fraudScore: number; // 0-100
+    riskLevel: 'low' | 'medium' | 'high';
+    signals: string[]; // the signals that contributed, for the reasoning
+}
+
+interface Signal {
+    probability: number; // 0-1, how likely the signal alone means fraud
+    reason: string;
+}
+
+const FAILURE_MODES: AIFailureMode[] = ['heuristic', 'fail-open', 'fail-closed'];
+
+/**
+ * Deterministic fallback scoring. Signals are combined as independent evidence (noisy-OR),
+ * so two medium signals score higher than either alone but never reach 100 on their own.
+ */
+export class HeuristicScorer {
+    /**
+     * AI_FAILURE_MODE_<ROUTE> (e.g. AI_FAILURE_MODE_WEBSITE), then AI_FAILURE_MODE, defaulting to heuristic
+     */
+    static getFailureMode(route: AIFailureRoute): AIFailureMode {
+        const configured = process.env[`AI_FAILURE_MODE_${route.toUpperCase()}`] || process.env.AI_FAILURE_MODE;
+        return FAILURE_MODES.includes(configured as AIFailureMode) ? configured as AIFailureMode : 'heuristic';
+    }
+
+    static scoreTransaction(decodedTxWithAbi: DecodedTxWithAbi): HeuristicScore {
+        const { transaction, analysis, ruleFindings } = decodedTxWithAbi;
+        const signals: Signal[] = [{ probability: 0.05, reason: 'Baseline for contract interactions' }];
+
+        const contractInfo = analysis.contractInfo;
+        if (contractInfo && !contractInfo.abiAvailable) {
+            signals.push({ probability: 0.25, reason: 'Target contract is not verified' });
+        }
+        if (contractInfo?.recentlyUpgraded) {
+            signals.push({ probability: 0.2, reason: 'Proxy implementation was upgraded recently' });
+        }
+
+        const method = transaction.decodedData?.method;
+        if (transaction.data && transaction.data !== '0x' && (!method || method.startsWith('unknown_'))) {
+            signals.push({ probability: 0.2, reason: 'Function selector is unknown' });
+        } else if (transaction.decodedData?.collision) {
+            signals.push({ probability: 0.3, reason: 'Function selector collides with other signatures' });
+        }
+
+        const ethValue = parseFloat(TransactionDecoder.formatValue(transaction.value || '0'));
+        if (ethValue > 10) {
+            signals.push({ probability: 0.2, reason: `Sends ${ethValue} ETH` });
+        } else if (ethValue > 1) {
+            signals.push({ probability: 0.1, reason: `Sends ${ethValue} ETH` });
+        }
+
+        // Approval rules, reputation hits, poisoning and bytecode findings
+        for (const finding of ruleFindings ?? []) {
+            signals.push({ probability: finding.minimumFraudScore / 100, reason: finding.message });
+        }
+
+        return this.combine(signals);
+    }
+
+    static scoreTypedData(decodedTypedData: DecodedTypedDataWithAbi): HeuristicScore {
+        const signals: Signal[] = [{ probability: 0.1, reason: 'Baseline for off-chain signatures' }];
+
+        if (decodedTypedData.typedData.permits.length > 0) {
+            signals.push({ probability: 0.3, reason: 'Signature grants a token permit' });
+        }
+        if (decodedTypedData.contractInfo && !decodedTypedData.contractInfo.abiAvailable) {
+            signals.push({ probability: 0.2, reason: 'Verifying contract is not verified' });
+        }
+        for (const warning of decodedTypedData.warnings) {
+            signals.push({ probability: 0.3, reason: warning });
+        }
+
+        return this.combine(signals);
+    }
+
+    static scoreMessage(message: DecodedMessage, warnings: string[]): HeuristicScore {
+        const signals: Signal[] = [{ probability: 0.05, reason: 'Baseline for message signatures' }];
+
+        if (message.text === undefined) {
+            signals.push({ probability: 0.4, reason: 'Message is not readable text (blind signing)' });
+        }
+        if (message.method === 'eth_sign') {
+            signals.push({ probability: 0.3, reason: 'eth_sign can sign transaction hashes' });
+        }
+        for (const warning of warnings) {
+            signals.push({ probability: 0.3, reason: warning });
+        }
+
+        return this.combine(signals);
+    }
+
+    static scoreWebsite(domainCheck: DomainCheckResult): HeuristicScore {
+        const signals: Signal[] = domainCheck.isLegitimate
+            ? [{ probability: 0.02, reason: `${domainCheck.registrableDomain} is a known legitimate dApp domain` }]
+            : [{ probability: 0.15, reason: `${domainCheck.registrableDomain} is not a known dApp domain` }];
+
+        if (domainCheck.riskScore > 0) {
+            signals.push({ probability: domainCheck.riskScore / 100, reason: 'Domain resembles a known dApp domain' });
+        }
+        if (domainCheck.isPunycode && !domainCheck.isLegitimate) {
+            signals.push({ probability: 0.3, reason: 'Domain uses punycode' });
+        }
+
+        return this.combine(signals);
+    }
+
+    private static combine(signals: Signal[]): HeuristicScore {
+        const clean = signals.reduce((p, signal) => p * (1 - Math.min(1, Math.max(0, signal.probability))), 1);
+        // Capped below 100 so a heuristic verdict is distinguishable from a confirmed one
+        const fraudScore = Math.min(95, Math.round((1 - clean) * 100));
+
+        return {
+            fraudScore,
+            riskLevel: fraudScore >= 70 ? 'high' : fraudScore >= 40 ? 'medium' : 'low',
+            signals: signals.map((s) => s.reason)
+        };
+    }
+}
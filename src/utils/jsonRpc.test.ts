@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { JSON_RPC_ERRORS, JsonRpc, RpcOutcome } from './jsonRpc';
+
+const echo = async (request: Record<string, unknown>): Promise<RpcOutcome> => ({ status: 200, body: { method: request.method } });
+
+describe('JsonRpc', () => {
+    beforeEach(() => {
+        mock.method(console, 'error', () => undefined);
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.JSON_RPC_MAX_BATCH_SIZE;
+    });
+
+    it('tells JSON-RPC bodies from legacy ones', () => {
+        assert.equal(JsonRpc.isJsonRpc({ jsonrpc: '2.0', method: 'eth_sendTransaction' }), true);
+        assert.equal(JsonRpc.isJsonRpc([]), true);
+        assert.equal(JsonRpc.isJsonRpc({ method: 'eth_sendTransaction' }), false);
+    });
+
+    it('answers a single request with its result or error', async () => {
+        const blocked: RpcOutcome = { status: 403, body: {}, error: { code: JSON_RPC_ERRORS.BLOCKED_BY_POLICY, message: 'Blocked' } };
+
+        assert.deepEqual(await JsonRpc.handle({ jsonrpc: '2.0', id: 7, method: 'eth_chainId' }, echo), { jsonrpc: '2.0', id: 7, result: { method: 'eth_chainId' } });
+        assert.deepEqual(await JsonRpc.handle({ jsonrpc: '2.0', id: 'a', method: 'eth_sign' }, async () => blocked), { jsonrpc: '2.0', id: 'a', error: blocked.error });
+    });
+
+    it('answers a batch in request order, with errors for invalid and failing entries', async () => {
+        const responses = await JsonRpc.handle([
+            { jsonrpc: '2.0', id: 1, method: 'eth_chainId' },
+            'not a request',
+            { jsonrpc: '2.0', id: 3, method: 42 },
+            { jsonrpc: '2.0', id: 4, method: 'fail' }
+        ], async (request) => {
+            if (request.method === 'fail') {
+                throw new Error('boom');
+            }
+            return echo(request);
+        });
+
+        assert.deepEqual(responses, [
+            { jsonrpc: '2.0', id: 1, result: { method: 'eth_chainId' } },
+            { jsonrpc: '2.0', id: null, error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Invalid Request: expected a JSON-RPC request object' } },
+            { jsonrpc: '2.0', id: 3, error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Invalid Request: method must be a string' } },
+            { jsonrpc: '2.0', id: 4, error: { code: JSON_RPC_ERRORS.INTERNAL_ERROR, message: 'Internal error', data: 'boom' } }
+        ]);
+    });
+
+    it('handles notifications without answering them', async () => {
+        const handled: unknown[] = [];
+        const record = async (request: Record<string, unknown>) => {
+            handled.push(request.method);
+            return echo(request);
+        };
+
+        assert.equal(await JsonRpc.handle({ jsonrpc: '2.0', method: 'eth_chainId' }, record), undefined);
+        assert.equal(await JsonRpc.handle([{ jsonrpc: '2.0', method: 'eth_chainId' }], record), undefined);
+        assert.deepEqual(await JsonRpc.handle([{ jsonrpc: '2.0', method: 'eth_chainId' }, { jsonrpc: '2.0', id: null, method: 'eth_sign' }], record), [
+            { jsonrpc: '2.0', id: null, result: { method: 'eth_sign' } }
+        ]);
+        assert.deepEqual(handled, ['eth_chainId', 'eth_chainId', 'eth_chainId', 'eth_sign']);
+    });
+
+    it('rejects empty and oversized batches', async () => {
+        process.env.JSON_RPC_MAX_BATCH_SIZE = '2';
+
+        assert.deepEqual(await JsonRpc.handle([], echo), JsonRpc.error(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid Request: empty batch'));
+        assert.deepEqual(
+            await JsonRpc.handle([{ id: 1 }, { id: 2 }, { id: 3 }], echo),
+            JsonRpc.error(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid Request: batch of 3 exceeds the limit of 2')
+        );
+    });
+
+    it('keeps at most the given number of calls pending', async () => {
+        let pending = 0;
+        let maxPending = 0;
+
+        const results = await JsonRpc.mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+            maxPending = Math.max(maxPending, ++pending);
+            await new Promise((resolve) => setTimeout(resolve, 5 - n));
+            pending--;
+            return n * 2;
+        });
+
+        assert.deepEqual(results, [2, 4, 6, 8, 10]);
+        assert.equal(maxPending, 2);
+    });
+});
@@ -0,0 +1,133 @@
+export const JSON_RPC_ERRORS = {
+    PARSE_ERROR: -32700,
+    INVALID_REQUEST: -32600,
+    METHOD_NOT_FOUND: -32601,
+    INVALID_PARAMS: -32602,
+    INTERNAL_ERROR: -32603,
+    // Server-defined range (-32000 to -32099)
+    BLOCKED_BY_POLICY: -32001, // the verdict is over the configured block threshold, or an organization policy blocks the request
+    ANALYSIS_UNAVAILABLE: -32002 // the analysis could not run and the route fails closed
+} as const;
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcErrorObject {
+    code: number;
+    message: string;
+    data?: unknown;
+}
+
+export type JsonRpcResponse =
+    | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+    | { jsonrpc: '2.0'; id: JsonRpcId; error: JsonRpcErrorObject };
+
+/**
+ * Outcome of one request. `status` and `body` are the legacy (non-JSON-RPC) response;
+ * JSON-RPC clients get `body` as the result, or `error` when it is set.
+ */
+export interface RpcOutcome {
+    status: number;
+    body: Record<string, unknown>;
+    error?: JsonRpcErrorObject;
+}
+
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const DEFAULT_MAX_BATCH_SIZE = 50;
+
+export class JsonRpc {
+    /**
+     * Batches and requests that declare `jsonrpc: "2.0"` get JSON-RPC responses; other bodies keep the legacy format
+     */
+    static isJsonRpc(body: unknown): boolean {
+        return Array.isArray(body) || (typeof body === 'object' && body !== null && (body as { jsonrpc?: unknown }).jsonrpc === '2.0');
+    }
+
+    static response(id: JsonRpcId, outcome: RpcOutcome): JsonRpcResponse {
+        return outcome.error
+            ? { jsonrpc: '2.0', id, error: outcome.error }
+            : { jsonrpc: '2.0', id, result: outcome.body };
+    }
+
+    static error(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+        return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } };
+    }
+
+    /**
+     * Runs `handle` for a single request or every entry of a batch and wraps each outcome in a JSON-RPC response
+     */
+    static async handle(body: unknown, handle: (request: Record<string, unknown>) => Promise<RpcOutcome>): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+        return this.handleRequests(body, async (request, id) => this.response(id, await handle(request)));
+    }
+
+    /**
+     * Runs `handle` for a single request or every entry of a batch, at most JSON_RPC_BATCH_CONCURRENCY at a time.
+     * Responses keep the request order; entries that are not objects get -32600 and thrown errors -32603.
+     * Notifications (requests without an `id` member) are handled but not answered, so the result is undefined
+     * for a single notification or a batch of only notifications.
+     */
+    static async handleRequests(
+        body: unknown,
+        handle: (request: Record<string, unknown>, id: JsonRpcId) => Promise<JsonRpcResponse>
+    ): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+        const handleOne = async (request: unknown): Promise<JsonRpcResponse | undefined> => {
+            if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+                return this.error(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid Request: expected a JSON-RPC request object');
+            }
+            const id = this.idOf(request);
+            if ('method' in request && typeof (request as { method?: unknown }).method !== 'string') {
+                return this.error(id, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid Request: method must be a string');
+            }
+
+            const notification = !('id' in request);
+
+            try {
+                const response = await handle(request as Record<string, unknown>, id);
+                return notification ? undefined : response;
+            } catch (error) {
+                console.error('JSON-RPC request failed:', error);
+                return notification ? undefined : this.error(id, JSON_RPC_ERRORS.INTERNAL_ERROR, 'Internal error', error instanceof Error ? error.message : undefined);
+            }
+        };
+
+        if (!Array.isArray(body)) {
+            return handleOne(body);
+        }
+        if (body.length === 0) {
+            return this.error(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid Request: empty batch');
+        }
+        const maxSize = this.positiveInteger(process.env.JSON_RPC_MAX_BATCH_SIZE, DEFAULT_MAX_BATCH_SIZE);
+        if (body.length > maxSize) {
+            return this.error(null, JSON_RPC_ERRORS.INVALID_REQUEST, `Invalid Request: batch of ${body.length} exceeds the limit of ${maxSize}`);
+        }
+
+        const responses = await this.mapWithConcurrency(body, this.positiveInteger(process.env.JSON_RPC_BATCH_CONCURRENCY, DEFAULT_BATCH_CONCURRENCY), handleOne);
+        const answered = responses.filter((response): response is JsonRpcResponse => response !== undefined);
+        return answered.length > 0 ? answered : undefined;
+    }
+
+    /**
+     * Like Promise.all over `items`, with at most `limit` calls of `fn` pending at once
+     */
+    static async mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+        const results = new Array<R>(items.length);
+        let next = 0;
+        const worker = async () => {
+            while (next < items.length) {
+                const index = next++;
+                results[index] = await fn(items[index]);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+        return results;
+    }
+
+    private static idOf(request: object): JsonRpcId {
+        const id = (request as { id?: unknown }).id;
+        return typeof id === 'string' || typeof id === 'number' ? id : null;
+    }
+
+    private static positiveInteger(raw: string | undefined, fallback: number): number {
+        const value = Number(raw);
+        return Number.isInteger(value) && value > 0 ? value : fallback;
+    }
+}
@@ -0,0 +1,222 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { LlmProviders, LlmResponseError, LlmTool, LlmToolRequest, RISK_SCORE_CONSISTENCY } from './llmProvider';
+import { WebsiteAnalyzer } from './websiteAnalyzer';
+
+const ASSESSMENT_TOOL: LlmTool = {
+    name: 'report_assessment',
+    description: 'Report the assessment.',
+    parameters: {
+        type: 'object',
+        properties: {
+            riskLevel: { type: 'string', enum: ['low', 'medium', 'high'] },
+            fraudScore: { type: 'integer', minimum: 0, maximum: 100 },
+            description: { type: 'string' },
+            warnings: { type: 'array', items: { type: 'string' } },
+            isKnownPhishing: { type: 'boolean' }
+        },
+        required: ['riskLevel', 'fraudScore', 'description', 'warnings', 'isKnownPhishing'],
+        additionalProperties: false
+    }
+};
+
+const REQUEST: LlmToolRequest = {
+    system: 'You are a test.',
+    prompt: 'Assess this.',
+    tool: ASSESSMENT_TOOL,
+    consistency: RISK_SCORE_CONSISTENCY
+};
+
+function mockResponse(response: unknown): void {
+    process.env.LLM_MOCK_RESPONSE = JSON.stringify(response);
+}
+
+describe('LlmProviders.callTool with the mock provider', () => {
+    beforeEach(() => {
+        process.env.LLM_PROVIDER = 'mock';
+        delete process.env.LLM_MAX_RETRIES;
+        mock.method(console, 'warn', () => undefined);
+    });
+
+    afterEach(() => {
+        delete process.env.LLM_PROVIDER;
+        delete process.env.LLM_MOCK_RESPONSE;
+        delete process.env.LLM_MAX_RETRIES;
+        mock.restoreAll();
+    });
+
+    it('builds a valid answer from the schema', async () => {
+        const result = await LlmProviders.callTool<Record<string, unknown>>('transaction', REQUEST);
+
+        assert.equal(result.validationStatus, 'valid');
+        assert.equal(result.attempts, 1);
+        assert.deepEqual(result.args, {
+            riskLevel: 'low',
+            fraudScore: 0,
+            description: 'mock description',
+            warnings: [],
+            isKnownPhishing: false
+        });
+    });
+
+    it('accepts a consistent override on the first attempt', async () => {
+        mockResponse({ riskLevel: 'high', fraudScore: 90 });
+
+        const result = await LlmProviders.callTool<{ riskLevel: string; fraudScore: number }>('transaction', REQUEST);
+
+        assert.equal(result.validationStatus, 'valid');
+        assert.equal(result.args.fraudScore, 90);
+        assert.deepEqual(result.issues, []);
+    });
+
+    it('retries with the issues as feedback until the answer is valid', async () => {
+        mockResponse([{ riskLevel: 'high', fraudScore: 150 }, { riskLevel: 'high', fraudScore: 80 }]);
+        const provider = LlmProviders.get('transaction');
+        const callTool = mock.method(provider, 'callTool');
+        mock.method(LlmProviders, 'get', () => provider);
+
+        const result = await LlmProviders.callTool<{ fraudScore: number }>('transaction', REQUEST);
+
+        assert.equal(result.validationStatus, 'retried');
+        assert.equal(result.attempts, 2);
+        assert.equal(result.args.fraudScore, 80);
+        assert.deepEqual(result.issues, ['attempt 1: report_assessment.fraudScore must be between 0 and 100']);
+        const retryPrompt = (callTool.mock.calls[1].arguments[0] as LlmToolRequest).prompt;
+        assert.match(retryPrompt, /YOUR PREVIOUS RESPONSE WAS REJECTED/);
+        assert.match(retryPrompt, /fraudScore must be between 0 and 100/);
+    });
+
+    it('derives the risk level from the score when retries keep disagreeing', async () => {
+        process.env.LLM_MAX_RETRIES = '1';
+        mockResponse({ riskLevel: 'low', fraudScore: 85 });
+
+        const result = await LlmProviders.callTool<{ riskLevel: string; fraudScore: number }>('transaction', REQUEST);
+
+        assert.equal(result.validationStatus, 'repaired');
+        assert.equal(result.attempts, 2);
+        assert.equal(result.args.riskLevel, 'high');
+        assert.equal(result.issues.length, 2);
+    });
+
+    it('coerces and clamps near-miss values', async () => {
+        process.env.LLM_MAX_RETRIES = '0';
+        mockResponse({ riskLevel: 'HIGH', fraudScore: '101.6', warnings: 'single warning', isKnownPhishing: 'true', extra: 1 });
+
+        const result = await LlmProviders.callTool<Record<string, unknown>>('transaction', REQUEST);
+
+        assert.equal(result.validationStatus, 'repaired');
+        assert.deepEqual(result.args, {
+            riskLevel: 'high',
+            fraudScore: 100,
+            description: 'mock description',
+            warnings: ['single warning'],
+            isKnownPhishing: true
+        });
+    });
+
+    it('throws when the answer cannot be repaired', async () => {
+        process.env.LLM_MAX_RETRIES = '1';
+        mockResponse({ description: 42 });
+
+        await assert.rejects(
+            LlmProviders.callTool('transaction', REQUEST),
+            (error: unknown) => error instanceof LlmResponseError && error.issues.length === 2
+        );
+    });
+
+    it('rejects an unknown provider', () => {
+        process.env.LLM_PROVIDER = 'nope';
+
+        assert.throws(() => LlmProviders.get('website'), /Unknown LLM provider "nope"/);
+    });
+});
+
+describe('LlmProviders.validate', () => {
+    it('reports missing, mistyped and unexpected properties', () => {
+        const issues = LlmProviders.validate(ASSESSMENT_TOOL.parameters, {
+            riskLevel: 'severe',
+            fraudScore: 12.5,
+            warnings: [1],
+            isKnownPhishing: false,
+            extra: true
+        }, 'args');
+
+        assert.deepEqual(issues, [
+            'args.description is required',
+            'args.riskLevel must be one of low, medium, high',
+            'args.fraudScore must be an integer',
+            'args.warnings[0] must be a string',
+            'args.extra is not allowed'
+        ]);
+    });
+});
+
+describe('WebsiteAnalyzer with the mock provider', () => {
+    beforeEach(() => {
+        process.env.LLM_PROVIDER = 'mock';
+        process.env.LLM_MAX_RETRIES = '0';
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'warn', () => undefined);
+        mock.method(console, 'error', () => undefined);
+    });
+
+    afterEach(() => {
+        delete process.env.LLM_PROVIDER;
+        delete process.env.LLM_MOCK_RESPONSE;
+        delete process.env.LLM_MAX_RETRIES;
+        mock.restoreAll();
+    });
+
+    it('reports the AI verdict for an unknown domain', async () => {
+        mockResponse({ riskLevel: 'high', fraudScore: 95, aiConfidence: 80 });
+
+        const result = await WebsiteAnalyzer.analyzeWebsiteConnection({
+            url: 'https://claim-rewards.example',
+            origin: 'https://claim-rewards.example',
+            timestamp: 0,
+            walletType: 'metamask',
+            requestType: 'connect'
+        });
+
+        assert.equal(result.success, true);
+        assert.deepEqual(result.analysis.factors?.map((factor) => [factor.id, factor.score]), [['AI_VERDICT', 95], ['DOMAIN_UNKNOWN', 15]]);
+        assert.equal(result.analysis.aiConfidence, 80);
+        assert.equal(result.analysis.analysisMode, 'ai');
+        assert.equal(result.analysis.validationStatus, 'valid');
+    });
+
+    it('applies the domain check floor to a low verdict', async () => {
+        mockResponse({ riskLevel: 'low', fraudScore: 5 });
+
+        const result = await WebsiteAnalyzer.analyzeWebsiteConnection({
+            url: 'https://opensea.io.claim.xyz',
+            origin: 'https://opensea.io.claim.xyz',
+            timestamp: 0,
+            walletType: 'metamask',
+            requestType: 'connect'
+        });
+
+        assert.equal(result.analysis.fraudScore, 90);
+        assert.equal(result.analysis.riskLevel, 'high');
+        assert.ok(result.analysis.warnings.some((warning) => warning.includes('Subdomain trick')));
+    });
+
+    it('falls back to the heuristic score when the answer is invalid', async () => {
+        mockResponse({ fraudScore: 'high' });
+
+        const result = await WebsiteAnalyzer.analyzeWebsiteConnection({
+            url: 'https://opensea.io.claim.xyz',
+            origin: 'https://opensea.io.claim.xyz',
+            timestamp: 0,
+            walletType: 'metamask',
+            requestType: 'connect'
+        });
+
+        assert.equal(result.analysis.analysisMode, 'heuristic');
+        assert.ok(result.analysis.fraudScore >= result.analysis.domainCheck!.riskScore);
+        assert.equal(result.analysis.aiConfidence, 0);
+        assert.equal(result.analysis.validationStatus, 'invalid');
+        assert.match(result.error ?? '', /no valid report_website_assessment response/);
+        assert.ok(result.analysis.warnings.some((warning) => warning.includes('Subdomain trick')));
+    });
+});
@@ -0,0 +1,529 @@
+import OpenAI from 'openai';
+import { ValidationStatus } from './types';
+
+/**
+ * Subset of JSON Schema used for tool parameters; the same schema drives the request and the response validation
+ */
+export interface ToolParameterSchema {
+    type: 'object' | 'string' | 'integer' | 'number' | 'boolean' | 'array';
+    description?: string;
+    enum?: string[];
+    minimum?: number;
+    maximum?: number;
+    items?: ToolParameterSchema;
+    properties?: Record<string, ToolParameterSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+}
+
+export interface LlmTool {
+    name: string;
+    description: string;
+    parameters: ToolParameterSchema;
+}
+
+/**
+ * Semantic checks the schema cannot express (e.g. riskLevel agreeing with fraudScore), with a last-resort fix
+ */
+export interface LlmConsistencyRule<T = any> {
+    check(args: T): string[];
+    repair(args: T): T;
+}
+
+export interface LlmToolRequest {
+    system: string;
+    prompt: string;
+    tool: LlmTool;
+    consistency?: LlmConsistencyRule;
+    temperature?: number;
+    maxTokens?: number;
+    reasoningEffort?: 'low' | 'medium' | 'high'; // only sent to OpenAI reasoning models
+    onReasoning?: (delta: string) => void; // streamed reasoning summary, for providers that produce one
+}
+
+export interface LlmProvider {
+    name: LlmProviderName;
+    model: string;
+    /**
+     * Forces a call of `request.tool` and returns its raw arguments (object or JSON text)
+     */
+    callTool(request: LlmToolRequest): Promise<unknown>;
+}
+
+export interface LlmToolResult<T> {
+    args: T;
+    validationStatus: ValidationStatus;
+    attempts: number;
+    issues: string[]; // problems in rejected or repaired responses
+}
+
+export type LlmProviderName = 'openai' | 'anthropic' | 'local' | 'mock';
+
+// Each analyzer picks its provider with <ANALYZER>_LLM_PROVIDER / <ANALYZER>_LLM_MODEL, falling back to LLM_PROVIDER / LLM_MODEL
+export type LlmAnalyzer = 'transaction' | 'website';
+
+const DEFAULT_MODELS: Record<LlmProviderName, Record<LlmAnalyzer, string>> = {
+    openai: { transaction: 'gpt-5-mini', website: 'gpt-4' },
+    anthropic: { transaction: 'claude-sonnet-4-5', website: 'claude-sonnet-4-5' },
+    local: { transaction: 'llama3.1', website: 'llama3.1' },
+    mock: { transaction: 'mock', website: 'mock' }
+};
+
+const REQUEST_TIMEOUT_MS = 60000;
+
+// Invalid responses are sent back to the model with the issues this many times before local repair
+const DEFAULT_MAX_RETRIES = 2;
+
+/**
+ * riskLevel must match the fraudScore band (0-39 low, 40-69 medium, 70-100 high); the score wins when repairing
+ */
+export const RISK_SCORE_CONSISTENCY: LlmConsistencyRule<{ riskLevel: string; fraudScore: number }> = {
+    check(args) {
+        const expected = riskLevelForScore(args.fraudScore);
+        return args.riskLevel === expected
+            ? []
+            : [`riskLevel "${args.riskLevel}" does not match fraudScore ${args.fraudScore} (expected "${expected}")`];
+    },
+    repair(args) {
+        return { ...args, riskLevel: riskLevelForScore(args.fraudScore) };
+    }
+};
+
+function riskLevelForScore(fraudScore: number): 'low' | 'medium' | 'high' {
+    return fraudScore >= 70 ? 'high' : fraudScore >= 40 ? 'medium' : 'low';
+}
+
+/**
+ * Model output that is not valid JSON or does not match the tool schema
+ */
+export class LlmResponseError extends Error {
+    constructor(message: string, public provider: string, public issues: string[] = []) {
+        super(message);
+        this.name = 'LlmResponseError';
+    }
+}
+
+/**
+ * OpenAI through the Responses API, the only API that supports reasoning effort on gpt-5 models.
+ * With `onReasoning` the response is streamed so the reasoning summary arrives before the tool call.
+ */
+class OpenAIProvider implements LlmProvider {
+    readonly name = 'openai';
+
+    constructor(public model: string) {}
+
+    async callTool(request: LlmToolRequest): Promise<unknown> {
+        const apiKey = process.env.OPENAI_API_KEY;
+        if (!apiKey) {
+            throw new Error('OPENAI_API_KEY environment variable is required');
+        }
+        const openai = new OpenAI({ apiKey, timeout: REQUEST_TIMEOUT_MS });
+
+        const reasoningModel = /^(gpt-5|o\d)/.test(this.model);
+        const streamReasoning = reasoningModel && !!request.onReasoning;
+        const params: OpenAI.Responses.ResponseCreateParamsNonStreaming = {
+            model: this.model,
+            input: [
+                { role: 'developer', content: request.system },
+                { role: 'user', content: request.prompt }
+            ],
+            tools: [{
+                type: 'function',
+                name: request.tool.name,
+                description: request.tool.description,
+                parameters: request.tool.parameters as unknown as Record<string, unknown>,
+                strict: true
+            }],
+            tool_choice: { type: 'function', name: request.tool.name },
+            ...(reasoningModel && (request.reasoningEffort || streamReasoning)
+                ? { reasoning: { effort: request.reasoningEffort, ...(streamReasoning ? { summary: 'auto' as const } : {}) } }
+                : {}),
+            ...(!reasoningModel && request.temperature !== undefined ? { temperature: request.temperature } : {}),
+            ...(request.maxTokens !== undefined && !reasoningModel ? { max_output_tokens: request.maxTokens } : {})
+        };
+
+        let response: OpenAI.Responses.Response | undefined;
+        if (streamReasoning) {
+            const stream = await openai.responses.create({ ...params, stream: true });
+            for await (const event of stream) {
+                if (event.type === 'response.reasoning_summary_text.delta') {
+                    request.onReasoning!(event.delta);
+                } else if (event.type === 'response.completed' || event.type === 'response.incomplete') {
+                    response = event.response;
+                } else if (event.type === 'response.failed') {
+                    throw new Error(`OpenAI response failed: ${event.response.error?.message ?? 'unknown error'}`);
+                }
+            }
+            if (!response) {
+                throw new Error('OpenAI stream ended without a response');
+            }
+        } else {
+            response = await openai.responses.create(params);
+        }
+
+        const call = response.output.find((item) => item.type === 'function_call' && item.name === request.tool.name);
+        if (!call || call.type !== 'function_call') {
+            throw new LlmResponseError('No tool call in response', this.name);
+        }
+        return call.arguments;
+    }
+}
+
+/**
+ * OpenAI-compatible Chat Completions endpoint (Ollama, vLLM, LM Studio), LOCAL_LLM_BASE_URL
+ */
+class LocalProvider implements LlmProvider {
+    readonly name = 'local';
+
+    constructor(public model: string) {}
+
+    async callTool(request: LlmToolRequest): Promise<unknown> {
+        const openai = new OpenAI({
+            baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+            apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+            timeout: REQUEST_TIMEOUT_MS
+        });
+
+        const completion = await openai.chat.completions.create({
+            model: this.model,
+            messages: [
+                { role: 'system', content: request.system },
+                { role: 'user', content: request.prompt }
+            ],
+            tools: [{
+                type: 'function',
+                function: {
+                    name: request.tool.name,
+                    description: request.tool.description,
+                    parameters: request.tool.parameters as unknown as Record<string, unknown>
+                }
+            }],
+            tool_choice: { type: 'function', function: { name: request.tool.name } },
+            temperature: request.temperature,
+            max_tokens: request.maxTokens
+        });
+
+        const message = completion.choices[0]?.message;
+        const call = message?.tool_calls?.find((c) => c.function.name === request.tool.name);
+        // Small local models sometimes answer with the JSON as plain content instead of a tool call
+        const args = call?.function.arguments ?? message?.content;
+        if (!args) {
+            throw new LlmResponseError('No tool call in response', this.name);
+        }
+        return args;
+    }
+}
+
+/**
+ * Anthropic Messages API with a forced tool_use block
+ */
+class AnthropicProvider implements LlmProvider {
+    readonly name = 'anthropic';
+
+    constructor(public model: string) {}
+
+    async callTool(request: LlmToolRequest): Promise<unknown> {
+        const apiKey = process.env.ANTHROPIC_API_KEY;
+        if (!apiKey) {
+            throw new Error('ANTHROPIC_API_KEY environment variable is required');
+        }
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+        try {
+            const res = await fetch(`${process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'}/v1/messages`, {
+                method: 'POST',
+                signal: controller.signal,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-api-key': apiKey,
+                    'anthropic-version': '2023-06-01'
+                },
+                body: JSON.stringify({
+                    model: this.model,
+                    max_tokens: request.maxTokens ?? 4096,
+                    system: request.system,
+                    messages: [{ role: 'user', content: request.prompt }],
+                    tools: [{
+                        name: request.tool.name,
+                        description: request.tool.description,
+                        input_schema: request.tool.parameters
+                    }],
+                    tool_choice: { type: 'tool', name: request.tool.name },
+                    ...(request.temperature !== undefined ? { temperature: request.temperature } : {})
+                })
+            });
+
+            const body = await res.json() as any;
+            if (!res.ok) {
+                throw new Error(`Anthropic API error: HTTP ${res.status} ${body?.error?.message ?? res.statusText}`);
+            }
+
+            const block = (body.content ?? []).find((b: any) => b.type === 'tool_use' && b.name === request.tool.name);
+            if (!block) {
+                throw new LlmResponseError('No tool call in response', this.name);
+            }
+            return block.input;
+
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+}
+
+/**
+ * Deterministic offline provider: builds the answer from the schema (first enum value, minimum, empty arrays),
+ * overridden field by field with the JSON object in LLM_MOCK_RESPONSE. An array of objects answers the
+ * attempts of one analysis in turn (the last one repeats), e.g. to exercise retries.
+ */
+class MockProvider implements LlmProvider {
+    readonly name = 'mock';
+    private calls = 0;
+
+    constructor(public model: string) {}
+
+    async callTool(request: LlmToolRequest): Promise<unknown> {
+        const generated = this.fromSchema(request.tool.parameters, request.tool.name) as Record<string, unknown>;
+        const configured = process.env.LLM_MOCK_RESPONSE ? JSON.parse(process.env.LLM_MOCK_RESPONSE) : {};
+        const override = Array.isArray(configured) ? configured[Math.min(this.calls, configured.length - 1)] ?? {} : configured;
+        this.calls++;
+        return { ...generated, ...override };
+    }
+
+    private fromSchema(schema: ToolParameterSchema, key: string): unknown {
+        switch (schema.type) {
+            case 'object':
+                return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([name, property]) => [name, this.fromSchema(property, name)]));
+            case 'array':
+                return [];
+            case 'string':
+                return schema.enum?.[0] ?? `mock ${key}`;
+            case 'integer':
+            case 'number':
+                return schema.minimum ?? 0;
+            case 'boolean':
+                return false;
+        }
+    }
+}
+
+export class LlmProviders {
+    /**
+     * Provider and model configured for an analyzer
+     */
+    static get(analyzer: LlmAnalyzer): LlmProvider {
+        const prefix = analyzer.toUpperCase();
+        const name = (process.env[`${prefix}_LLM_PROVIDER`] || process.env.LLM_PROVIDER || 'openai') as LlmProviderName;
+        if (!(name in DEFAULT_MODELS)) {
+            throw new Error(`Unknown LLM provider "${name}" (expected openai, anthropic, local or mock)`);
+        }
+        const model = process.env[`${prefix}_LLM_MODEL`] || process.env.LLM_MODEL || DEFAULT_MODELS[name][analyzer];
+
+        switch (name) {
+            case 'anthropic': return new AnthropicProvider(model);
+            case 'local': return new LocalProvider(model);
+            case 'mock': return new MockProvider(model);
+            default: return new OpenAIProvider(model);
+        }
+    }
+
+    /**
+     * Runs the analyzer's tool call until the arguments match the tool schema and consistency rule.
+     * Rejected responses are retried with the issues as feedback (LLM_MAX_RETRIES); if the last one is still
+     * invalid it is repaired locally (clamping, coercion, score-derived level) or an LlmResponseError is thrown.
+     */
+    static async callTool<T>(analyzer: LlmAnalyzer, request: LlmToolRequest): Promise<LlmToolResult<T>> {
+        const provider = this.get(analyzer);
+        const configured = Number(process.env.LLM_MAX_RETRIES);
+        const maxRetries = Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_MAX_RETRIES;
+
+        const allIssues: string[] = [];
+        let prompt = request.prompt;
+        let last: unknown;
+
+        for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+            let raw: unknown;
+            try {
+                raw = await provider.callTool({ ...request, prompt });
+            } catch (error) {
+                // A missing tool call is a bad answer, not an outage, so it gets the same feedback retry
+                if (!(error instanceof LlmResponseError)) {
+                    throw error;
+                }
+            }
+            const { args, issues } = raw === undefined
+                ? { args: undefined, issues: [`no ${request.tool.name} tool call in the response`] }
+                : this.check(request, raw);
+            if (issues.length === 0) {
+                return { args: args as T, validationStatus: attempt === 1 ? 'valid' : 'retried', attempts: attempt, issues: allIssues };
+            }
+
+            console.warn(`${provider.name}/${provider.model} ${request.tool.name} attempt ${attempt} rejected:`, issues);
+            allIssues.push(...issues.map((issue) => `attempt ${attempt}: ${issue}`));
+            if (args !== undefined) {
+                last = args;
+            }
+            prompt = `${request.prompt}
+
+YOUR PREVIOUS RESPONSE WAS REJECTED:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+${raw === undefined ? '' : `Previous arguments: ${(typeof raw === 'string' ? raw : JSON.stringify(raw)).slice(0, 2000)}\n`}Call ${request.tool.name} again with arguments that fix these issues.`;
+        }
+
+        const attempts = maxRetries + 1;
+        if (last !== undefined) {
+            let repaired = this.repair(request.tool.parameters, last);
+            if (this.validate(request.tool.parameters, repaired, request.tool.name).length === 0 && request.consistency) {
+                repaired = request.consistency.repair(repaired);
+            }
+            if (this.check(request, repaired).issues.length === 0) {
+                return { args: repaired as T, validationStatus: 'repaired', attempts, issues: allIssues };
+            }
+        }
+
+        throw new LlmResponseError(
+            `${provider.name}/${provider.model} returned no valid ${request.tool.name} response after ${attempts} attempts`,
+            provider.name,
+            allIssues
+        );
+    }
+
+    /**
+     * Human-readable provider/model summary, e.g. for startup logs
+     */
+    static describe(analyzer: LlmAnalyzer): string {
+        try {
+            const provider = this.get(analyzer);
+            return `${provider.name}/${provider.model}`;
+        } catch (error) {
+            return error instanceof Error ? error.message : 'invalid configuration';
+        }
+    }
+
+    /**
+     * Returns the schema violations of a value; an empty array means valid
+     */
+    static validate(schema: ToolParameterSchema, value: unknown, path: string): string[] {
+        switch (schema.type) {
+            case 'object': {
+                if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                    return [`${path} must be an object`];
+                }
+                const record = value as Record<string, unknown>;
+                const issues: string[] = [];
+                for (const key of schema.required ?? []) {
+                    if (record[key] === undefined) issues.push(`${path}.${key} is required`);
+                }
+                for (const [key, item] of Object.entries(record)) {
+                    const property = schema.properties?.[key];
+                    if (property) {
+                        issues.push(...this.validate(property, item, `${path}.${key}`));
+                    } else if (schema.additionalProperties === false) {
+                        issues.push(`${path}.${key} is not allowed`);
+                    }
+                }
+                return issues;
+            }
+            case 'array':
+                if (!Array.isArray(value)) {
+                    return [`${path} must be an array`];
+                }
+                return schema.items ? value.flatMap((item, i) => this.validate(schema.items!, item, `${path}[${i}]`)) : [];
+            case 'string':
+                if (typeof value !== 'string') {
+                    return [`${path} must be a string`];
+                }
+                return schema.enum && !schema.enum.includes(value) ? [`${path} must be one of ${schema.enum.join(', ')}`] : [];
+            case 'integer':
+            case 'number':
+                if (typeof value !== 'number' || !Number.isFinite(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+                    return [`${path} must be ${schema.type === 'integer' ? 'an integer' : 'a number'}`];
+                }
+                if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+                    return [`${path} must be between ${schema.minimum ?? '-∞'} and ${schema.maximum ?? '∞'}`];
+                }
+                return [];
+            case 'boolean':
+                return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+        }
+    }
+
+    /**
+     * Schema-guided fixes for near-miss responses: numeric and boolean strings are coerced, numbers are rounded
+     * and clamped, enums match case-insensitively, a lone string becomes an array, unknown properties are dropped
+     * and missing arrays become empty. Missing strings, numbers and booleans are not invented.
+     */
+    static repair(schema: ToolParameterSchema, value: unknown): unknown {
+        switch (schema.type) {
+            case 'object': {
+                if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                    return value;
+                }
+                const record = value as Record<string, unknown>;
+                const repaired: Record<string, unknown> = {};
+                for (const [key, item] of Object.entries(record)) {
+                    const property = schema.properties?.[key];
+                    if (property) {
+                        repaired[key] = this.repair(property, item);
+                    } else if (schema.additionalProperties !== false) {
+                        repaired[key] = item;
+                    }
+                }
+                for (const key of schema.required ?? []) {
+                    if (repaired[key] === undefined && schema.properties?.[key]?.type === 'array') {
+                        repaired[key] = [];
+                    }
+                }
+                return repaired;
+            }
+            case 'array': {
+                const items = Array.isArray(value) ? value : typeof value === 'string' ? [value] : value;
+                return Array.isArray(items) && schema.items ? items.map((item) => this.repair(schema.items!, item)) : items;
+            }
+            case 'string':
+                if (typeof value !== 'string') {
+                    return value;
+                }
+                return schema.enum?.find((option) => option.toLowerCase() === value.trim().toLowerCase()) ?? value;
+            case 'integer':
+            case 'number': {
+                const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+                if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+                    return value;
+                }
+                let number = schema.type === 'integer' ? Math.round(parsed) : parsed;
+                if (schema.minimum !== undefined) number = Math.max(schema.minimum, number);
+                if (schema.maximum !== undefined) number = Math.min(schema.maximum, number);
+                return number;
+            }
+            case 'boolean':
+                return value === 'true' ? true : value === 'false' ? false : value;
+        }
+    }
+
+    /**
+     * Parses a raw tool response and returns the schema and consistency issues
+     */
+    private static check(request: LlmToolRequest, raw: unknown): { args: unknown; issues: string[] } {
+        let args: unknown = raw;
+        if (typeof raw === 'string') {
+            try {
+                args = JSON.parse(this.stripCodeFence(raw));
+            } catch {
+                return { args: undefined, issues: ['response is not valid JSON'] };
+            }
+        }
+
+        const issues = this.validate(request.tool.parameters, args, request.tool.name);
+        if (issues.length === 0 && request.consistency) {
+            issues.push(...request.consistency.check(args));
+        }
+        return { args, issues };
+    }
+
+    private static stripCodeFence(text: string): string {
+        const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+        return match ? match[1] : text;
+    }
+}
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { keccak256, parseEther, serializeTransaction, stringToHex } from 'viem';
+import { MessageAnalyzer } from './messageAnalyzer';
+
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const HASH = keccak256(stringToHex('opaque'));
+const RLP_TX = serializeTransaction({ chainId: 1, type: 'eip1559', to: RECIPIENT, value: parseEther('1'), nonce: 0, gas: 21000n, maxFeePerGas: 1n, maxPriorityFeePerGas: 1n });
+
+function siweMessage(domain: string): string {
+    return [
+        `${domain} wants you to sign in with your Ethereum account:`,
+        SIGNER,
+        '',
+        'Sign in to the app.',
+        '',
+        `URI: https://${domain}`,
+        'Version: 1',
+        'Chain ID: 1',
+        'Nonce: abcdef123456',
+        'Issued At: 2024-01-01T00:00:00.000Z'
+    ].join('\n');
+}
+
+describe('MessageAnalyzer.parseMessageRequest', () => {
+    it('reads personal_sign and eth_sign param orders', () => {
+        const personal = MessageAnalyzer.parseMessageRequest({ method: 'personal_sign', params: [stringToHex('hello'), SIGNER] });
+        const swapped = MessageAnalyzer.parseMessageRequest({ method: 'personal_sign', params: [SIGNER, 'hello'] });
+        const ethSign = MessageAnalyzer.parseMessageRequest({ method: 'eth_sign', params: [SIGNER, 'hello'] });
+
+        for (const decoded of [personal, swapped, ethSign]) {
+            assert.equal(decoded.signer, SIGNER);
+            assert.equal(decoded.text, 'hello');
+            assert.equal(decoded.encoding, 'utf8');
+        }
+        assert.equal(ethSign.method, 'eth_sign');
+        assert.throws(() => MessageAnalyzer.parseMessageRequest({ params: [] }), /Missing message/);
+    });
+
+    it('marks an unreadable 32-byte payload as a blind hash', () => {
+        const decoded = MessageAnalyzer.parseMessageRequest({ method: 'eth_sign', params: [SIGNER, HASH] });
+
+        assert.equal(decoded.isBlindHash, true);
+        assert.equal(decoded.encoding, 'hex');
+        assert.equal(decoded.isRlpTransaction, false);
+    });
+
+    it('decodes an RLP-encoded transaction hidden in the message', () => {
+        const decoded = MessageAnalyzer.parseMessageRequest({ method: 'eth_sign', params: [SIGNER, RLP_TX] });
+
+        assert.equal(decoded.isRlpTransaction, true);
+        assert.equal(decoded.embeddedTransaction?.to?.toLowerCase(), RECIPIENT.toLowerCase());
+        assert.ok(MessageAnalyzer.getDeterministicWarnings(decoded).some((w) => w.includes('RLP-encoded transaction')));
+    });
+
+    it('parses SIWE messages and compares the domain with the origin', () => {
+        const matching = MessageAnalyzer.parseMessageRequest({ params: [siweMessage('app.example.com'), SIGNER], origin: 'https://app.example.com' });
+        const phishing = MessageAnalyzer.parseMessageRequest({ params: [siweMessage('app.example.com'), SIGNER], origin: 'https://app-example.xyz' });
+
+        assert.equal(matching.siwe?.domain, 'app.example.com');
+        assert.equal(matching.siwe?.nonce, 'abcdef123456');
+        assert.equal(matching.siwe?.domainMatchesOrigin, true);
+        assert.equal(phishing.siwe?.domainMatchesOrigin, false);
+    });
+});
+
+describe('MessageAnalyzer.analyzeMessageWithAI', () => {
+    it('blocks blind hashes and embedded transactions without asking the AI', async () => {
+        const blind = await MessageAnalyzer.analyzeMessageWithAI({ method: 'eth_sign', params: [SIGNER, HASH] });
+        const rlp = await MessageAnalyzer.analyzeMessageWithAI({ method: 'eth_sign', params: [SIGNER, RLP_TX] });
+
+        assert.equal(blind.analysis.fraudScore, 90);
+        assert.equal(rlp.analysis.fraudScore, 95);
+        assert.ok(blind.analysis.warnings.some((w) => w.includes('eth_sign can sign arbitrary data')));
+        assert.match(rlp.analysis.reasoning, /can be broadcast without further confirmation/);
+    });
+
+    it('rates prefixed personal_sign payloads lower, without claiming they authorize a transaction', async () => {
+        const blind = await MessageAnalyzer.analyzeMessageWithAI({ method: 'personal_sign', params: [HASH, SIGNER] });
+        const rlp = await MessageAnalyzer.analyzeMessageWithAI({ method: 'personal_sign', params: [RLP_TX, SIGNER] });
+
+        assert.deepEqual([blind.analysis.riskLevel, blind.analysis.fraudScore], ['medium', 60]);
+        assert.deepEqual([rlp.analysis.riskLevel, rlp.analysis.fraudScore], ['medium', 50]);
+        for (const result of [blind, rlp]) {
+            assert.match(result.analysis.reasoning, /Ethereum Signed Message prefix/);
+            assert.ok(!result.analysis.warnings.some((w) => /authorize/.test(w)));
+        }
+    });
+
+    it('flags a SIWE domain that does not match the requesting origin', async () => {
+        const result = await MessageAnalyzer.analyzeMessageWithAI({
+            method: 'personal_sign',
+            params: [siweMessage('app.example.com'), SIGNER],
+            origin: 'https://app-example.xyz'
+        });
+
+        assert.equal(result.analysis.fraudScore, 85);
+        assert.equal(result.analysis.riskLevel, 'high');
+        assert.ok(result.analysis.warnings.some((w) => w.includes('does not match requesting origin')));
+    });
+});
@@ -0,0 +1,266 @@
+import { hexToBytes, isAddress, isHex } from 'viem';
+import { parseSiweMessage } from 'viem/siwe';
+import { TransactionDecoder } from './txDecoder';
+import { AIService } from './aiService';
+import { DecodedMessage, MessageAnalysisResult } from './types';
+
+const SIWE_MARKER = 'wants you to sign in with your Ethereum account';
+
+export interface MessageSignPayload {
+    method?: string;
+    params?: unknown[];
+    origin?: string;
+}
+
+export class MessageAnalyzer {
+    /**
+     * Analyzes a personal_sign / eth_sign request for blind signing and phishing
+     */
+    static async analyzeMessageWithAI(payload: MessageSignPayload): Promise<MessageAnalysisResult> {
+        try {
+            const message = this.parseMessageRequest(payload);
+            const warnings = this.getDeterministicWarnings(message);
+
+            // Opaque hashes and embedded transactions give the AI nothing to read, so decide here
+            if (message.isBlindHash || message.isRlpTransaction) {
+                return {
+                    success: true,
+                    analysis: this.analyzeOpaquePayload(message, warnings),
+                    message,
+                    timestamp: new Date().toISOString()
+                };
+            }
+
+            if (message.siwe && message.siwe.domainMatchesOrigin === false) {
+                return {
+                    success: true,
+                    analysis: {
+                        type: 'message_signature',
+                        riskLevel: 'high',
+                        fraudScore: 85,
+                        description: 'Sign-In with Ethereum domain mismatch',
+                        reasoning: `The sign-in message claims to be for ${message.siwe.domain} but was requested by ${message.origin}. This is a common phishing pattern used to hijack sessions.`,
+                        warnings,
+                        aiConfidence: 90
+                    },
+                    message,
+                    timestamp: new Date().toISOString()
+                };
+            }
+
+            const aiResult = await AIService.analyzeMessageForFraud(message, warnings);
+
+            return {
+                ...aiResult,
+                analysis: {
+                    ...aiResult.analysis,
+                    warnings: [...warnings, ...aiResult.analysis.warnings]
+                },
+                message
+            };
+
+        } catch (error) {
+            return {
+                success: false,
+                analysis: {
+                    type: 'message_signature',
+                    riskLevel: 'high',
+                    fraudScore: 100,
+                    description: 'Message analysis failed',
+                    reasoning: 'Unable to parse the message signature request',
+                    warnings: ['Analysis service unavailable'],
+                    aiConfidence: 0
+                },
+                timestamp: new Date().toISOString(),
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Parses personal_sign ([message, address]) and eth_sign ([address, message]) params
+     */
+    static parseMessageRequest(payload: MessageSignPayload): DecodedMessage {
+        const method = payload.method === 'eth_sign' ? 'eth_sign' : 'personal_sign';
+        const params = (payload.params ?? []).filter((p): p is string => typeof p === 'string');
+
+        if (params.length === 0) {
+            throw new Error('Missing message in params');
+        }
+
+        let raw: string;
+        let signer: string | undefined;
+        if (method === 'eth_sign') {
+            [signer, raw] = params;
+        } else if (params.length > 1 && isAddress(params[0]) && !isAddress(params[1])) {
+            // Some dApps send personal_sign params in eth_sign order
+            [signer, raw] = params;
+        } else {
+            [raw, signer] = params;
+        }
+
+        if (raw === undefined) {
+            throw new Error('Missing message in params');
+        }
+
+        const decoded: DecodedMessage = {
+            method,
+            signer,
+            raw,
+            encoding: 'utf8',
+            isBlindHash: false,
+            isRlpTransaction: false,
+            origin: payload.origin
+        };
+
+        if (isHex(raw, { strict: true })) {
+            const bytes = hexToBytes(raw);
+            const text = this.decodeUtf8(bytes);
+
+            decoded.isBlindHash = bytes.length === 32 && text === undefined;
+            if (text !== undefined) {
+                decoded.text = text;
+            } else {
+                decoded.encoding = 'hex';
+            }
+
+            if (text === undefined && !decoded.isBlindHash && TransactionDecoder.isValidRawTransaction(raw)) {
+                decoded.isRlpTransaction = true;
+                try {
+                    decoded.embeddedTransaction = TransactionDecoder.decodeRawTransaction(raw);
+                } catch (error) {
+                    console.warn('Could not decode embedded transaction:', error);
+                }
+            }
+        } else {
+            decoded.text = raw;
+        }
+
+        if (decoded.text && decoded.text.includes(SIWE_MARKER)) {
+            decoded.siwe = this.parseSiwe(decoded.text, payload.origin);
+        }
+
+        return decoded;
+    }
+
+    /**
+     * Deterministic findings for the decoded message
+     */
+    static getDeterministicWarnings(message: DecodedMessage): string[] {
+        const warnings: string[] = [];
+
+        if (message.method === 'eth_sign') {
+            warnings.push('eth_sign can sign arbitrary data, including transactions; legitimate dApps rarely need it');
+        }
+
+        if (message.isBlindHash) {
+            warnings.push(message.method === 'eth_sign'
+                ? 'Blind signing: message is an opaque 32-byte hash that could authorize a raw transaction'
+                : 'Blind signing: message is an opaque 32-byte hash');
+        }
+
+        if (message.isRlpTransaction) {
+            const to = message.embeddedTransaction?.to ?? 'a new contract';
+            warnings.push(message.method === 'eth_sign'
+                ? `Message is an RLP-encoded transaction to ${to}; signing it authorizes that transaction`
+                : `Message is an RLP-encoded transaction to ${to}; the signed-message prefix keeps it from being broadcast`);
+        }
+
+        if (message.encoding === 'hex' && !message.isBlindHash && !message.isRlpTransaction) {
+            warnings.push('Message is not human readable');
+        }
+
+        if (message.siwe) {
+            const { siwe } = message;
+            if (siwe.domainMatchesOrigin === false) {
+                warnings.push(`Sign-In with Ethereum domain ${siwe.domain} does not match requesting origin ${message.origin}`);
+            }
+            if (message.signer && siwe.address && siwe.address.toLowerCase() !== message.signer.toLowerCase()) {
+                warnings.push(`Sign-In with Ethereum address ${siwe.address} is not the signing account`);
+            }
+            if (siwe.expirationTime && new Date(siwe.expirationTime).getTime() < Date.now()) {
+                warnings.push('Sign-In with Ethereum message has already expired');
+            }
+        }
+
+        return warnings;
+    }
+
+    /**
+     * Verdict for a blind hash or an embedded transaction. eth_sign signs the bytes as they are, so the
+     * signature is valid for that hash or transaction. personal_sign signs them behind the
+     * "\x19Ethereum Signed Message" prefix, so the signature cannot be broadcast as a transaction; it only
+     * counts for contracts that check prefixed messages, which the user still cannot read here.
+     */
+    private static analyzeOpaquePayload(message: DecodedMessage, warnings: string[]): MessageAnalysisResult['analysis'] {
+        const analysis = { type: 'message_signature' as const, warnings, aiConfidence: 90 };
+
+        if (message.method === 'eth_sign') {
+            return message.isRlpTransaction ? {
+                ...analysis,
+                riskLevel: 'high',
+                fraudScore: 95,
+                description: 'Message is an encoded transaction',
+                reasoning: 'The payload decodes as an RLP-encoded transaction. Signing it produces a valid transaction signature that can be broadcast without further confirmation.'
+            } : {
+                ...analysis,
+                riskLevel: 'high',
+                fraudScore: 90,
+                description: 'Blind signing of an opaque hash',
+                reasoning: 'The payload is a 32-byte hash with no readable content. It can be the hash of a transaction or permit, so signing it may authorize actions you cannot see.'
+            };
+        }
+
+        return {
+            ...analysis,
+            riskLevel: 'medium',
+            fraudScore: message.isRlpTransaction ? 50 : 60,
+            description: message.isRlpTransaction
+                ? 'Message contains an encoded transaction'
+                : 'Signing an unreadable hash',
+            reasoning: message.isRlpTransaction
+                ? 'The payload decodes as an RLP-encoded transaction. personal_sign adds the Ethereum Signed Message prefix, so the signature cannot be broadcast as that transaction, but a dApp has no reason to ask for it this way.'
+                : 'The payload is a 32-byte hash with no readable content. personal_sign adds the Ethereum Signed Message prefix, so the signature cannot authorize a transaction, but contracts that check signed messages (off-chain orders, meta-transactions) may accept it for actions you cannot see.'
+        };
+    }
+
+    /**
+     * Parses an EIP-4361 message and compares its domain with the requesting origin
+     */
+    private static parseSiwe(text: string, origin?: string): DecodedMessage['siwe'] {
+        const parsed = parseSiweMessage(text);
+        const domain = parsed.domain ?? '';
+
+        let domainMatchesOrigin: boolean | undefined;
+        if (origin) {
+            try {
+                domainMatchesOrigin = new URL(origin).host.toLowerCase() === domain.toLowerCase();
+            } catch {
+                domainMatchesOrigin = origin.toLowerCase() === domain.toLowerCase();
+            }
+        }
+
+        return {
+            domain,
+            address: parsed.address ?? '',
+            uri: parsed.uri ?? '',
+            chainId: parsed.chainId ?? 0,
+            nonce: parsed.nonce ?? '',
+            statement: parsed.statement,
+            expirationTime: parsed.expirationTime?.toISOString(),
+            domainMatchesOrigin
+        };
+    }
+
+    /**
+     * Decodes bytes as UTF-8, returning undefined for invalid or non-printable content
+     */
+    private static decodeUtf8(bytes: Uint8Array): string | undefined {
+        try {
+            const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+            return /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/.test(text) ? undefined : text;
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PolicyEngine, PolicySubject } from './policyEngine';
+import { AIAnalysisResult } from './types';
+
+const POLICY_YAML = `
+# Treasury policy
+defaults: &warn
+  action: warn
+policies:
+  - id: acme-treasury
+    organization: Acme Corp
+    version: 3
+    apiKeys: [acme-key-1, "acme-key-2"]
+    rules:
+      - id: max-value
+        type: max_native_value
+        value: 10        # ether
+      - id: known-spenders
+        type: spender_allowlist
+        <<: *warn
+        addresses:
+          - 0x000000000022D473030F116dDEE9F6B43aC78BA3
+      - id: no-bsc
+        type: blocked_chains
+        chainIds: [56, 0x89]
+  - id: default
+    version: '2024-06-01'
+    default: true
+    rules:
+      - id: score
+        type: max_fraud_score
+        value: 70
+        action: warn
+`;
+
+function subject(value: string, chainId = 1, fraudScore = 10): PolicySubject {
+    const result = { success: true, analysis: { riskLevel: 'low', fraudScore, warnings: [] } } as unknown as AIAnalysisResult;
+    return { chainId, transaction: { to: '0x1111111111111111111111111111111111111111', value }, result };
+}
+
+describe('PolicyEngine.parsePolicies', () => {
+    it('reads YAML with comments, flow sequences, anchors and merge keys', () => {
+        const [treasury, fallback] = PolicyEngine.parsePolicies(POLICY_YAML, 'acme.yaml');
+
+        assert.equal(treasury.id, 'acme-treasury');
+        assert.deepEqual(treasury.apiKeys, ['acme-key-1', 'acme-key-2']);
+        assert.deepEqual(treasury.rules.map((rule) => rule.action), ['block', 'warn', 'block']);
+        assert.equal(treasury.rules[0].value, '10');
+        assert.deepEqual(treasury.rules[2].chainIds, [56, 137]);
+        assert.equal(fallback.version, '2024-06-01');
+        assert.equal(fallback.default, true);
+    });
+
+    it('keeps unquoted addresses as strings', () => {
+        const [treasury] = PolicyEngine.parsePolicies(POLICY_YAML, 'acme.yaml');
+
+        assert.deepEqual(treasury.rules[1].addresses, ['0x000000000022d473030f116ddee9f6b43ac78ba3']);
+    });
+
+    it('reads multi-line strings', () => {
+        const [policy] = PolicyEngine.parsePolicies('id: p\nversion: 1\norganization: >-\n  Acme\n  Corp\nrules: []\n', 'p.yml');
+
+        assert.equal(policy.organization, 'Acme Corp');
+    });
+
+    it('reads .json files as JSON', () => {
+        const policies = PolicyEngine.parsePolicies(JSON.stringify([{ id: 'p', version: 1, rules: [] }]), 'p.json');
+
+        assert.equal(policies.length, 1);
+        assert.equal(policies[0].source, 'p.json');
+    });
+
+    it('rejects invalid policies', () => {
+        assert.throws(() => PolicyEngine.parsePolicies('id: p\nrules: []\n', 'p.yaml'), /policy p: version is required/);
+        assert.throws(() => PolicyEngine.parsePolicies('id: p\nversion: 1\nrules: [\n', 'p.yaml'));
+    });
+});
+
+describe('PolicyEngine.evaluate', () => {
+    const [treasury, fallback] = PolicyEngine.parsePolicies(POLICY_YAML, 'acme.yaml');
+
+    it('allows a transaction within the limits', async () => {
+        const evaluation = await PolicyEngine.evaluate(treasury, subject('1000000000000000000'));
+
+        assert.equal(evaluation.decision, 'allow');
+    });
+
+    it('blocks a value above the limit, in hex or decimal', async () => {
+        for (const value of ['0x8ac7230489e80001', '10000000000000000001']) {
+            const evaluation = await PolicyEngine.evaluate(treasury, subject(value));
+            assert.equal(evaluation.decision, 'block');
+            assert.deepEqual(evaluation.violatedRules, ['max-value']);
+        }
+    });
+
+    it('blocks a value it cannot read instead of treating it as zero', async () => {
+        for (const value of ['lots', '-1', '1.5']) {
+            const evaluation = await PolicyEngine.evaluate(treasury, subject(value));
+            assert.equal(evaluation.decision, 'block');
+            assert.match(evaluation.violations[0].message, /is not a valid amount/);
+        }
+    });
+
+    it('blocks listed chains and warns above the fraud score', async () => {
+        assert.deepEqual((await PolicyEngine.evaluate(treasury, subject('0', 137))).violatedRules, ['no-bsc']);
+        assert.equal((await PolicyEngine.evaluate(fallback, subject('0', 1, 80))).decision, 'warn');
+    });
+});
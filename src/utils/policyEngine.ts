@@ -0,0 +1,420 @@
+import fs from 'fs';
+import path from 'path';
+import { formatEther, isAddress, parseEther, zeroAddress } from 'viem';
+import { parse as parseYaml } from 'yaml';
+import { fetchContractCreationTime } from './abi';
+import { ApprovalRules } from './approvalRules';
+import { BatchDecoder } from './batchDecoder';
+import { AIAnalysisResult, CallNode, DecodedAuthorization, DecodedTypedData, Policy, PolicyEvaluation, PolicyRule, PolicyRuleType, PolicyViolation } from './types';
+
+/**
+ * What a policy is evaluated against: the chain, the transaction being sent (absent for signatures),
+ * the decoded typed data (absent for transactions) and the analysis result
+ */
+export interface PolicySubject {
+    chainId?: number;
+    transaction?: {
+        to?: string | null;
+        value?: string; // wei, hex or decimal
+        data?: `0x${string}`;
+        callTree?: CallNode;
+        authorizationList?: DecodedAuthorization[];
+    };
+    typedData?: DecodedTypedData;
+    result: AIAnalysisResult;
+}
+
+const RULE_TYPES: PolicyRuleType[] = [
+    'max_native_value',
+    'contract_allowlist',
+    'spender_allowlist',
+    'no_unlimited_approvals',
+    'min_contract_age',
+    'blocked_chains',
+    'max_fraud_score'
+];
+
+// Rule findings that grant an unlimited allowance or operator rights over a whole collection
+const UNLIMITED_APPROVAL_FINDINGS = ['UNLIMITED_APPROVAL', 'PERMIT2_UNLIMITED_APPROVAL', 'SET_APPROVAL_FOR_ALL'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-organization transaction policies, loaded from the JSON or YAML files in POLICY_PATH (comma-separated).
+ * A request gets the policy listing its API key, or the default policy; the policy's rules are checked
+ * against the decoded request and its analysis and produce an allow / warn / block decision.
+ */
+export class PolicyEngine {
+    private static policies: Policy[] = [];
+    private static initialized = false;
+    // Deployment dates do not change, so lookups are kept for the life of the process
+    private static creationTimes = new Map<string, Date>();
+
+    private static ensureInitialized(): void {
+        if (this.initialized) {
+            return;
+        }
+        this.initialized = true;
+
+        const { errors } = this.reload();
+        errors.forEach((error) => console.error(`Could not load policies: ${error}`));
+    }
+
+    static list(): Policy[] {
+        this.ensureInitialized();
+        return this.policies;
+    }
+
+    /**
+     * Re-reads the POLICY_PATH files. Any error keeps the policies currently loaded, so a bad edit
+     * cannot silently drop an organization's rules.
+     */
+    static reload(): { loaded: number; errors: string[] } {
+        this.initialized = true;
+
+        const paths = (process.env.POLICY_PATH ?? '').split(',').map((p) => p.trim()).filter(Boolean);
+        const policies: Policy[] = [];
+        const errors: string[] = [];
+
+        for (const policyPath of paths) {
+            try {
+                policies.push(...this.parsePolicies(fs.readFileSync(policyPath, 'utf8'), policyPath));
+            } catch (error) {
+                errors.push(`${policyPath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        const ids = new Set<string>();
+        const apiKeys = new Set<string>();
+        for (const policy of policies) {
+            if (ids.has(policy.id)) {
+                errors.push(`${policy.source}: policy id ${policy.id} is used more than once`);
+            }
+            ids.add(policy.id);
+            for (const apiKey of policy.apiKeys) {
+                if (apiKeys.has(apiKey)) {
+                    errors.push(`${policy.source}: an API key of policy ${policy.id} is assigned to another policy`);
+                }
+                apiKeys.add(apiKey);
+            }
+        }
+        if (policies.filter((policy) => policy.default).length > 1) {
+            errors.push('More than one policy is marked as default');
+        }
+
+        if (errors.length > 0) {
+            return { loaded: 0, errors };
+        }
+
+        this.policies = policies;
+        if (paths.length > 0) {
+            console.log(`Loaded ${policies.length} transaction policies from ${paths.join(', ')}`);
+        }
+        return { loaded: policies.length, errors };
+    }
+
+    /**
+     * The policy for an API key; requests without a known key get the default policy, if there is one
+     */
+    static resolve(apiKey?: string): Policy | undefined {
+        const policies = this.list();
+        return (apiKey ? policies.find((policy) => policy.apiKeys.includes(apiKey)) : undefined)
+            ?? policies.find((policy) => policy.default);
+    }
+
+    /**
+     * Checks every rule of the policy. Any violated `block` rule blocks, any other violation warns.
+     */
+    static async evaluate(policy: Policy, subject: PolicySubject): Promise<PolicyEvaluation> {
+        const { transaction } = subject;
+        const callTree = transaction?.callTree ?? (subject.chainId && transaction?.to && transaction.data
+            ? await BatchDecoder.decodeCallTree(subject.chainId, transaction.to, transaction.value ?? '0', transaction.data)
+            : undefined);
+
+        const violations: PolicyViolation[] = [];
+        for (const rule of policy.rules) {
+            const message = await this.check(rule, subject, callTree);
+            if (message) {
+                violations.push({ ruleId: rule.id, type: rule.type, action: rule.action, message });
+            }
+        }
+
+        return {
+            policyId: policy.id,
+            policyVersion: policy.version,
+            organization: policy.organization,
+            decision: violations.some((v) => v.action === 'block') ? 'block' : violations.length > 0 ? 'warn' : 'allow',
+            violatedRules: violations.map((v) => v.ruleId),
+            violations
+        };
+    }
+
+    /**
+     * Puts the policy decision on an analysis result; violations are added to its warnings
+     */
+    static apply<T extends AIAnalysisResult>(result: T, evaluation: PolicyEvaluation): T {
+        return {
+            ...result,
+            analysis: {
+                ...result.analysis,
+                warnings: [
+                    ...result.analysis.warnings,
+                    ...evaluation.violations.map((v) => `Policy ${evaluation.policyId} (${v.ruleId}): ${v.message}`)
+                ]
+            },
+            policyDecision: evaluation.decision,
+            policy: evaluation
+        };
+    }
+
+    /**
+     * Parses a policy file: `{ policies: [...] }`, an array of policies or a single policy.
+     * `.json` files are read as JSON, anything else as YAML.
+     */
+    static parsePolicies(content: string, source: string): Policy[] {
+        const data = path.extname(source).toLowerCase() === '.json'
+            ? JSON.parse(content)
+            // Unquoted addresses would otherwise be read as (lossy) hexadecimal numbers
+            : parseYaml(content, { merge: true, customTags: (tags) => tags.filter((tag) => typeof tag === 'string' || tag.format !== 'HEX') });
+        const entries = Array.isArray(data)
+            ? data
+            : data && typeof data === 'object' && Array.isArray((data as { policies?: unknown }).policies)
+                ? (data as { policies: unknown[] }).policies
+                : [data];
+
+        return entries.map((entry) => this.toPolicy(entry, source));
+    }
+
+    /**
+     * Returns why the subject violates the rule, or undefined when it complies (or the rule does not apply)
+     */
+    private static async check(rule: PolicyRule, subject: PolicySubject, callTree?: CallNode): Promise<string | undefined> {
+        switch (rule.type) {
+            case 'max_native_value': {
+                const value = this.toBigInt(subject.transaction?.value);
+                if (value === undefined) {
+                    // A value that cannot be read cannot be shown to be within the limit
+                    return `Transaction value ${JSON.stringify(subject.transaction?.value)} is not a valid amount`;
+                }
+                const limit = parseEther(String(rule.value));
+                return value > limit ? `Sends ${formatEther(value)} native tokens, above the limit of ${rule.value}` : undefined;
+            }
+
+            case 'contract_allowlist': {
+                const outside = this.contracts(subject, callTree).filter((address) => !rule.addresses!.includes(address));
+                return outside.length > 0 ? `Interacts with contracts that are not allowlisted: ${outside.join(', ')}` : undefined;
+            }
+
+            case 'spender_allowlist': {
+                const outside = this.spenders(subject, callTree).filter((address) => !rule.addresses!.includes(address));
+                return outside.length > 0 ? `Grants an allowance to spenders that are not allowlisted: ${outside.join(', ')}` : undefined;
+            }
+
+            case 'no_unlimited_approvals': {
+                const findings = (subject.result.analysis.ruleFindings ?? []).filter((f) => UNLIMITED_APPROVAL_FINDINGS.includes(f.ruleId));
+                const permits = (subject.typedData?.permits ?? []).filter((permit) => permit.isUnlimited);
+                const spenders = [...findings.map((f) => f.spender), ...permits.map((permit) => permit.spender)].filter(Boolean);
+                return findings.length > 0 || permits.length > 0
+                    ? `Grants an unlimited approval${spenders.length > 0 ? ` to ${Array.from(new Set(spenders)).join(', ')}` : ''}`
+                    : undefined;
+            }
+
+            case 'min_contract_age': {
+                if (!subject.chainId) {
+                    return undefined;
+                }
+                const problems: string[] = [];
+                for (const address of this.contracts(subject, callTree)) {
+                    const deployedAt = await this.creationTime(subject.chainId, address);
+                    if (!deployedAt) {
+                        if (!rule.allowUnknown) {
+                            problems.push(`the deployment date of ${address} could not be determined`);
+                        }
+                        continue;
+                    }
+                    const ageDays = Math.floor((Date.now() - deployedAt.getTime()) / DAY_MS);
+                    if (ageDays < rule.days!) {
+                        problems.push(`${address} was deployed ${ageDays} day(s) ago`);
+                    }
+                }
+                return problems.length > 0 ? `Contracts must be at least ${rule.days} days old: ${problems.join('; ')}` : undefined;
+            }
+
+            case 'blocked_chains':
+                return subject.chainId && rule.chainIds!.includes(subject.chainId) ? `Chain ${subject.chainId} is blocked` : undefined;
+
+            case 'max_fraud_score': {
+                const { fraudScore } = subject.result.analysis;
+                return fraudScore > Number(rule.value) ? `Fraud score ${fraudScore} is above the limit of ${rule.value}` : undefined;
+            }
+        }
+    }
+
+    /**
+     * Contracts the request calls: the target and every batched call with calldata, every EIP-7702 delegate
+     * (the sender's account will run its code), or the typed data's verifying contract
+     */
+    private static contracts(subject: PolicySubject, callTree?: CallNode): string[] {
+        const { transaction } = subject;
+        const addresses: string[] = [];
+
+        if (transaction?.to && transaction.data && transaction.data !== '0x') {
+            addresses.push(transaction.to);
+            const nodes = callTree ? BatchDecoder.flatten(callTree) : [];
+            addresses.push(...nodes.filter((node) => node.data && node.data !== '0x').map((node) => node.target));
+        }
+        for (const authorization of transaction?.authorizationList ?? []) {
+            if (authorization.address.toLowerCase() !== zeroAddress) {
+                addresses.push(authorization.address);
+            }
+        }
+        if (subject.typedData?.domain.verifyingContract) {
+            addresses.push(subject.typedData.domain.verifyingContract);
+        }
+
+        return this.unique(addresses);
+    }
+
+    /**
+     * Spenders approved by the calldata, by signed permits and, when simulated, by the emitted approvals
+     */
+    private static spenders(subject: PolicySubject, callTree?: CallNode): string[] {
+        const { transaction, typedData, result } = subject;
+
+        return this.unique([
+            ...(transaction?.data ? ApprovalRules.spenders({ data: transaction.data, callTree }) : []),
+            ...(typedData?.permits ?? []).map((permit) => permit.spender),
+            ...(result.simulation?.approvals ?? []).filter((approval) => approval.approved !== false).map((approval) => approval.spender)
+        ]);
+    }
+
+    private static async creationTime(chainId: number, address: string): Promise<Date | null> {
+        const key = `${chainId}:${address}`;
+        const cached = this.creationTimes.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const deployedAt = await fetchContractCreationTime(chainId, address);
+        if (deployedAt) {
+            this.creationTimes.set(key, deployedAt);
+        }
+        return deployedAt;
+    }
+
+    private static toPolicy(raw: unknown, source: string): Policy {
+        const data = raw as Record<string, unknown>;
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            throw new Error('a policy must be an object');
+        }
+        if (typeof data.id !== 'string' || !data.id) {
+            throw new Error('policy id is required');
+        }
+        const id = data.id;
+        if (typeof data.version !== 'string' && typeof data.version !== 'number') {
+            throw new Error(`policy ${id}: version is required`);
+        }
+        if (data.apiKeys !== undefined && (!Array.isArray(data.apiKeys) || !data.apiKeys.every((key) => typeof key === 'string' && key))) {
+            throw new Error(`policy ${id}: apiKeys must be a list of strings`);
+        }
+        if (!Array.isArray(data.rules)) {
+            throw new Error(`policy ${id}: rules must be a list`);
+        }
+
+        const rules = data.rules.map((rule) => this.toRule(rule, id));
+        const duplicate = rules.find((rule, i) => rules.findIndex((r) => r.id === rule.id) !== i);
+        if (duplicate) {
+            throw new Error(`policy ${id}: rule id ${duplicate.id} is used more than once`);
+        }
+
+        return {
+            id,
+            version: data.version,
+            organization: typeof data.organization === 'string' ? data.organization : undefined,
+            apiKeys: (data.apiKeys as string[] | undefined) ?? [],
+            default: data.default === true,
+            rules,
+            source: path.basename(source)
+        };
+    }
+
+    private static toRule(raw: unknown, policyId: string): PolicyRule {
+        const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+        const fail = (message: string) => new Error(`policy ${policyId}, rule ${typeof data.id === 'string' ? data.id : '?'}: ${message}`);
+
+        if (typeof data.id !== 'string' || !data.id) {
+            throw fail('rule id is required');
+        }
+        if (!RULE_TYPES.includes(data.type as PolicyRuleType)) {
+            throw fail(`type must be one of ${RULE_TYPES.join(', ')}`);
+        }
+        const action = data.action ?? 'block';
+        if (action !== 'warn' && action !== 'block') {
+            throw fail('action must be warn or block');
+        }
+
+        const rule: PolicyRule = { id: data.id, type: data.type as PolicyRuleType, action };
+
+        switch (rule.type) {
+            case 'max_native_value':
+                if (!/^\d+(\.\d+)?$/.test(String(data.value))) {
+                    throw fail('value must be an amount in ether, e.g. 10 or "0.5"');
+                }
+                rule.value = String(data.value);
+                break;
+
+            case 'max_fraud_score':
+                if (typeof data.value !== 'number' || data.value < 0 || data.value > 100) {
+                    throw fail('value must be a fraud score between 0 and 100');
+                }
+                rule.value = data.value;
+                break;
+
+            case 'contract_allowlist':
+            case 'spender_allowlist':
+                if (!Array.isArray(data.addresses) || !data.addresses.every((address) => typeof address === 'string' && isAddress(address, { strict: false }))) {
+                    throw fail('addresses must be a list of addresses');
+                }
+                rule.addresses = (data.addresses as string[]).map((address) => address.toLowerCase());
+                break;
+
+            case 'min_contract_age':
+                if (typeof data.days !== 'number' || data.days <= 0) {
+                    throw fail('days must be a positive number');
+                }
+                rule.days = data.days;
+                rule.allowUnknown = data.allowUnknown === true;
+                break;
+
+            case 'blocked_chains': {
+                const chainIds = Array.isArray(data.chainIds) ? data.chainIds.map(Number) : [];
+                if (chainIds.length === 0 || !chainIds.every((chainId) => Number.isInteger(chainId) && chainId > 0)) {
+                    throw fail('chainIds must be a list of chain ids');
+                }
+                rule.chainIds = chainIds;
+                break;
+            }
+        }
+
+        return rule;
+    }
+
+    private static unique(addresses: string[]): string[] {
+        return Array.from(new Set(addresses.map((address) => address.toLowerCase())));
+    }
+
+    /**
+     * A missing value is 0; a malformed or negative one is undefined
+     */
+    private static toBigInt(value?: string): bigint | undefined {
+        if (!value) {
+            return 0n;
+        }
+        try {
+            const amount = BigInt(value);
+            return amount < 0n ? undefined : amount;
+        } catch {
+            return undefined;
+        }
+    }
+}
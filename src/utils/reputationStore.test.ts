@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { ReputationStore } from './reputationStore';
+import { CallNode } from './types';
+
+const DRAINER = '0x0000db5c8B030ae20308ac975898E09741e70000';
+const PHISHER = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const POLYGON_ONLY = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const USER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+let dir: string;
+let storePath: string;
+
+const saved = () => JSON.parse(fs.readFileSync(storePath, 'utf8')) as { entries: Array<{ address: string }>; removed: string[] };
+
+describe('ReputationStore', () => {
+    // The store loads its lists once, on first use
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reputation-'));
+        storePath = path.join(dir, 'store.json');
+        const listPath = path.join(dir, 'drainers.csv');
+        fs.writeFileSync(listPath, [
+            'address,label,category,confidence,chainId',
+            `${DRAINER},"Inferno Drainer, v2",drainer,95,`,
+            `${POLYGON_ONLY},Fake airdrop,phishing,60,137`,
+            'not-an-address,ignored,,,'
+        ].join('\n'));
+        process.env.REPUTATION_LIST_PATH = listPath;
+        process.env.REPUTATION_STORE_PATH = storePath;
+    });
+
+    after(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        delete process.env.REPUTATION_LIST_PATH;
+        delete process.env.REPUTATION_STORE_PATH;
+    });
+
+    beforeEach(() => {
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'warn', () => undefined);
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('loads CSV lists with quoted cells and skips invalid rows', () => {
+        const entry = ReputationStore.get(DRAINER.toLowerCase());
+
+        assert.equal(entry?.label, 'Inferno Drainer, v2');
+        assert.equal(entry?.confidence, 95);
+        assert.equal(entry?.chainId, undefined);
+        assert.equal(ReputationStore.get(POLYGON_ONLY)?.chainId, 137);
+        assert.equal(ReputationStore.list({ source: 'drainers.csv' }).length, 2);
+    });
+
+    it('keeps the more confident verdict when lists disagree', () => {
+        assert.equal(ReputationStore.importList({ [DRAINER]: 'Default-confidence report' }, 'other-list', { persist: false }), 0);
+        assert.equal(ReputationStore.importList([{ address: DRAINER, label: 'Inferno Drainer', confidence: 99 }], 'strong-list', { persist: false }), 1);
+
+        assert.equal(ReputationStore.get(DRAINER)?.label, 'Inferno Drainer');
+        assert.equal(ReputationStore.get(DRAINER)?.confidence, 99);
+    });
+
+    it('matches the target, sender, params and batched call targets on the right chain', () => {
+        const callTree: CallNode = {
+            target: TOKEN, value: '0', method: 'aggregate3', params: [], depth: 0,
+            children: [{ target: PHISHER, value: '0', method: 'transfer', params: [], depth: 1 }]
+        };
+        ReputationStore.upsert({ address: PHISHER, label: 'Phishing contract', confidence: 50, source: 'api' });
+
+        const matches = ReputationStore.checkTransaction({
+            chainId: 1,
+            from: USER,
+            to: TOKEN,
+            decodedData: { method: 'approve', params: [DRAINER, POLYGON_ONLY, 1n] },
+            callTree
+        });
+
+        assert.deepEqual(matches.map((m) => [m.address, m.role]), [[DRAINER, 'param'], [PHISHER, 'call_target']]);
+    });
+
+    it('turns matches into findings with a confidence-based floor', () => {
+        const findings = ReputationStore.toFindings(ReputationStore.checkTransaction({ chainId: 137, from: USER, to: POLYGON_ONLY }));
+
+        assert.equal(findings.length, 1);
+        assert.equal(findings[0].ruleId, 'KNOWN_MALICIOUS_ADDRESS');
+        assert.equal(findings[0].severity, 'medium');
+        assert.equal(findings[0].minimumFraudScore, 60);
+        assert.ok(findings[0].message.startsWith(`Recipient ${POLYGON_ONLY} is flagged as "Fake airdrop"`));
+    });
+
+    it('saves API additions and removals', () => {
+        ReputationStore.upsert({ address: USER, label: 'Test entry', confidence: 99, source: 'api' });
+        // List entries stay in the lists, so edits to them are not shadowed by a stale copy
+        assert.deepEqual(saved().entries.map((entry) => entry.address), [PHISHER, USER]);
+
+        assert.equal(ReputationStore.remove(USER), true);
+        assert.equal(ReputationStore.remove(USER), false);
+        assert.ok(!saved().entries.some((entry) => entry.address === USER));
+        assert.deepEqual(saved().removed, [USER.toLowerCase()]);
+        assert.throws(() => ReputationStore.upsert({ address: 'nope', label: 'x', confidence: 1, source: 'api' }), /Invalid address/);
+    });
+});
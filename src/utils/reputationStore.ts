@@ -0,0 +1,333 @@
+import fs from 'fs';
+import path from 'path';
+import { getAddress, isAddress } from 'viem';
+import { BatchDecoder } from './batchDecoder';
+import { DecodedTransaction, ReputationEntry, ReputationMatch, RuleFinding } from './types';
+
+export type ReputationInput = Omit<ReputationEntry, 'address' | 'createdAt' | 'updatedAt'> & { address: string };
+
+// Entries below this confidence are reported but only raise the score floor moderately
+const HIGH_CONFIDENCE = 70;
+
+const CSV_COLUMNS = ['address', 'label', 'category', 'confidence', 'chainId', 'source', 'notes'] as const;
+
+/**
+ * Known-bad address store. Entries come from the lists in REPUTATION_LIST_PATH (CSV or JSON,
+ * comma-separated) and from the /reputation API. Only the API's changes are saved to REPUTATION_STORE_PATH,
+ * so they survive restarts without a deploy while edits to the lists still take effect.
+ */
+export class ReputationStore {
+    private static entries = new Map<string, ReputationEntry>();
+    // Addresses added or updated through the API; only these entries are saved
+    private static fromApi = new Set<string>();
+    // Addresses deleted through the API, so a restart does not bring them back from the static lists
+    private static removed = new Set<string>();
+    private static initialized = false;
+
+    private static ensureInitialized(): void {
+        if (this.initialized) {
+            return;
+        }
+        this.initialized = true;
+
+        const paths = (process.env.REPUTATION_LIST_PATH ?? '').split(',').map((p) => p.trim()).filter(Boolean);
+        for (const listPath of paths) {
+            try {
+                const count = this.importList(fs.readFileSync(listPath, 'utf8'), path.basename(listPath), { persist: false });
+                console.log(`Loaded ${count} reputation entries from ${listPath}`);
+            } catch (error) {
+                console.warn(`Could not load reputation list ${listPath}:`, error);
+            }
+        }
+
+        // Saved API changes are re-applied on top of the freshly loaded lists
+        const storePath = this.storePath();
+        if (storePath && fs.existsSync(storePath)) {
+            try {
+                const saved = JSON.parse(fs.readFileSync(storePath, 'utf8')) as { entries: ReputationEntry[]; removed: string[] };
+                saved.entries.forEach((entry) => {
+                    this.entries.set(entry.address.toLowerCase(), entry);
+                    this.fromApi.add(entry.address.toLowerCase());
+                });
+                saved.removed.forEach((address) => {
+                    this.removed.add(address);
+                    this.entries.delete(address);
+                });
+            } catch (error) {
+                console.warn(`Could not load reputation store ${storePath}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Imports a CSV (header row optional; columns address,label,category,confidence,chainId,source,notes)
+     * or JSON list (array of entries, { addresses: [...] }, or an { address: label } map).
+     * Returns the number of entries added or updated.
+     */
+    static importList(content: string | unknown, source: string, options: { persist?: boolean } = {}): number {
+        this.ensureInitialized();
+
+        let rows: Array<Partial<ReputationInput>>;
+        if (typeof content === 'string') {
+            const trimmed = content.trim();
+            rows = trimmed.startsWith('[') || trimmed.startsWith('{')
+                ? this.rowsFromJson(JSON.parse(trimmed))
+                : this.rowsFromCsv(trimmed);
+        } else {
+            rows = this.rowsFromJson(content);
+        }
+
+        let imported = 0;
+        for (const row of rows) {
+            if (!row.address || !isAddress(row.address)) {
+                continue;
+            }
+            const existing = this.entries.get(row.address.toLowerCase());
+            const confidence = this.normalizeConfidence(row.confidence);
+            // Keep the more confident verdict when lists disagree
+            if (existing && existing.confidence > confidence) {
+                continue;
+            }
+            this.write({
+                address: row.address,
+                label: row.label || 'Reported malicious address',
+                category: row.category,
+                confidence,
+                chainId: row.chainId ? Number(row.chainId) : undefined,
+                source: row.source || source,
+                notes: row.notes
+            }, options.persist !== false);
+            imported++;
+        }
+
+        if (options.persist !== false) {
+            this.save();
+        }
+        return imported;
+    }
+
+    static list(filter: { source?: string; category?: string } = {}): ReputationEntry[] {
+        this.ensureInitialized();
+        return Array.from(this.entries.values()).filter((entry) =>
+            (!filter.source || entry.source === filter.source) &&
+            (!filter.category || entry.category === filter.category)
+        );
+    }
+
+    static get(address: string): ReputationEntry | undefined {
+        this.ensureInitialized();
+        return this.entries.get(address.toLowerCase());
+    }
+
+    /**
+     * Adds or replaces an entry and saves the store
+     */
+    static upsert(input: ReputationInput): ReputationEntry {
+        this.ensureInitialized();
+        if (!isAddress(input.address)) {
+            throw new Error('Invalid address');
+        }
+        const entry = this.write({ ...input, confidence: this.normalizeConfidence(input.confidence) }, true);
+        this.save();
+        return entry;
+    }
+
+    /**
+     * Removes an entry and saves the store. Returns whether it existed.
+     */
+    static remove(address: string): boolean {
+        this.ensureInitialized();
+        const key = address.toLowerCase();
+        const removed = this.entries.delete(key);
+        if (removed) {
+            this.fromApi.delete(key);
+            this.removed.add(key);
+            this.save();
+        }
+        return removed;
+    }
+
+    /**
+     * Looks up the sender, the target, every address in the decoded params, every batched call target
+     * and every EIP-7702 delegate
+     */
+    static checkTransaction(transaction: Pick<DecodedTransaction, 'chainId' | 'from' | 'to' | 'decodedData' | 'callTree' | 'authorizationList'>): ReputationMatch[] {
+        this.ensureInitialized();
+        if (this.entries.size === 0) {
+            return [];
+        }
+
+        const candidates: Array<{ address: string; role: ReputationMatch['role'] }> = [];
+        if (transaction.to) candidates.push({ address: transaction.to, role: 'to' });
+        if (transaction.from) candidates.push({ address: transaction.from, role: 'from' });
+        for (const address of this.collectAddresses(transaction.decodedData?.params)) {
+            candidates.push({ address, role: 'param' });
+        }
+        if (transaction.callTree) {
+            for (const node of BatchDecoder.flatten(transaction.callTree)) {
+                candidates.push({ address: node.target, role: 'call_target' });
+                for (const address of this.collectAddresses(node.params)) {
+                    candidates.push({ address, role: 'param' });
+                }
+            }
+        }
+        for (const authorization of transaction.authorizationList ?? []) {
+            candidates.push({ address: authorization.address, role: 'delegate' });
+        }
+
+        const matches: ReputationMatch[] = [];
+        const seen = new Set<string>();
+        for (const { address, role } of candidates) {
+            const entry = this.entries.get(address.toLowerCase());
+            const key = `${address.toLowerCase()}:${role}`;
+            if (!entry || seen.has(key) || (entry.chainId !== undefined && entry.chainId !== transaction.chainId)) {
+                continue;
+            }
+            seen.add(key);
+            matches.push({ address: entry.address, role, entry });
+        }
+        return matches;
+    }
+
+    /**
+     * Turns reputation matches into rule findings so they share the approval rules' score floor
+     */
+    static toFindings(matches: ReputationMatch[]): RuleFinding[] {
+        return matches.map(({ address, role, entry }) => ({
+            ruleId: 'KNOWN_MALICIOUS_ADDRESS',
+            severity: entry.confidence >= HIGH_CONFIDENCE ? 'high' : 'medium',
+            message: `${this.describeRole(role)} ${address} is flagged as "${entry.label}" by ${entry.source} (confidence ${entry.confidence})`,
+            minimumFraudScore: entry.confidence >= HIGH_CONFIDENCE ? Math.max(90, entry.confidence) : Math.max(40, entry.confidence),
+            spender: role === 'from' ? undefined : address
+        }));
+    }
+
+    private static describeRole(role: ReputationMatch['role']): string {
+        switch (role) {
+            case 'to': return 'Recipient';
+            case 'from': return 'Sender';
+            case 'call_target': return 'Batched call target';
+            case 'delegate': return 'EIP-7702 delegate';
+            default: return 'Address parameter';
+        }
+    }
+
+    private static collectAddresses(value: unknown, found: string[] = [], depth = 0): string[] {
+        if (depth > 6 || value === null || value === undefined) {
+            return found;
+        }
+        if (typeof value === 'string') {
+            if (isAddress(value)) found.push(value);
+        } else if (Array.isArray(value)) {
+            value.forEach((item) => this.collectAddresses(item, found, depth + 1));
+        } else if (typeof value === 'object') {
+            Object.values(value as Record<string, unknown>).forEach((item) => this.collectAddresses(item, found, depth + 1));
+        }
+        return found;
+    }
+
+    /**
+     * Sets an entry; `fromApi` marks it as an API change to save
+     */
+    private static write(input: ReputationInput, fromApi: boolean): ReputationEntry {
+        const key = input.address.toLowerCase();
+        const now = new Date().toISOString();
+        const entry: ReputationEntry = {
+            ...input,
+            address: getAddress(input.address),
+            createdAt: this.entries.get(key)?.createdAt ?? now,
+            updatedAt: now
+        };
+        this.entries.set(key, entry);
+        if (fromApi) {
+            this.fromApi.add(key);
+            this.removed.delete(key);
+        }
+        return entry;
+    }
+
+    private static rowsFromJson(data: any): Array<Partial<ReputationInput>> {
+        if (Array.isArray(data)) {
+            return data.map((item) => typeof item === 'string' ? { address: item } : item);
+        }
+        if (Array.isArray(data?.addresses)) {
+            return this.rowsFromJson(data.addresses);
+        }
+        if (data && typeof data === 'object') {
+            return Object.entries(data).map(([address, label]) =>
+                typeof label === 'object' ? { ...(label as object), address } : { address, label: String(label) });
+        }
+        return [];
+    }
+
+    private static rowsFromCsv(content: string): Array<Partial<ReputationInput>> {
+        const lines = content.split(/\r?\n/).filter((line) => line.trim() && !line.trim().startsWith('#'));
+        if (lines.length === 0) {
+            return [];
+        }
+
+        const first = this.splitCsvLine(lines[0]).map((cell) => cell.toLowerCase());
+        const hasHeader = first.includes('address');
+        const columns = hasHeader ? first : [...CSV_COLUMNS];
+
+        return (hasHeader ? lines.slice(1) : lines).map((line) => {
+            const cells = this.splitCsvLine(line);
+            const row: Record<string, string> = {};
+            columns.forEach((column, i) => {
+                if (cells[i]) row[column === 'chainid' ? 'chainId' : column] = cells[i];
+            });
+            return row as Partial<ReputationInput>;
+        });
+    }
+
+    private static splitCsvLine(line: string): string[] {
+        const cells: string[] = [];
+        let current = '';
+        let quoted = false;
+        for (let i = 0; i < line.length; i++) {
+            const char = line[i];
+            if (char === '"' && quoted && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = !quoted;
+            } else if (char === ',' && !quoted) {
+                cells.push(current.trim());
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        cells.push(current.trim());
+        return cells;
+    }
+
+    private static normalizeConfidence(value: unknown): number {
+        const confidence = Number(value);
+        return Number.isFinite(confidence) ? Math.min(100, Math.max(0, Math.round(confidence))) : 80;
+    }
+
+    /**
+     * REPUTATION_STORE_PATH, defaulting to .cache/reputation.json; set it to an empty string to keep changes in memory only
+     */
+    private static storePath(): string | null {
+        const storePath = process.env.REPUTATION_STORE_PATH ?? path.join(process.cwd(), '.cache', 'reputation.json');
+        return storePath ? storePath : null;
+    }
+
+    private static save(): void {
+        const storePath = this.storePath();
+        if (!storePath) {
+            return;
+        }
+
+        try {
+            fs.mkdirSync(path.dirname(storePath), { recursive: true });
+            const entries = Array.from(this.fromApi).map((key) => this.entries.get(key)).filter((entry) => entry !== undefined);
+            const data = { entries, removed: Array.from(this.removed) };
+            fs.writeFileSync(storePath, JSON.stringify(data, null, 2));
+        } catch (error) {
+            console.warn('Reputation store write failed:', error);
+        }
+    }
+}
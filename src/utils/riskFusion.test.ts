@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { RiskFusion } from './riskFusion';
+import { DomainCheckResult, RiskAssessment, RuleFinding, SimulationResult } from './types';
+
+const CLEAN_SIMULATION: SimulationResult = { success: true, method: 'debug_traceCall', reverted: false, balanceChanges: [], approvals: [] };
+
+function aiVerdict(fraudScore: number) {
+    return { fraudScore, description: 'AI verdict', reasoning: 'reasoning', analysisMode: 'ai' as const };
+}
+
+function unknownDomain(riskScore = 0): DomainCheckResult {
+    return {
+        hostname: 'claim.example',
+        unicodeHostname: 'claim.example',
+        registrableDomain: 'claim.example',
+        isPunycode: false,
+        isLegitimate: false,
+        matches: [],
+        warnings: [],
+        riskScore
+    };
+}
+
+function contributions(assessment: RiskAssessment): number {
+    return assessment.factors.reduce((sum, factor) => sum + factor.contribution, 0);
+}
+
+describe('RiskFusion', () => {
+    afterEach(() => {
+        delete process.env.RISK_WEIGHT_DOMAIN;
+        delete process.env.RISK_THRESHOLD_HIGH;
+    });
+
+    it('does not let clean signals lower a high verdict', () => {
+        const fused = RiskFusion.fuse(aiVerdict(90), {
+            contractInfo: { abiAvailable: true, abiSource: 'etherscan' },
+            simulation: CLEAN_SIMULATION
+        });
+
+        assert.equal(fused.fraudScore, 90);
+        assert.equal(fused.riskLevel, 'high');
+        assert.deepEqual(fused.factors.map((factor) => factor.id), ['AI_VERDICT', 'CONTRACT_VERIFIED', 'SIMULATION_CLEAN']);
+    });
+
+    it('only raises the verdict with weak signals', () => {
+        const fused = RiskFusion.fuse(aiVerdict(95), { domainCheck: unknownDomain() });
+
+        assert.equal(fused.fraudScore, 95);
+    });
+
+    it('raises the verdict by the weighted share of the remaining headroom', () => {
+        const fused = RiskFusion.fuse(aiVerdict(30), { contractInfo: { abiAvailable: false, abiSource: 'none' } });
+
+        // 30 + 70 * 0.5 * 0.4
+        assert.equal(fused.fraudScore, 44);
+        assert.equal(fused.riskLevel, 'medium');
+        assert.ok(Math.abs(contributions(fused) - 44) < 0.5);
+    });
+
+    it('counts each source once, through its strongest signal', () => {
+        const fused = RiskFusion.fuse(aiVerdict(0), {
+            contractInfo: { abiAvailable: false, abiSource: 'none', recentlyUpgraded: true }
+        });
+
+        assert.equal(fused.fraudScore, 20);
+        assert.deepEqual(fused.factors.map((factor) => factor.contribution), [0, 20, 0]);
+    });
+
+    it('applies finding minimums as a floor on top', () => {
+        const finding: RuleFinding = { ruleId: 'UNLIMITED_APPROVAL', severity: 'high', message: 'Unlimited approval', minimumFraudScore: 80 };
+
+        const fused = RiskFusion.fuse(aiVerdict(10), { findings: [finding] });
+
+        assert.equal(fused.fraudScore, 80);
+        assert.equal(fused.factors.at(-1)?.id, 'SCORE_FLOOR');
+        assert.ok(Math.abs(contributions(fused) - 80) < 0.5);
+    });
+
+    it('applies the domain check minimum as a floor on top', () => {
+        const fused = RiskFusion.fuse(aiVerdict(10), { domainCheck: unknownDomain(90) });
+
+        assert.equal(fused.fraudScore, 90);
+        assert.equal(fused.factors.at(-1)?.id, 'SCORE_FLOOR');
+        assert.ok(Math.abs(contributions(fused) - 90) < 0.5);
+    });
+
+    it('reads weights and thresholds from the environment', () => {
+        process.env.RISK_WEIGHT_DOMAIN = '1';
+        process.env.RISK_THRESHOLD_HIGH = '50';
+
+        const fused = RiskFusion.fuse(aiVerdict(40), { domainCheck: unknownDomain(60) });
+
+        // 40 + 60 * 1 * 0.6
+        assert.equal(fused.fraudScore, 76);
+        assert.equal(RiskFusion.riskLevel(55), 'high');
+    });
+
+    it('ignores out-of-range weights', () => {
+        process.env.RISK_WEIGHT_DOMAIN = '3';
+
+        assert.equal(RiskFusion.weights().domain, 0.5);
+    });
+
+    it('returns 100 without weighing anything when the route fails closed', () => {
+        const fused = RiskFusion.fuse({ ...aiVerdict(0), analysisMode: 'fail-closed' }, { domainCheck: unknownDomain() });
+
+        assert.equal(fused.fraudScore, 100);
+        assert.deepEqual(fused.factors.map((factor) => factor.id), ['AI_UNAVAILABLE']);
+    });
+});
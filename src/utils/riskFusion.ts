@@ -0,0 +1,260 @@
+import { AnalysisMode, DomainCheckResult, RiskAssessment, RiskFactor, RiskFactorSource, RuleFinding, RuntimeCodeAnalysis, SimulationResult } from './types';
+
+export interface RiskSignal {
+    id: string;
+    source: RiskFactorSource;
+    score: number; // 0-100
+    evidence: string;
+}
+
+export interface RiskFusionInput {
+    findings?: RuleFinding[]; // deterministic findings; their minimumFraudScore stays a floor
+    contractInfo?: {
+        abiAvailable: boolean;
+        abiSource: string;
+        recentlyUpgraded?: boolean;
+        bytecode?: RuntimeCodeAnalysis;
+    };
+    simulation?: SimulationResult;
+    sender?: string; // whose outflows and approvals in the simulation count
+    domainCheck?: DomainCheckResult; // its riskScore stays a floor
+}
+
+// Sources that raise the verdict; the verdict itself (AI, heuristic or static analysis) is the base
+type WeightedSource = Exclude<RiskFactorSource, 'ai' | 'heuristic'>;
+
+const SOURCES: WeightedSource[] = ['rules', 'reputation', 'verification', 'simulation', 'domain'];
+
+const DEFAULT_WEIGHTS: Record<WeightedSource, number> = {
+    rules: 0.5,
+    reputation: 1,
+    verification: 0.5,
+    simulation: 0.5,
+    domain: 0.5
+};
+
+const DEFAULT_THRESHOLDS = { medium: 40, high: 70 };
+
+/**
+ * Combines the verdict (AI, heuristic or static analysis) with the deterministic signals into one score.
+ * The verdict is the base and each other source, through its strongest signal, can only raise it
+ * (noisy-OR: a signal scoring s with weight w removes s * w percent of the remaining headroom), so a
+ * clean signal never lowers a high verdict. Deterministic floors are applied on top.
+ */
+export class RiskFusion {
+    static fuse(
+        verdict: { fraudScore: number; description: string; reasoning: string; analysisMode?: AnalysisMode },
+        input: RiskFusionInput = {}
+    ): RiskAssessment {
+        if (verdict.analysisMode === 'fail-closed') {
+            return this.failClosed();
+        }
+
+        const base = this.verdictSignal(verdict);
+        const signals = [
+            ...(input.findings ?? []).map((finding) => this.findingSignal(finding)),
+            ...this.verificationSignals(input.contractInfo),
+            ...this.simulationSignals(input.simulation, input.sender),
+            ...this.domainSignals(input.domainCheck)
+        ];
+        const weights = this.weights();
+
+        const strongest = new Map<RiskFactorSource, RiskSignal>();
+        for (const signal of signals) {
+            const current = strongest.get(signal.source);
+            if (!current || signal.score > current.score) {
+                strongest.set(signal.source, signal);
+            }
+        }
+
+        // Each source's contribution is the part of the headroom it takes, in SOURCES order
+        let fused = this.clamp(base.score);
+        const contributions = new Map<RiskSignal, number>();
+        for (const source of SOURCES) {
+            const signal = strongest.get(source);
+            if (signal) {
+                const raised = fused + (100 - fused) * weights[source] * this.clamp(signal.score) / 100;
+                contributions.set(signal, raised - fused);
+                fused = raised;
+            }
+        }
+
+        const factors: RiskFactor[] = [
+            { ...base, weight: 1, contribution: this.round(this.clamp(base.score)) },
+            ...signals.map((signal) => ({
+                ...signal,
+                weight: weights[signal.source as WeightedSource],
+                contribution: this.round(contributions.get(signal) ?? 0)
+            }))
+        ];
+
+        // The difference to the floor is its own factor so the contributions still add up
+        const floor = this.floor(input);
+        if (floor && floor.score > fused) {
+            factors.push({ ...floor, weight: 0, contribution: this.round(floor.score - fused) });
+        }
+
+        const fraudScore = Math.min(100, Math.round(Math.max(fused, floor?.score ?? 0)));
+        return { fraudScore, riskLevel: this.riskLevel(fraudScore), factors };
+    }
+
+    /**
+     * A failed AI call on a fail-closed route is not weighed against anything
+     */
+    static failClosed(): RiskAssessment {
+        return {
+            fraudScore: 100,
+            riskLevel: 'high',
+            factors: [{ id: 'AI_UNAVAILABLE', source: 'ai', weight: 1, score: 100, contribution: 100, evidence: 'AI analysis failed and this route fails closed' }]
+        };
+    }
+
+    /**
+     * Puts a fusion result on an analysis result
+     */
+    static apply<T extends { analysis: { fraudScore: number; riskLevel: 'low' | 'medium' | 'high'; factors?: RiskFactor[] } }>(
+        result: T,
+        fusion: RiskAssessment
+    ): T {
+        return {
+            ...result,
+            analysis: { ...result.analysis, fraudScore: fusion.fraudScore, riskLevel: fusion.riskLevel, factors: fusion.factors }
+        };
+    }
+
+    /**
+     * Risk level from RISK_THRESHOLD_MEDIUM / RISK_THRESHOLD_HIGH (defaults 40 / 70)
+     */
+    static riskLevel(fraudScore: number): 'low' | 'medium' | 'high' {
+        const { medium, high } = this.thresholds();
+        return fraudScore >= high ? 'high' : fraudScore >= medium ? 'medium' : 'low';
+    }
+
+    /**
+     * RISK_WEIGHT_<SOURCE> (e.g. RISK_WEIGHT_DOMAIN=0.8), 0-1; invalid values fall back to the default
+     */
+    static weights(): Record<WeightedSource, number> {
+        const weights = { ...DEFAULT_WEIGHTS };
+        for (const source of SOURCES) {
+            const raw = process.env[`RISK_WEIGHT_${source.toUpperCase()}`];
+            const configured = raw === undefined || raw === '' ? NaN : Number(raw);
+            if (Number.isFinite(configured) && configured >= 0 && configured <= 1) {
+                weights[source] = configured;
+            }
+        }
+        return weights;
+    }
+
+    private static thresholds(): { medium: number; high: number } {
+        const medium = Number(process.env.RISK_THRESHOLD_MEDIUM || DEFAULT_THRESHOLDS.medium);
+        const high = Number(process.env.RISK_THRESHOLD_HIGH || DEFAULT_THRESHOLDS.high);
+        return Number.isFinite(medium) && Number.isFinite(high) && medium > 0 && medium <= high && high <= 100
+            ? { medium, high }
+            : DEFAULT_THRESHOLDS;
+    }
+
+    private static verdictSignal(verdict: { fraudScore: number; description: string; reasoning: string; analysisMode?: AnalysisMode }): RiskSignal {
+        switch (verdict.analysisMode) {
+            case 'ai':
+                return { id: 'AI_VERDICT', source: 'ai', score: verdict.fraudScore, evidence: verdict.description };
+            case 'heuristic':
+                return { id: 'HEURISTIC_SCORE', source: 'heuristic', score: verdict.fraudScore, evidence: verdict.reasoning };
+            case 'fail-open':
+                return { id: 'AI_UNAVAILABLE', source: 'ai', score: verdict.fraudScore, evidence: 'AI analysis failed and this route fails open' };
+            default:
+                // Deterministic branches (plain transfers, deployments) that never ask the AI
+                return { id: 'STATIC_ANALYSIS', source: 'rules', score: verdict.fraudScore, evidence: verdict.reasoning };
+        }
+    }
+
+    private static findingSignal(finding: RuleFinding): RiskSignal {
+        const source: RiskFactorSource = finding.ruleId === 'KNOWN_MALICIOUS_ADDRESS'
+            ? 'reputation'
+            : finding.ruleId.startsWith('RUNTIME_') ? 'verification' : 'rules';
+        return { id: finding.ruleId, source, score: finding.minimumFraudScore, evidence: finding.message };
+    }
+
+    private static verificationSignals(contractInfo?: RiskFusionInput['contractInfo']): RiskSignal[] {
+        if (!contractInfo) {
+            return [];
+        }
+
+        const signals: RiskSignal[] = [contractInfo.abiAvailable
+            ? { id: 'CONTRACT_VERIFIED', source: 'verification', score: 0, evidence: `Target contract has a verified ABI (${contractInfo.abiSource})` }
+            : { id: 'CONTRACT_UNVERIFIED', source: 'verification', score: 40, evidence: 'Target contract has no verified source' }];
+        if (contractInfo.recentlyUpgraded) {
+            signals.push({ id: 'PROXY_RECENTLY_UPGRADED', source: 'verification', score: 40, evidence: 'Proxy implementation was upgraded within the last 30 days' });
+        }
+        return signals;
+    }
+
+    private static simulationSignals(simulation?: SimulationResult, sender?: string): RiskSignal[] {
+        if (!simulation) {
+            return [];
+        }
+        if (simulation.reverted) {
+            return [{ id: 'SIMULATION_REVERTED', source: 'simulation', score: 30, evidence: `Transaction would revert${simulation.revertReason ? `: ${simulation.revertReason}` : ''}` }];
+        }
+        if (!simulation.success) {
+            return [];
+        }
+
+        const own = (address: string) => !sender || address.toLowerCase() === sender.toLowerCase();
+        const signals: RiskSignal[] = simulation.approvals
+            .filter((approval) => own(approval.owner) && approval.approved !== false)
+            .map((approval) => ({
+                id: 'SIMULATION_APPROVAL',
+                source: 'simulation',
+                score: 50,
+                evidence: `${approval.spender} gains an approval over ${approval.token}`
+            }));
+
+        const outflows = simulation.balanceChanges
+            .filter((change) => own(change.address))
+            .flatMap((change) => change.tokens.filter((token) => token.amount.startsWith('-')));
+        if (outflows.length > 0) {
+            signals.push({ id: 'SIMULATION_OUTFLOW', source: 'simulation', score: 20, evidence: `Sender loses ${outflows.length} token balance(s)` });
+        }
+
+        return signals.length > 0
+            ? signals
+            : [{ id: 'SIMULATION_CLEAN', source: 'simulation', score: 0, evidence: 'Simulation shows no approvals or token outflows for the sender' }];
+    }
+
+    private static domainSignals(domainCheck?: DomainCheckResult): RiskSignal[] {
+        if (!domainCheck) {
+            return [];
+        }
+        if (domainCheck.isLegitimate) {
+            return [{ id: 'DOMAIN_LEGITIMATE', source: 'domain', score: 0, evidence: `${domainCheck.registrableDomain} is a known legitimate dApp domain` }];
+        }
+        if (domainCheck.riskScore > 0) {
+            return [{ id: 'DOMAIN_LOOKALIKE', source: 'domain', score: domainCheck.riskScore, evidence: domainCheck.warnings.join('; ') || `${domainCheck.registrableDomain} resembles a known dApp domain` }];
+        }
+        return [{ id: 'DOMAIN_UNKNOWN', source: 'domain', score: 15, evidence: `${domainCheck.registrableDomain} is not a known dApp domain` }];
+    }
+
+    /**
+     * The highest deterministic minimum: rule findings and the domain check
+     */
+    private static floor(input: RiskFusionInput): RiskSignal | undefined {
+        let floor: RiskSignal | undefined;
+        for (const finding of input.findings ?? []) {
+            if (finding.minimumFraudScore > (floor?.score ?? 0)) {
+                floor = { id: 'SCORE_FLOOR', source: this.findingSignal(finding).source, score: finding.minimumFraudScore, evidence: `Raised to the minimum score set by ${finding.ruleId}` };
+            }
+        }
+        if (input.domainCheck && input.domainCheck.riskScore > (floor?.score ?? 0)) {
+            floor = { id: 'SCORE_FLOOR', source: 'domain', score: input.domainCheck.riskScore, evidence: 'Raised to the minimum score set by the domain check' };
+        }
+        return floor;
+    }
+
+    private static clamp(score: number): number {
+        return Math.min(100, Math.max(0, score));
+    }
+
+    private static round(value: number): number {
+        return Math.round(value * 10) / 10;
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Error returned by a JSON-RPC node, keeping the node's code and data (e.g. revert data)
+ */
+export class RpcError extends Error {
+    constructor(message: string, public code?: number, public data?: unknown) {
+        super(message);
+        this.name = 'RpcError';
+    }
+}
+
+/**
+ * Resolves the JSON-RPC node for a chain: RPC_URL_<chainId> first, then RPC_URL.
+ * Point these at an anvil/hardhat fork when running locally.
+ */
+export function getRpcUrl(chainId: number): string | undefined {
+    return process.env[`RPC_URL_${chainId}`] || process.env.RPC_URL || undefined;
+}
+
+let requestId = 0;
+
+/**
+ * Sends a single JSON-RPC request and returns its result
+ */
+export async function rpcRequest<T = unknown>(url: string, method: string, params: unknown[], timeoutMs = 10000): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        const res = await fetch(url, {
+            method: 'POST',
+            signal: controller.signal,
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'Anti-Fraud-BE/1.0.0'
+            },
+            body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params })
+        });
+
+        if (!res.ok) {
+            throw new RpcError(`HTTP ${res.status}: ${res.statusText}`);
+        }
+
+        const body = await res.json() as any;
+
+        if (body.error) {
+            throw new RpcError(body.error.message || 'RPC error', body.error.code, body.error.data);
+        }
+
+        return body.result as T;
+
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
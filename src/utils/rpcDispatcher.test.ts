@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { encodeFunctionData, erc20Abi, keccak256, maxUint256, stringToHex } from 'viem';
+import { RpcDispatcher } from './rpcDispatcher';
+import { AnalysisProgressEvent } from './types';
+
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const SPENDER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+describe('RpcDispatcher.dispatch', () => {
+    it('routes wallet_* requests to the deterministic analyzers', async () => {
+        const result = await RpcDispatcher.dispatch({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x2105' }] });
+
+        assert.equal(result.method, 'wallet_switchEthereumChain');
+        assert.equal(result.analyzed, true);
+        assert.equal(result.walletRequest?.chainId, 8453);
+    });
+
+    it('routes signing requests to the message analyzer', async () => {
+        const result = await RpcDispatcher.dispatch({ method: 'eth_sign', params: [SIGNER, keccak256(stringToHex('opaque'))] });
+
+        assert.equal(result.method, 'eth_sign');
+        assert.equal(result.analyzed, true);
+        assert.equal(result.message?.isBlindHash, true);
+    });
+
+    it('reports invalid params without analyzing', async () => {
+        const missingTx = await RpcDispatcher.dispatch({ method: 'eth_sendTransaction', params: [] });
+        const badRaw = await RpcDispatcher.dispatch({ method: 'eth_sendRawTransaction', params: ['0x1234'] });
+
+        for (const result of [missingTx, badRaw]) {
+            assert.equal(result.success, false);
+            assert.equal(result.analyzed, false);
+            assert.equal(result.analysis.description, 'Invalid request params');
+        }
+    });
+
+    it('passes through methods it does not analyze', async () => {
+        const result = await RpcDispatcher.dispatch({ method: 'eth_chainId', params: [] });
+
+        assert.equal(result.success, true);
+        assert.equal(result.analyzed, false);
+        assert.equal(result.analysis.fraudScore, 0);
+    });
+});
+
+describe('RpcDispatcher.dispatch progress', () => {
+    beforeEach(() => {
+        process.env.LLM_PROVIDER = 'mock';
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'warn', () => undefined);
+    });
+
+    afterEach(() => {
+        delete process.env.LLM_PROVIDER;
+        mock.restoreAll();
+    });
+
+    it('reports each transaction stage before the verdict', async () => {
+        const events: AnalysisProgressEvent[] = [];
+        const data = encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [SPENDER, maxUint256] });
+
+        const result = await RpcDispatcher.dispatch(
+            { method: 'eth_sendTransaction', params: [{ from: SIGNER, to: TOKEN, value: '0x0', data }] },
+            { onProgress: (event) => events.push(event) }
+        );
+
+        assert.deepEqual(events.map((event) => event.stage), ['decoded', 'contract', 'rules']);
+        const [decoded, contract, rules] = events;
+        assert.equal(decoded.stage === 'decoded' && decoded.transaction.transactionType, 'contract_interaction');
+        assert.equal(contract.stage === 'contract' && contract.decodedData?.method, 'approve(address,uint256)');
+        assert.ok(rules.stage === 'rules' && rules.findings.some((finding) => finding.ruleId === 'UNLIMITED_APPROVAL'));
+        assert.ok(rules.stage === 'rules' && rules.preliminary.fraudScore >= 60);
+        assert.equal(result.analyzed, true);
+    });
+});
+
+describe('RpcDispatcher.dispatch typed data', () => {
+    beforeEach(() => {
+        process.env.LLM_PROVIDER = 'mock';
+        mock.method(console, 'log', () => undefined);
+    });
+
+    afterEach(() => {
+        delete process.env.LLM_PROVIDER;
+        mock.restoreAll();
+    });
+
+    it('analyzes legacy eth_signTypedData (v1) requests', async () => {
+        const result = await RpcDispatcher.dispatch({
+            method: 'eth_signTypedData',
+            params: [[{ type: 'string', name: 'Message', value: 'Hi, Alice!' }], SIGNER]
+        });
+
+        assert.equal(result.analyzed, true);
+        assert.equal(result.typedData?.legacy, true);
+        assert.ok(result.analysis.warnings.some((warning) => warning.startsWith('Legacy eth_signTypedData (v1)')));
+    });
+
+    it('reports malformed typed data as not analyzed, with the parse error', async () => {
+        const result = await RpcDispatcher.dispatch({ method: 'eth_signTypedData_v4', params: [SIGNER, '{not json'] });
+
+        assert.equal(result.analyzed, false);
+        assert.ok(result.error);
+        assert.equal(result.analysis.description, 'Invalid typed data request');
+    });
+});
@@ -0,0 +1,194 @@
+import { toHex } from 'viem';
+import { TransactionDecoder } from './txDecoder';
+import { TransactionAnalyzer } from './transactionAnalyzer';
+import { TypedDataAnalyzer } from './typedDataAnalyzer';
+import { MessageAnalyzer } from './messageAnalyzer';
+import { WalletRequestAnalyzer } from './walletRequestAnalyzer';
+import { PolicyEngine, PolicySubject } from './policyEngine';
+import { AnalysisProgressListener, Policy, RpcAnalysisResult } from './types';
+
+export interface RpcRequestPayload {
+    id?: string | number;
+    method?: string;
+    params?: unknown;
+    // Not part of JSON-RPC: context the extension attaches to the wallet request
+    chainId?: string;
+    origin?: string;
+}
+
+export interface DispatchOptions {
+    onProgress?: AnalysisProgressListener; // intermediate stages of transaction analyses
+    policy?: Policy; // organization policy checked against transactions and signature requests
+}
+
+export const SUPPORTED_RPC_METHODS = [
+    'eth_sendTransaction',
+    'eth_sendRawTransaction',
+    'eth_signTypedData',
+    'eth_signTypedData_v3',
+    'eth_signTypedData_v4',
+    'personal_sign',
+    'eth_sign',
+    'wallet_addEthereumChain',
+    'wallet_switchEthereumChain',
+    'wallet_watchAsset',
+    'wallet_requestPermissions'
+];
+
+export class RpcDispatcher {
+    /**
+     * Routes a wallet JSON-RPC request to the analyzer for its method and applies the policy, if any
+     */
+    static async dispatch(payload: RpcRequestPayload, options: DispatchOptions = {}): Promise<RpcAnalysisResult> {
+        // Requests without a method are treated as transactions for backward compatibility
+        const method = payload.method ?? 'eth_sendTransaction';
+        const params = Array.isArray(payload.params) ? payload.params : [];
+
+        const result = await this.analyze(method, params, payload, options.onProgress);
+        const subject = options.policy && result.analyzed ? this.policySubject(payload, params, result) : undefined;
+
+        return subject ? PolicyEngine.apply(result, await PolicyEngine.evaluate(options.policy!, subject)) : result;
+    }
+
+    private static async analyze(method: string, params: unknown[], payload: RpcRequestPayload, onProgress?: AnalysisProgressListener): Promise<RpcAnalysisResult> {
+        switch (method) {
+            case 'eth_sendTransaction': {
+                const tx = params[0] as Parameters<typeof TransactionAnalyzer.analyzeTransactionWithAI>[0] | undefined;
+                if (!tx || typeof tx !== 'object') {
+                    return this.invalidParams(method, 'Missing params[0] transaction object');
+                }
+                const result = await TransactionAnalyzer.analyzeTransactionWithAI({ chainId: payload.chainId, ...tx }, onProgress);
+                return { ...result, method, analyzed: true };
+            }
+
+            case 'eth_sendRawTransaction':
+                return this.analyzeRawTransaction(method, params[0], onProgress);
+
+            case 'eth_signTypedData':
+            case 'eth_signTypedData_v3':
+            case 'eth_signTypedData_v4': {
+                const result = await TypedDataAnalyzer.analyzeTypedDataWithAI({ chainId: payload.chainId, params });
+                return { ...result, method, analyzed: !!result.typedData };
+            }
+
+            case 'personal_sign':
+            case 'eth_sign': {
+                const result = await MessageAnalyzer.analyzeMessageWithAI({ method, params, origin: payload.origin });
+                return { ...result, method, analyzed: !!result.message };
+            }
+
+            case 'wallet_addEthereumChain':
+                return WalletRequestAnalyzer.analyzeAddEthereumChain(params);
+
+            case 'wallet_switchEthereumChain':
+                return WalletRequestAnalyzer.analyzeSwitchEthereumChain(params);
+
+            case 'wallet_watchAsset':
+                return WalletRequestAnalyzer.analyzeWatchAsset(
+                    Array.isArray(payload.params) ? payload.params : (payload.params ?? {}) as Record<string, unknown>,
+                    payload.chainId
+                );
+
+            case 'wallet_requestPermissions':
+                return WalletRequestAnalyzer.analyzeRequestPermissions(params);
+
+            default:
+                return this.notAnalyzed(method);
+        }
+    }
+
+    /**
+     * What policies see of a transaction or signature request; other wallet requests are not subject to policies
+     */
+    private static policySubject(payload: RpcRequestPayload, params: unknown[], result: RpcAnalysisResult): PolicySubject | undefined {
+        if (result.transaction) {
+            const { chainId, to, value, data, callTree, authorizationList } = result.transaction;
+            return { chainId, transaction: { to, value, data, callTree, authorizationList }, result };
+        }
+
+        if (result.method === 'eth_sendTransaction') {
+            const tx = params[0] as { chainId?: string; to?: string; value?: string; data?: `0x${string}`; authorizationList?: unknown[] };
+            const chainId = tx.chainId ?? payload.chainId;
+            const authorizationList = TransactionDecoder.decodeAuthorizationList(tx.authorizationList);
+            return { chainId: chainId ? parseInt(chainId, 16) : 1, transaction: { to: tx.to, value: tx.value, data: tx.data, authorizationList }, result };
+        }
+
+        if (result.typedData) {
+            return { chainId: result.typedData.domain.chainId ?? result.typedData.requestedChainId, typedData: result.typedData, result };
+        }
+
+        if (result.message) {
+            return { chainId: payload.chainId ? parseInt(payload.chainId, 16) : undefined, result };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Decodes a signed raw transaction and runs it through the AI transaction analysis
+     */
+    private static async analyzeRawTransaction(method: string, rawTx: unknown, onProgress?: AnalysisProgressListener): Promise<RpcAnalysisResult> {
+        if (typeof rawTx !== 'string' || !TransactionDecoder.isValidRawTransaction(rawTx)) {
+            return this.invalidParams(method, 'params[0] must be a valid signed raw transaction');
+        }
+
+        const decoded = TransactionDecoder.decodeRawTransaction(rawTx);
+
+        decoded.from = await TransactionDecoder.recoverSender(rawTx);
+        if (decoded.authorizationList) {
+            decoded.authorizationList = await TransactionDecoder.recoverAuthorities(decoded.authorizationList);
+        }
+
+        const result = await TransactionAnalyzer.analyzeTransactionWithAI({
+            chainId: toHex(decoded.chainId),
+            gas: toHex(BigInt(decoded.gas)),
+            value: toHex(BigInt(decoded.value)),
+            from: decoded.from ?? undefined,
+            to: decoded.to ?? undefined,
+            data: decoded.data,
+            type: decoded.type,
+            maxFeePerBlobGas: decoded.maxFeePerBlobGas,
+            blobVersionedHashes: decoded.blobVersionedHashes ? [...decoded.blobVersionedHashes] : undefined,
+            authorizationList: decoded.authorizationList
+        }, onProgress);
+
+        return { ...result, method, analyzed: true, transaction: decoded };
+    }
+
+    private static invalidParams(method: string, error: string): RpcAnalysisResult {
+        return {
+            success: false,
+            method,
+            analyzed: false,
+            analysis: {
+                type: 'unknown',
+                riskLevel: 'high',
+                fraudScore: 100,
+                description: 'Invalid request params',
+                reasoning: error,
+                warnings: ['Request could not be analyzed'],
+                aiConfidence: 0
+            },
+            timestamp: new Date().toISOString(),
+            error
+        };
+    }
+
+    private static notAnalyzed(method: string): RpcAnalysisResult {
+        return {
+            success: true,
+            method,
+            analyzed: false,
+            analysis: {
+                type: 'unknown',
+                riskLevel: 'low',
+                fraudScore: 0,
+                description: 'Not analyzed',
+                reasoning: `${method} is not a method this service analyzes`,
+                warnings: [`${method} was not analyzed`],
+                aiConfidence: 0
+            },
+            timestamp: new Date().toISOString()
+        };
+    }
+}
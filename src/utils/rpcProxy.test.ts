@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { JSON_RPC_ERRORS, JsonRpcErrorObject, JsonRpcId } from './jsonRpc';
+import { PolicyEngine } from './policyEngine';
+import { ProxyVerdict, RpcProxy } from './rpcProxy';
+import { Policy } from './types';
+
+const CHAIN_ID = 31337;
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+// In-process upstream node: records every request and answers like a local dev node
+const upstreamRequests: Array<{ method: string; params: unknown[] }> = [];
+const upstream = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => body += chunk);
+    req.on('end', () => {
+        const { id, method, params } = JSON.parse(body);
+        upstreamRequests.push({ method, params });
+        const answer = method === 'eth_blockNumber' ? { result: '0x10' }
+            : method === 'personal_sign' ? { result: '0x5167' }
+            : { error: { code: JSON_RPC_ERRORS.METHOD_NOT_FOUND, message: `Method ${method} not found` } };
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, ...answer }));
+    });
+});
+
+// Success and error responses in one shape, so tests can read either field
+interface ProxyResponse {
+    jsonrpc: '2.0';
+    id: JsonRpcId;
+    result?: unknown;
+    error?: JsonRpcErrorObject;
+    riskAnalysis?: ProxyVerdict;
+}
+
+function personalSign(id: number) {
+    return { jsonrpc: '2.0', id, method: 'personal_sign', params: ['0x48656c6c6f', SIGNER] };
+}
+
+function mockVerdict(fraudScore: number): void {
+    process.env.LLM_MOCK_RESPONSE = JSON.stringify({
+        riskLevel: fraudScore >= 70 ? 'high' : fraudScore >= 40 ? 'medium' : 'low',
+        fraudScore,
+        description: 'Mock verdict'
+    });
+}
+
+async function handle(body: unknown, policy?: Policy): Promise<ProxyResponse> {
+    return await RpcProxy.handle(CHAIN_ID, body, policy) as ProxyResponse;
+}
+
+describe('RpcProxy.handle', () => {
+    before(async () => {
+        await new Promise<void>((resolve) => upstream.listen(0, '127.0.0.1', resolve));
+    });
+
+    after(async () => {
+        await new Promise((resolve) => upstream.close(resolve));
+    });
+
+    beforeEach(() => {
+        delete process.env.RPC_URL;
+        process.env[`RPC_URL_${CHAIN_ID}`] = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+        process.env.LLM_PROVIDER = 'mock';
+        upstreamRequests.length = 0;
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'warn', () => undefined);
+        mock.method(console, 'error', () => undefined);
+    });
+
+    afterEach(() => {
+        delete process.env[`RPC_URL_${CHAIN_ID}`];
+        delete process.env.LLM_PROVIDER;
+        delete process.env.LLM_MOCK_RESPONSE;
+        delete process.env.LLM_MAX_RETRIES;
+        delete process.env.AI_FAILURE_MODE;
+        mock.restoreAll();
+    });
+
+    it('forwards read methods unchanged', async () => {
+        const response = await handle({ jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [] });
+
+        assert.deepEqual(response, { jsonrpc: '2.0', id: 1, result: '0x10' });
+        assert.deepEqual(upstreamRequests, [{ method: 'eth_blockNumber', params: [] }]);
+    });
+
+    it('relays upstream errors with their code', async () => {
+        const response = await handle({ jsonrpc: '2.0', id: 2, method: 'eth_unknown', params: [] });
+
+        assert.equal(response.error?.code, JSON_RPC_ERRORS.METHOD_NOT_FOUND);
+        assert.equal(response.error?.message, 'Method eth_unknown not found');
+    });
+
+    it('forwards a low-risk signing request without annotation', async () => {
+        mockVerdict(10);
+
+        const response = await handle(personalSign(3));
+
+        assert.equal(response.result, '0x5167');
+        assert.equal(response.riskAnalysis, undefined);
+        assert.deepEqual(upstreamRequests.map((request) => request.method), ['personal_sign']);
+    });
+
+    it('forwards and annotates a medium-risk signing request', async () => {
+        mockVerdict(50);
+
+        const response = await handle(personalSign(4));
+
+        assert.equal(response.result, '0x5167');
+        assert.equal(response.riskAnalysis?.decision, 'annotate');
+        assert.equal(response.riskAnalysis?.fraudScore, 50);
+    });
+
+    it('rejects a high-risk signing request without contacting the upstream', async () => {
+        mockVerdict(90);
+
+        const response = await handle(personalSign(5));
+
+        assert.equal(response.error?.code, JSON_RPC_ERRORS.BLOCKED_BY_POLICY);
+        assert.match(response.error?.message ?? '', /fraud score 90/);
+        assert.equal((response.error?.data as ProxyVerdict).decision, 'block');
+        assert.deepEqual(upstreamRequests, []);
+    });
+
+    it('rejects a request the organization policy blocks', async () => {
+        mockVerdict(30);
+        const [policy] = PolicyEngine.parsePolicies('id: strict\nversion: 1\nrules:\n  - id: score\n    type: max_fraud_score\n    value: 20\n', 'strict.yaml');
+
+        const response = await handle(personalSign(6), policy);
+
+        assert.equal(response.error?.code, JSON_RPC_ERRORS.BLOCKED_BY_POLICY);
+        assert.equal(response.error?.message, 'Request blocked by policy strict: score');
+        assert.deepEqual(upstreamRequests, []);
+    });
+
+    it('fails closed when the analysis is unavailable on a fail-closed route', async () => {
+        process.env.AI_FAILURE_MODE = 'fail-closed';
+        process.env.LLM_MAX_RETRIES = '0';
+        process.env.LLM_MOCK_RESPONSE = JSON.stringify({ description: 42 });
+
+        const response = await handle(personalSign(7));
+
+        assert.equal(response.error?.code, JSON_RPC_ERRORS.ANALYSIS_UNAVAILABLE);
+        assert.equal((response.error?.data as ProxyVerdict).fraudScore, 100);
+        assert.deepEqual(upstreamRequests, []);
+    });
+
+    it('answers batches entry by entry and skips notifications', async () => {
+        mockVerdict(90);
+
+        const responses = await RpcProxy.handle(CHAIN_ID, [
+            { jsonrpc: '2.0', id: 8, method: 'eth_blockNumber', params: [] },
+            personalSign(9),
+            { jsonrpc: '2.0', method: 'eth_blockNumber', params: [] }
+        ]) as ProxyResponse[];
+
+        assert.deepEqual(responses.map((response) => response.id), [8, 9]);
+        assert.equal(responses[0].result, '0x10');
+        assert.equal(responses[1].error?.code, JSON_RPC_ERRORS.BLOCKED_BY_POLICY);
+    });
+
+    it('reports a missing upstream node', async () => {
+        delete process.env[`RPC_URL_${CHAIN_ID}`];
+
+        const response = await handle({ jsonrpc: '2.0', id: 10, method: 'eth_blockNumber', params: [] });
+
+        assert.equal(response.error?.code, JSON_RPC_ERRORS.INTERNAL_ERROR);
+        assert.match(response.error?.message ?? '', /No upstream node configured for chain 31337/);
+    });
+});
@@ -0,0 +1,122 @@
+import { toHex } from 'viem';
+import { getRpcUrl, rpcRequest, RpcError } from './rpc';
+import { RpcDispatcher } from './rpcDispatcher';
+import { JSON_RPC_ERRORS, JsonRpc, JsonRpcId, JsonRpcResponse } from './jsonRpc';
+import { Policy, PolicyEvaluation, RpcAnalysisResult } from './types';
+
+// Methods that move funds or produce signatures; everything else is forwarded untouched
+export const INTERCEPTED_METHODS = [
+    'eth_sendRawTransaction',
+    'eth_sendTransaction',
+    'eth_sign',
+    'personal_sign',
+    'eth_signTypedData',
+    'eth_signTypedData_v3',
+    'eth_signTypedData_v4'
+];
+
+const DEFAULT_BLOCK_THRESHOLD = 70;
+const DEFAULT_ANNOTATE_THRESHOLD = 40;
+
+// Sending a transaction can take longer than a read on busy nodes
+const UPSTREAM_TIMEOUT_MS = 30000;
+
+/**
+ * What the proxy does with an analyzed request:
+ * - forward: below PROXY_ANNOTATE_THRESHOLD, sent upstream as is
+ * - annotate: sent upstream; the response carries the verdict in `riskAnalysis` (also on a policy warning)
+ * - block: at or above PROXY_BLOCK_THRESHOLD, blocked by the policy, or not analyzable on a fail-closed route; rejected with the verdict
+ */
+export type ProxyDecision = 'forward' | 'annotate' | 'block';
+
+export interface ProxyVerdict {
+    decision: ProxyDecision;
+    method: string;
+    fraudScore: number;
+    riskLevel: 'low' | 'medium' | 'high';
+    description: string;
+    warnings: string[];
+    factors?: RpcAnalysisResult['analysis']['factors'];
+    policy?: PolicyEvaluation;
+}
+
+/**
+ * Transparent JSON-RPC proxy: wallets use it as their RPC URL, reads go straight to the upstream node for
+ * the chain (RPC_URL_<chainId> / RPC_URL), transactions and signing requests are analyzed first
+ */
+export class RpcProxy {
+    static async handle(chainId: number, body: unknown, policy?: Policy): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+        const upstream = getRpcUrl(chainId);
+
+        return JsonRpc.handleRequests(body, async (request, id) => {
+            if (typeof request.method !== 'string') {
+                return JsonRpc.error(id, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid Request: method is required');
+            }
+            if (!upstream) {
+                return JsonRpc.error(id, JSON_RPC_ERRORS.INTERNAL_ERROR, `No upstream node configured for chain ${chainId}`);
+            }
+            const params = Array.isArray(request.params) ? request.params : [];
+
+            if (!INTERCEPTED_METHODS.includes(request.method)) {
+                return this.forward(upstream, id, request.method, params);
+            }
+
+            const result = await RpcDispatcher.dispatch({ id: id ?? undefined, method: request.method, params, chainId: toHex(chainId) }, { policy });
+            if (!result.analyzed && result.error) {
+                return JsonRpc.error(id, JSON_RPC_ERRORS.INVALID_PARAMS, result.error);
+            }
+
+            const verdict = this.verdict(result);
+            console.log(`Proxy ${verdict.decision} ${verdict.method} on chain ${chainId}: score ${verdict.fraudScore}`);
+
+            if (verdict.decision === 'block' && verdict.policy?.decision === 'block') {
+                return JsonRpc.error(id, JSON_RPC_ERRORS.BLOCKED_BY_POLICY, `Request blocked by policy ${verdict.policy.policyId}: ${verdict.policy.violatedRules.join(', ')}`, verdict);
+            }
+            if (verdict.decision === 'block') {
+                return result.analysis.analysisMode === 'fail-closed'
+                    ? JsonRpc.error(id, JSON_RPC_ERRORS.ANALYSIS_UNAVAILABLE, 'Request blocked: risk analysis unavailable', verdict)
+                    : JsonRpc.error(id, JSON_RPC_ERRORS.BLOCKED_BY_POLICY, `Request blocked: ${verdict.description} (fraud score ${verdict.fraudScore})`, verdict);
+            }
+
+            const response = await this.forward(upstream, id, request.method, params);
+            return verdict.decision === 'annotate' ? { ...response, riskAnalysis: verdict } : response;
+        });
+    }
+
+    static verdict(result: RpcAnalysisResult): ProxyVerdict {
+        const { blockAt, annotateAt } = this.thresholds();
+        const { fraudScore, riskLevel, description, warnings, factors } = result.analysis;
+        const { policyDecision, policy } = result;
+
+        const decision: ProxyDecision = result.analysis.analysisMode === 'fail-closed' || fraudScore >= blockAt || policyDecision === 'block'
+            ? 'block'
+            : fraudScore >= annotateAt || policyDecision === 'warn' ? 'annotate' : 'forward';
+
+        return { decision, method: result.method, fraudScore, riskLevel, description, warnings, factors, policy };
+    }
+
+    /**
+     * Sends the request upstream and relays the node's result or error object
+     */
+    private static async forward(upstream: string, id: JsonRpcId, method: string, params: unknown[]): Promise<JsonRpcResponse> {
+        try {
+            return { jsonrpc: '2.0', id, result: await rpcRequest(upstream, method, params, UPSTREAM_TIMEOUT_MS) };
+        } catch (error) {
+            if (error instanceof RpcError && error.code !== undefined) {
+                return JsonRpc.error(id, error.code, error.message, error.data);
+            }
+            return JsonRpc.error(id, JSON_RPC_ERRORS.INTERNAL_ERROR, `Upstream node error: ${error instanceof Error ? error.message : 'unknown error'}`);
+        }
+    }
+
+    /**
+     * PROXY_BLOCK_THRESHOLD (default 70) and PROXY_ANNOTATE_THRESHOLD (default 40), on the 0-100 fraud score
+     */
+    private static thresholds(): { blockAt: number; annotateAt: number } {
+        const blockAt = Number(process.env.PROXY_BLOCK_THRESHOLD || DEFAULT_BLOCK_THRESHOLD);
+        const annotateAt = Number(process.env.PROXY_ANNOTATE_THRESHOLD || DEFAULT_ANNOTATE_THRESHOLD);
+        return Number.isFinite(blockAt) && Number.isFinite(annotateAt) && annotateAt <= blockAt
+            ? { blockAt, annotateAt }
+            : { blockAt: DEFAULT_BLOCK_THRESHOLD, annotateAt: DEFAULT_ANNOTATE_THRESHOLD };
+    }
+}
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { encodeFunctionData, parseAbi, toEventSelector, toFunctionSelector } from 'viem';
+import { SelectorDatabase } from './selectorDatabase';
+
+const SPENDER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+describe('SelectorDatabase', () => {
+    beforeEach(() => {
+        mock.method(console, 'log', () => undefined);
+        mock.method(console, 'warn', () => undefined);
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('ships with the common ERC-20/721 signatures', () => {
+        assert.deepEqual(SelectorDatabase.lookupFunction('0xA9059CBB'), ['transfer(address,uint256)']);
+        assert.deepEqual(SelectorDatabase.lookupEvent(toEventSelector('Approval(address,address,uint256)')), ['Approval(address,address,uint256)']);
+    });
+
+    it('imports 4byte pages, ranking older ids first', () => {
+        const added = SelectorDatabase.importDump(JSON.stringify({
+            results: [
+                { id: 900000, hex_signature: '0xa9059cbb', text_signature: 'func_2093253501(bytes)' },
+                { id: 100, hex_signature: '0xa9059cbb', text_signature: 'many_msg_babbage(bytes1)' }
+            ]
+        }), '4byte');
+
+        assert.equal(added, 2);
+        assert.deepEqual(SelectorDatabase.lookupFunction('0xa9059cbb'), [
+            'transfer(address,uint256)',
+            'many_msg_babbage(bytes1)',
+            'func_2093253501(bytes)'
+        ]);
+    });
+
+    it('imports openchain lookups, ranking filtered entries last', () => {
+        SelectorDatabase.importDump({
+            result: {
+                function: {
+                    '0x095ea7b3': [
+                        { name: 'sign_szabo_bytecode(bytes16,uint128)', filtered: true },
+                        { name: 'watch_tg_invmru(uint256,bool)', filtered: false }
+                    ]
+                },
+                event: {}
+            }
+        }, 'openchain');
+
+        assert.deepEqual(SelectorDatabase.lookupFunction('0x095ea7b3'), ['approve(address,uint256)', 'sign_szabo_bytecode(bytes16,uint128)']);
+        assert.deepEqual(SelectorDatabase.lookupFunction('0x0ea90600'), ['watch_tg_invmru(uint256,bool)']);
+    });
+
+    it('imports plain maps and text dumps, skipping malformed signatures', () => {
+        const topic = toEventSelector('Deposited(address,uint256)');
+
+        assert.equal(SelectorDatabase.importDump({ [topic]: ['Deposited(address,uint256)'], '0x12345678': 'not a signature(' }), 1);
+        assert.equal(SelectorDatabase.importDump('42'), 0);
+        assert.equal(SelectorDatabase.importDump({ result: { function: { '0x12345678': [{ filtered: false }, null] } } }), 0);
+        assert.equal(SelectorDatabase.importDump(`${toFunctionSelector('sweep(address)')} sweep(address)\n# comment\n0x12345678,not a signature(`), 1);
+        assert.deepEqual(SelectorDatabase.lookupEvent(topic), ['Deposited(address,uint256)']);
+        assert.deepEqual(SelectorDatabase.lookupFunction(toFunctionSelector('sweep(address)')), ['sweep(address)']);
+    });
+
+    it('keeps only candidates whose decoding re-encodes to the same calldata', () => {
+        SelectorDatabase.importDump('0x095ea7b3 sign_szabo_bytecode(bytes16,uint128)');
+        const data = encodeFunctionData({ abi: parseAbi(['function approve(address,uint256)']), functionName: 'approve', args: [SPENDER, 1000n] });
+
+        const candidates = SelectorDatabase.decodeCalldata(data);
+
+        assert.deepEqual(candidates.map((c) => c.signature), ['approve(address,uint256)']);
+        assert.deepEqual(candidates[0].params, [SPENDER, 1000n]);
+        assert.equal(candidates[0].source, 'builtin');
+    });
+});
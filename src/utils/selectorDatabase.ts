@@ -0,0 +1,250 @@
+import fs from 'fs';
+import { decodeFunctionData, encodeFunctionData, parseAbiItem, toEventSelector, toFunctionSelector } from 'viem';
+import type { AbiFunction } from 'viem';
+import { SelectorCandidate } from './types';
+
+interface StoredSignature {
+    signature: string;
+    source: string;
+    // Lower ranks first: built-ins, then older 4byte ids, spam-filtered entries last
+    rank: number;
+}
+
+// Seed signatures so common calls decode without any imported dump
+const BUILTIN_FUNCTIONS = [
+    'transfer(address,uint256)',
+    'transferFrom(address,address,uint256)',
+    'approve(address,uint256)',
+    'balanceOf(address)',
+    'totalSupply()',
+    'name()',
+    'symbol()',
+    'decimals()',
+    'mint(address,uint256)',
+    'safeTransferFrom(address,address,uint256)',
+    'safeTransferFrom(address,address,uint256,bytes)',
+    'safeTransferFrom(address,address,uint256,uint256,bytes)',
+    'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)',
+    'setApprovalForAll(address,bool)',
+    'increaseAllowance(address,uint256)',
+    'decreaseAllowance(address,uint256)',
+    'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)',
+    'owner()',
+    'renounceOwnership()',
+    'transferOwnership(address)',
+    'withdraw()',
+    'withdraw(uint256)',
+    'deposit()',
+    'mint()',
+    'claim()',
+    'multicall(bytes[])',
+    'upgradeTo(address)',
+    'upgradeToAndCall(address,bytes)'
+];
+
+const BUILTIN_EVENTS = [
+    'Transfer(address,address,uint256)',
+    'Approval(address,address,uint256)',
+    'ApprovalForAll(address,address,bool)',
+    'TransferSingle(address,address,address,uint256,uint256)',
+    'TransferBatch(address,address,address,uint256[],uint256[])',
+    'Upgraded(address)',
+    'OwnershipTransferred(address,address)'
+];
+
+export class SelectorDatabase {
+    private static functions = new Map<string, StoredSignature[]>();
+    private static events = new Map<string, StoredSignature[]>();
+    private static initialized = false;
+
+    /**
+     * Seeds the built-in signatures and imports any dumps listed in SELECTOR_DB_PATH (comma-separated)
+     */
+    private static ensureInitialized(): void {
+        if (this.initialized) {
+            return;
+        }
+        this.initialized = true;
+
+        BUILTIN_FUNCTIONS.forEach((signature) => this.addFunction(signature, 'builtin', 0));
+        BUILTIN_EVENTS.forEach((signature) => this.addEvent(signature, 'builtin', 0));
+
+        const paths = (process.env.SELECTOR_DB_PATH ?? '').split(',').map((p) => p.trim()).filter(Boolean);
+        for (const path of paths) {
+            try {
+                const count = this.importDump(fs.readFileSync(path, 'utf8'), path);
+                console.log(`Loaded ${count} signatures from ${path}`);
+            } catch (error) {
+                console.warn(`Could not load selector database ${path}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Imports a 4byte or openchain dump. Accepts:
+     * - 4byte API pages: { results: [{ id, hex_signature, text_signature }] } or the bare array
+     * - openchain lookups: { result: { function: { "0x..": [{ name, filtered }] }, event: {...} } }
+     * - plain maps: { "0xa9059cbb": ["transfer(address,uint256)"] }
+     * - text: one "<selector> <signature>" (or comma/tab separated) pair per line
+     * Returns the number of signatures added.
+     */
+    static importDump(content: string | unknown, source = 'import'): number {
+        this.ensureInitialized();
+
+        let parsed: unknown = content;
+        if (typeof content === 'string') {
+            try {
+                parsed = JSON.parse(content);
+            } catch {
+                return this.importText(content, source);
+            }
+        }
+
+        let added = 0;
+        const add = (signature: string, rank: number, kind: 'function' | 'event' = 'function') => {
+            const ok = kind === 'event' ? this.addEvent(signature, source, rank) : this.addFunction(signature, source, rank);
+            if (ok) added++;
+        };
+
+        if (!parsed || typeof parsed !== 'object') {
+            return 0;
+        }
+        const data = parsed as Record<string, unknown>;
+        const fourByteRows = Array.isArray(parsed) ? parsed : Array.isArray(data.results) ? data.results : null;
+        const openchain = this.isRecord(data.result) && (this.isRecord(data.result.function) || this.isRecord(data.result.event))
+            ? data.result
+            : null;
+
+        if (fourByteRows) {
+            for (const row of fourByteRows as Array<{ id?: unknown; text_signature?: unknown } | null>) {
+                if (row && typeof row.text_signature === 'string') {
+                    add(row.text_signature, typeof row.id === 'number' ? 1 + row.id / 1e7 : 1);
+                }
+            }
+        } else if (openchain) {
+            for (const kind of ['function', 'event'] as const) {
+                const lookups = this.isRecord(openchain[kind]) ? openchain[kind] : {};
+                for (const entries of Object.values(lookups)) {
+                    for (const entry of Array.isArray(entries) ? entries as Array<{ name?: unknown; filtered?: unknown } | null> : []) {
+                        if (entry && typeof entry.name === 'string') {
+                            add(entry.name, entry.filtered === true ? 10 : 1, kind);
+                        }
+                    }
+                }
+            }
+        } else {
+            for (const [selector, signatures] of Object.entries(data)) {
+                const kind = selector.length === 66 ? 'event' : 'function';
+                for (const signature of Array.isArray(signatures) ? signatures : [signatures]) {
+                    if (typeof signature === 'string') {
+                        add(signature, 1, kind);
+                    }
+                }
+            }
+        }
+
+        return added;
+    }
+
+    /**
+     * Returns ranked candidate signatures for a 4-byte function selector
+     */
+    static lookupFunction(selector: string): string[] {
+        this.ensureInitialized();
+        return (this.functions.get(selector.toLowerCase()) ?? []).map((s) => s.signature);
+    }
+
+    /**
+     * Returns ranked candidate signatures for a 32-byte event topic
+     */
+    static lookupEvent(topic: string): string[] {
+        this.ensureInitialized();
+        return (this.events.get(topic.toLowerCase()) ?? []).map((s) => s.signature);
+    }
+
+    /**
+     * Decodes calldata against every candidate for its selector, keeping only those that
+     * decode and re-encode to the exact same bytes
+     */
+    static decodeCalldata(data: string): SelectorCandidate[] {
+        this.ensureInitialized();
+        const selector = data.slice(0, 10).toLowerCase();
+        const candidates: SelectorCandidate[] = [];
+
+        for (const stored of this.functions.get(selector) ?? []) {
+            try {
+                const abiItem = parseAbiItem(`function ${stored.signature}`) as AbiFunction;
+                const decoded = decodeFunctionData({ abi: [abiItem], data: data as `0x${string}` });
+                const args = (decoded.args ?? []) as unknown[];
+                const reencoded = encodeFunctionData({ abi: [abiItem], functionName: abiItem.name, args });
+                if (reencoded.toLowerCase() !== data.toLowerCase()) {
+                    continue;
+                }
+                candidates.push({ signature: stored.signature, name: abiItem.name, params: args, source: stored.source });
+            } catch {
+                // Candidate does not fit the calldata
+            }
+        }
+
+        return candidates;
+    }
+
+    /**
+     * Number of stored function and event signatures
+     */
+    static size(): { functions: number; events: number } {
+        this.ensureInitialized();
+        const count = (map: Map<string, StoredSignature[]>) =>
+            Array.from(map.values()).reduce((sum, entries) => sum + entries.length, 0);
+        return { functions: count(this.functions), events: count(this.events) };
+    }
+
+    private static importText(content: string, source: string): number {
+        let added = 0;
+        for (const line of content.split(/\r?\n/)) {
+            const match = line.trim().match(/^(0x)?([0-9a-fA-F]{8}|[0-9a-fA-F]{64})[\s,;]+(.+)$/);
+            if (!match) {
+                continue;
+            }
+            const signature = match[3].trim();
+            const ok = match[2].length === 64
+                ? this.addEvent(signature, source, 1)
+                : this.addFunction(signature, source, 1);
+            if (ok) added++;
+        }
+        return added;
+    }
+
+    private static addFunction(signature: string, source: string, rank: number): boolean {
+        try {
+            return this.insert(this.functions, toFunctionSelector(signature), signature, source, rank);
+        } catch {
+            return false;
+        }
+    }
+
+    private static addEvent(signature: string, source: string, rank: number): boolean {
+        try {
+            return this.insert(this.events, toEventSelector(signature), signature, source, rank);
+        } catch {
+            return false;
+        }
+    }
+
+    private static insert(map: Map<string, StoredSignature[]>, key: string, signature: string, source: string, rank: number): boolean {
+        const entries = map.get(key) ?? [];
+        const existing = entries.find((e) => e.signature === signature);
+        if (existing) {
+            existing.rank = Math.min(existing.rank, rank);
+        } else {
+            entries.push({ signature, source, rank });
+        }
+        entries.sort((a, b) => a.rank - b.rank);
+        map.set(key, entries);
+        return !existing;
+    }
+
+    private static isRecord(value: unknown): value is Record<string, unknown> {
+        return !!value && typeof value === 'object' && !Array.isArray(value);
+    }
+}
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { encodeErrorResult, pad, parseAbi, toHex } from 'viem';
+import { TransactionSimulator } from './simulator';
+
+const SENDER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const SPENDER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const APPROVAL_TOPIC = '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925';
+
+const REVERT_DATA = encodeErrorResult({ abi: parseAbi(['error Error(string)']), errorName: 'Error', args: ['insufficient allowance'] });
+
+type Handler = (params: unknown[]) => { result?: unknown; error?: { code: number; message: string; data?: string } };
+
+// In-process JSON-RPC node; each test installs the methods it needs
+let handlers: Record<string, Handler> = {};
+let server: Server;
+
+describe('TransactionSimulator', () => {
+    before(async () => {
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                const { id, method, params } = JSON.parse(body);
+                const handler = handlers[method] ?? (() => ({ error: { code: -32601, message: 'Method not found' } }));
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({ jsonrpc: '2.0', id, ...handler(params) }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        mock.method(console, 'warn', () => undefined);
+        handlers = { eth_getBalance: () => ({ result: toHex(10n ** 21n) }) };
+        process.env.RPC_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.RPC_URL;
+    });
+
+    it('returns undefined when no node is configured', async () => {
+        delete process.env.RPC_URL;
+
+        assert.equal(await TransactionSimulator.simulate({ chainId: 1, from: SENDER, to: TOKEN }), undefined);
+    });
+
+    it('turns a call trace into balance changes and approvals', async () => {
+        handlers.debug_traceCall = () => ({
+            result: {
+                type: 'CALL',
+                from: SENDER,
+                to: TOKEN,
+                value: '0x0',
+                gasUsed: '0x5208',
+                logs: [
+                    { address: TOKEN, topics: [TRANSFER_TOPIC, pad(SENDER), pad(SPENDER)], data: toHex(500n, { size: 32 }) },
+                    { address: TOKEN, topics: [APPROVAL_TOPIC, pad(SENDER), pad(SPENDER)], data: toHex(1000n, { size: 32 }) }
+                ],
+                calls: [{ type: 'CALL', from: TOKEN, to: SPENDER, value: '0x1', error: 'execution reverted' }]
+            }
+        });
+
+        const simulation = await TransactionSimulator.simulate({ chainId: 1, from: SENDER, to: TOKEN, data: '0x' });
+
+        assert.ok(simulation);
+        assert.equal(simulation.method, 'debug_traceCall');
+        assert.equal(simulation.gasUsed, '21000');
+        assert.deepEqual(simulation.balanceChanges.find((c) => c.address === SENDER)?.tokens, [{ token: TOKEN, standard: 'erc20', amount: '-500' }]);
+        assert.equal(simulation.approvals[0].amount, '1000');
+        assert.deepEqual(TransactionSimulator.getWarnings(simulation, SENDER), [
+            `Simulation: you send 500 units of ${TOKEN}`,
+            `Simulation: ${SPENDER} is approved to spend 1000 of ${TOKEN}`
+        ]);
+    });
+
+    it('reports a reverted trace with its decoded reason', async () => {
+        handlers.debug_traceCall = () => ({ result: { type: 'CALL', from: SENDER, to: TOKEN, error: 'execution reverted', output: REVERT_DATA } });
+
+        const simulation = await TransactionSimulator.simulate({ chainId: 1, from: SENDER, to: TOKEN });
+
+        assert.equal(simulation?.reverted, true);
+        assert.equal(simulation?.revertReason, 'insufficient allowance');
+        assert.deepEqual(TransactionSimulator.getWarnings(simulation!, SENDER), ['Transaction would revert: insufficient allowance']);
+    });
+
+    it('falls back to eth_call when the node has no debug API', async () => {
+        handlers.eth_call = () => ({ error: { code: 3, message: 'execution reverted', data: REVERT_DATA } });
+
+        const reverted = await TransactionSimulator.simulate({ chainId: 1, from: SENDER, to: TOKEN });
+
+        assert.equal(reverted?.method, 'eth_call');
+        assert.equal(reverted?.revertReason, 'insufficient allowance');
+
+        handlers.eth_call = () => ({ result: '0x' });
+        const transfer = await TransactionSimulator.simulate({ chainId: 1, from: SENDER, to: SPENDER, value: '1000' });
+
+        assert.equal(transfer?.reverted, false);
+        assert.deepEqual(transfer?.balanceChanges.map((c) => c.native), ['-1000', '1000']);
+    });
+});
+
+describe('TransactionSimulator.decodeRevertReason', () => {
+    it('decodes panics and names unknown custom errors by selector', () => {
+        const panic = encodeErrorResult({ abi: parseAbi(['error Panic(uint256)']), errorName: 'Panic', args: [0x11n] });
+
+        assert.equal(TransactionSimulator.decodeRevertReason(panic), 'Panic(0x11)');
+        assert.equal(TransactionSimulator.decodeRevertReason('0xdeadbeef'), 'Custom error 0xdeadbeef');
+        assert.equal(TransactionSimulator.decodeRevertReason('0x'), undefined);
+    });
+});
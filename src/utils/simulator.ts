@@ -0,0 +1,328 @@
+import { decodeAbiParameters, decodeErrorResult, getAddress, hexToBigInt, parseEther, toHex } from 'viem';
+import { getRpcUrl, rpcRequest, RpcError } from './rpc';
+import { BalanceChange, SimulatedApproval, SimulationResult, TokenBalanceChange } from './types';
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const APPROVAL_TOPIC = '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925';
+const APPROVAL_FOR_ALL_TOPIC = '0x17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31';
+const TRANSFER_SINGLE_TOPIC = '0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62';
+const TRANSFER_BATCH_TOPIC = '0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb';
+
+export interface SimulationRequest {
+    chainId: number;
+    from?: string;
+    to?: string | null;
+    value?: string;
+    data?: string;
+    gas?: string;
+}
+
+interface CallFrame {
+    type: string;
+    from: string;
+    to?: string;
+    value?: string;
+    gasUsed?: string;
+    output?: string;
+    error?: string;
+    revertReason?: string;
+    calls?: CallFrame[];
+    logs?: Array<{ address: string; topics: string[]; data: string }>;
+}
+
+export class TransactionSimulator {
+    /**
+     * Simulates a transaction against the configured node for its chain.
+     * Returns undefined when no node is configured (see getRpcUrl).
+     */
+    static async simulate(request: SimulationRequest): Promise<SimulationResult | undefined> {
+        const url = getRpcUrl(request.chainId);
+        if (!url) {
+            return undefined;
+        }
+
+        const value = this.toBigInt(request.value);
+        const callObject: Record<string, string> = {
+            data: request.data || '0x',
+            value: toHex(value)
+        };
+        if (request.from) callObject.from = request.from;
+        if (request.to) callObject.to = request.to;
+        if (request.gas) callObject.gas = toHex(this.toBigInt(request.gas));
+
+        const stateOverrides = await this.getStateOverrides(url, request.from, value);
+
+        try {
+            const trace = await rpcRequest<CallFrame>(url, 'debug_traceCall', [
+                callObject,
+                'latest',
+                { tracer: 'callTracer', tracerConfig: { withLog: true }, stateOverrides }
+            ], 20000);
+
+            return this.fromTrace(trace);
+
+        } catch (error) {
+            console.warn('debug_traceCall failed, falling back to eth_call:', error instanceof Error ? error.message : error);
+        }
+
+        try {
+            await rpcRequest(url, 'eth_call', [callObject, 'latest', stateOverrides]);
+            return {
+                success: true,
+                method: 'eth_call',
+                reverted: false,
+                balanceChanges: this.nativeOnlyChanges(request.from, request.to, value),
+                approvals: []
+            };
+
+        } catch (error) {
+            if (error instanceof RpcError && error.code !== undefined && /revert/i.test(error.message)) {
+                return {
+                    success: true,
+                    method: 'eth_call',
+                    reverted: true,
+                    revertReason: this.decodeRevertReason(typeof error.data === 'string' ? error.data : undefined) ?? error.message,
+                    balanceChanges: [],
+                    approvals: []
+                };
+            }
+
+            return {
+                success: false,
+                method: 'eth_call',
+                reverted: false,
+                balanceChanges: [],
+                approvals: [],
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Human-readable warnings derived from a simulation, from the sender's point of view
+     */
+    static getWarnings(simulation: SimulationResult, sender?: string): string[] {
+        const warnings: string[] = [];
+
+        if (simulation.reverted) {
+            warnings.push(`Transaction would revert${simulation.revertReason ? `: ${simulation.revertReason}` : ''}`);
+            return warnings;
+        }
+
+        const own = sender ? simulation.balanceChanges.find((c) => c.address.toLowerCase() === sender.toLowerCase()) : undefined;
+        if (own) {
+            for (const token of own.tokens) {
+                if (token.amount.startsWith('-')) {
+                    warnings.push(token.standard === 'erc20'
+                        ? `Simulation: you send ${token.amount.slice(1)} units of ${token.token}`
+                        : `Simulation: you send ${token.standard.toUpperCase()} ${token.token} #${token.tokenId}`);
+                }
+            }
+        }
+
+        for (const approval of simulation.approvals) {
+            if (sender && approval.owner.toLowerCase() !== sender.toLowerCase()) {
+                continue;
+            }
+            warnings.push(approval.approved !== undefined
+                ? `Simulation: ${approval.spender} ${approval.approved ? 'gains' : 'loses'} operator rights over ${approval.token}`
+                : `Simulation: ${approval.spender} is approved to spend ${approval.amount ?? approval.tokenId} of ${approval.token}`);
+        }
+
+        return warnings;
+    }
+
+    /**
+     * Makes sure the sender can afford the value so the simulation does not fail on funds alone
+     */
+    private static async getStateOverrides(url: string, from: string | undefined, value: bigint): Promise<Record<string, { balance: string }>> {
+        if (!from) {
+            return {};
+        }
+
+        try {
+            const balance = hexToBigInt(await rpcRequest<`0x${string}`>(url, 'eth_getBalance', [from, 'latest']));
+            if (balance >= value + parseEther('1')) {
+                return {};
+            }
+        } catch (error) {
+            console.warn('Balance lookup failed:', error instanceof Error ? error.message : error);
+        }
+
+        return { [from]: { balance: toHex(value + parseEther('1000')) } };
+    }
+
+    private static fromTrace(trace: CallFrame): SimulationResult {
+        if (trace.error) {
+            return {
+                success: true,
+                method: 'debug_traceCall',
+                reverted: true,
+                revertReason: trace.revertReason ?? this.decodeRevertReason(trace.output) ?? trace.error,
+                gasUsed: trace.gasUsed ? hexToBigInt(trace.gasUsed as `0x${string}`).toString() : undefined,
+                balanceChanges: [],
+                approvals: []
+            };
+        }
+
+        const changes = new Map<string, { native: bigint; tokens: Map<string, TokenBalanceChange> }>();
+        const approvals: SimulatedApproval[] = [];
+
+        const entry = (address: string) => {
+            const key = getAddress(address);
+            if (!changes.has(key)) {
+                changes.set(key, { native: 0n, tokens: new Map() });
+            }
+            return changes.get(key)!;
+        };
+
+        const addToken = (holder: string, change: Omit<TokenBalanceChange, 'amount'>, amount: bigint) => {
+            const tokens = entry(holder).tokens;
+            const key = `${change.token}:${change.tokenId ?? ''}`;
+            const current = tokens.get(key);
+            const total = (current ? BigInt(current.amount) : 0n) + amount;
+            tokens.set(key, { ...change, amount: total.toString() });
+        };
+
+        const walk = (frame: CallFrame) => {
+            // Reverted sub-calls leave no trace in state
+            if (frame.error) {
+                return;
+            }
+
+            const value = frame.value ? hexToBigInt(frame.value as `0x${string}`) : 0n;
+            if (value > 0n && frame.to && ['CALL', 'CREATE', 'CREATE2'].includes(frame.type)) {
+                entry(frame.from).native -= value;
+                entry(frame.to).native += value;
+            }
+
+            for (const log of frame.logs ?? []) {
+                this.applyLog(log, addToken, approvals);
+            }
+
+            for (const call of frame.calls ?? []) {
+                walk(call);
+            }
+        };
+
+        walk(trace);
+
+        const balanceChanges: BalanceChange[] = Array.from(changes.entries())
+            .map(([address, change]) => ({
+                address,
+                native: change.native.toString(),
+                tokens: Array.from(change.tokens.values()).filter((t) => t.amount !== '0')
+            }))
+            .filter((c) => c.native !== '0' || c.tokens.length > 0);
+
+        return {
+            success: true,
+            method: 'debug_traceCall',
+            reverted: false,
+            gasUsed: trace.gasUsed ? hexToBigInt(trace.gasUsed as `0x${string}`).toString() : undefined,
+            balanceChanges,
+            approvals
+        };
+    }
+
+    /**
+     * Decodes ERC-20/721/1155 Transfer and Approval logs into balance changes and approvals
+     */
+    private static applyLog(
+        log: { address: string; topics: string[]; data: string },
+        addToken: (holder: string, change: Omit<TokenBalanceChange, 'amount'>, amount: bigint) => void,
+        approvals: SimulatedApproval[]
+    ): void {
+        const token = getAddress(log.address);
+        const [topic0, ...indexed] = log.topics;
+        const topicAddress = (topic: string) => getAddress(`0x${topic.slice(26)}`);
+        const data = (log.data || '0x') as `0x${string}`;
+
+        try {
+            switch (topic0) {
+                case TRANSFER_TOPIC: {
+                    if (indexed.length === 2) {
+                        const amount = hexToBigInt(data);
+                        addToken(topicAddress(indexed[0]), { token, standard: 'erc20' }, -amount);
+                        addToken(topicAddress(indexed[1]), { token, standard: 'erc20' }, amount);
+                    } else if (indexed.length === 3) {
+                        const tokenId = hexToBigInt(indexed[2] as `0x${string}`).toString();
+                        addToken(topicAddress(indexed[0]), { token, standard: 'erc721', tokenId }, -1n);
+                        addToken(topicAddress(indexed[1]), { token, standard: 'erc721', tokenId }, 1n);
+                    }
+                    break;
+                }
+                case TRANSFER_SINGLE_TOPIC: {
+                    const [id, amount] = decodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }], data);
+                    const change = { token, standard: 'erc1155' as const, tokenId: id.toString() };
+                    addToken(topicAddress(indexed[1]), change, -amount);
+                    addToken(topicAddress(indexed[2]), change, amount);
+                    break;
+                }
+                case TRANSFER_BATCH_TOPIC: {
+                    const [ids, amounts] = decodeAbiParameters([{ type: 'uint256[]' }, { type: 'uint256[]' }], data);
+                    ids.forEach((id, i) => {
+                        const change = { token, standard: 'erc1155' as const, tokenId: id.toString() };
+                        addToken(topicAddress(indexed[1]), change, -amounts[i]);
+                        addToken(topicAddress(indexed[2]), change, amounts[i]);
+                    });
+                    break;
+                }
+                case APPROVAL_TOPIC: {
+                    if (indexed.length === 2) {
+                        approvals.push({ token, standard: 'erc20', owner: topicAddress(indexed[0]), spender: topicAddress(indexed[1]), amount: hexToBigInt(data).toString() });
+                    } else if (indexed.length === 3) {
+                        approvals.push({ token, standard: 'erc721', owner: topicAddress(indexed[0]), spender: topicAddress(indexed[1]), tokenId: hexToBigInt(indexed[2] as `0x${string}`).toString() });
+                    }
+                    break;
+                }
+                case APPROVAL_FOR_ALL_TOPIC: {
+                    approvals.push({ token, standard: 'erc721', owner: topicAddress(indexed[0]), spender: topicAddress(indexed[1]), approved: hexToBigInt(data) !== 0n });
+                    break;
+                }
+            }
+        } catch (error) {
+            console.warn('Could not decode log:', error);
+        }
+    }
+
+    private static nativeOnlyChanges(from: string | undefined, to: string | null | undefined, value: bigint): BalanceChange[] {
+        if (!from || !to || value === 0n) {
+            return [];
+        }
+        return [
+            { address: getAddress(from), native: (-value).toString(), tokens: [] },
+            { address: getAddress(to), native: value.toString(), tokens: [] }
+        ];
+    }
+
+    /**
+     * Decodes Error(string), Panic(uint256) or reports the custom error selector
+     */
+    static decodeRevertReason(data?: string): string | undefined {
+        if (!data || data === '0x') {
+            return undefined;
+        }
+
+        try {
+            const decoded = decodeErrorResult({ abi: [], data: data as `0x${string}` });
+            if (decoded.errorName === 'Error') {
+                return String(decoded.args?.[0]);
+            }
+            if (decoded.errorName === 'Panic') {
+                return `Panic(0x${BigInt(decoded.args?.[0] as bigint).toString(16)})`;
+            }
+            return decoded.errorName;
+        } catch {
+            return `Custom error ${data.slice(0, 10)}`;
+        }
+    }
+
+    private static toBigInt(value?: string): bigint {
+        try {
+            return value ? BigInt(value) : 0n;
+        } catch {
+            return 0n;
+        }
+    }
+}
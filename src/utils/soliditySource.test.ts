@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SoliditySource } from './soliditySource';
+
+const TOKEN = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./Ownable.sol";
+
+contract Token is Ownable {
+    mapping(address => uint256) public balances;
+    uint256 public totalSupply;
+    address private feeCollector; // "fee { collector }"
+
+    function transfer(address to, uint256 amount) external whenNotPaused returns (bool) {
+        _move(msg.sender, to, amount);
+        return true;
+    }
+
+    function transfer(address to, uint256 amount, bytes calldata data) external returns (bool) {
+        _move(msg.sender, to, amount);
+        return data.length > 0;
+    }
+
+    function _move(address from, address to, uint256 amount) internal {
+        uint256 fee = _fee(amount);
+        balances[from] -= amount;
+        balances[to] += amount - fee;
+        balances[feeCollector] += fee;
+    }
+
+    function _fee(uint256 amount) internal pure returns (uint256) {
+        return amount / 100;
+    }
+
+    function mint(address to, uint256 amount) external onlyOwner {
+        totalSupply += amount;
+        balances[to] += amount;
+    }
+}
+`;
+
+const OWNABLE = `pragma solidity ^0.8.20;
+
+abstract contract Ownable {
+    address public owner;
+    bool public paused;
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "not owner");
+        _;
+    }
+
+    modifier whenNotPaused() {
+        require(!paused);
+        _;
+    }
+}
+`;
+
+// Etherscan wraps standard JSON input in an extra pair of braces
+const STANDARD_JSON = `{${JSON.stringify({
+    language: 'Solidity',
+    sources: {
+        'contracts/Token.sol': { content: TOKEN },
+        'contracts/Ownable.sol': { content: OWNABLE }
+    }
+})}}`;
+
+describe('SoliditySource.parse', () => {
+    it('splits standard JSON input and multi-file JSON into files', () => {
+        const multiFile = JSON.stringify({ 'Token.sol': { content: TOKEN }, 'Ownable.sol': { content: OWNABLE } });
+
+        assert.deepEqual(SoliditySource.parse(STANDARD_JSON).map((file) => file.path), ['contracts/Token.sol', 'contracts/Ownable.sol']);
+        assert.deepEqual(SoliditySource.parse(multiFile).map((file) => file.path), ['Token.sol', 'Ownable.sol']);
+    });
+
+    it('treats anything else as a single file', () => {
+        assert.deepEqual(SoliditySource.parse(TOKEN), [{ path: 'Contract.sol', content: TOKEN }]);
+        assert.deepEqual(SoliditySource.parse('{ not json'), [{ path: 'Contract.sol', content: '{ not json' }]);
+        assert.deepEqual(SoliditySource.parse('  '), []);
+    });
+});
+
+describe('SoliditySource.flatten', () => {
+    it('joins files with path headers and truncates to the budget', () => {
+        const { text } = SoliditySource.flatten(STANDARD_JSON);
+        const short = SoliditySource.flatten(TOKEN, 100);
+
+        assert.ok(text.startsWith('// File: contracts/Token.sol\n'));
+        assert.ok(text.includes('// File: contracts/Ownable.sol\n'));
+        assert.equal(short.truncated, true);
+        assert.match(short.text, /\/\/ \.\.\. truncated \(\d+ more characters\)$/);
+    });
+});
+
+describe('SoliditySource.extractRelevant', () => {
+    it('collects overloads, modifiers, internal calls and state variables across files', () => {
+        const excerpt = SoliditySource.extractRelevant(STANDARD_JSON, 'transfer');
+        const names = excerpt?.snippets.map((snippet) => `${snippet.kind} ${snippet.name}`);
+
+        assert.equal(excerpt?.files, 2);
+        assert.equal(excerpt?.truncated, false);
+        assert.deepEqual(names, [
+            'function transfer',
+            'function transfer',
+            'modifier whenNotPaused',
+            'state_variable paused',
+            'state_variable balances',
+            'state_variable feeCollector',
+            'function _move',
+            'function _fee'
+        ]);
+        assert.deepEqual(excerpt?.snippets[0], {
+            kind: 'function',
+            name: 'transfer',
+            contract: 'Token',
+            path: 'contracts/Token.sol',
+            startLine: 11,
+            endLine: 14
+        });
+        assert.ok(excerpt?.text.startsWith('// contracts/Token.sol:11-14 (Token, function transfer)\n    function transfer('));
+        assert.ok(!excerpt?.text.includes('function mint'));
+        assert.ok(!excerpt?.text.includes('totalSupply'));
+    });
+
+    it('drops the least relevant snippets to fit the budget', () => {
+        const excerpt = SoliditySource.extractRelevant(TOKEN, 'mint', 300);
+
+        assert.equal(excerpt?.truncated, true);
+        assert.equal(excerpt?.snippets[0].name, 'mint');
+        assert.ok(excerpt!.text.length <= 300);
+    });
+
+    it('returns null for unknown or undecoded methods', () => {
+        assert.equal(SoliditySource.extractRelevant(TOKEN, 'burn'), null);
+        assert.equal(SoliditySource.extractRelevant(TOKEN, 'unknown_0xdeadbeef'), null);
+        assert.equal(SoliditySource.extractRelevant(TOKEN, undefined), null);
+    });
+});
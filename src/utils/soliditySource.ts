@@ -0,0 +1,317 @@
+import { SourceExcerpt, SourceSnippet } from './types';
+
+export interface SourceFile {
+    path: string;
+    content: string;
+}
+
+interface Definition {
+    kind: SourceSnippet['kind'];
+    name: string;
+    contract: string;
+    file: SourceFile;
+    start: number; // offsets into file.content
+    end: number;
+    headerEnd: number; // end of the signature (start of the body, or the end for declarations)
+    hasBody: boolean;
+}
+
+interface ParsedSource {
+    files: SourceFile[];
+    definitions: Definition[];
+    masked: Map<SourceFile, string>;
+}
+
+// Default character budget for source code in the AI prompt
+const DEFAULT_MAX_CHARS = 40000;
+
+// How many levels of internal calls are followed from the called function
+const MAX_CALL_DEPTH = 2;
+
+// Overloads and same-named functions in other contracts included per name
+const MAX_DEFINITIONS_PER_NAME = 3;
+
+const NON_STATE_KEYWORDS = /^(function|modifier|event|error|using|struct|enum|constructor|fallback|receive|type)\b/;
+
+/**
+ * Parses Etherscan `SourceCode` (single file, multi-file JSON or `{{...}}` standard JSON input)
+ * and extracts the code relevant to one call for the AI prompt
+ */
+export class SoliditySource {
+    /**
+     * Splits Etherscan's SourceCode field into files
+     */
+    static parse(sourceCode: string): SourceFile[] {
+        const trimmed = sourceCode.trim();
+        if (!trimmed) {
+            return [];
+        }
+
+        if (trimmed.startsWith('{')) {
+            // Standard JSON input is wrapped in an extra pair of braces
+            const json = trimmed.startsWith('{{') && trimmed.endsWith('}}') ? trimmed.slice(1, -1) : trimmed;
+            try {
+                const parsed = JSON.parse(json) as { sources?: Record<string, { content?: string }> } & Record<string, { content?: string }>;
+                const sources = parsed.sources ?? parsed;
+                const files = Object.entries(sources)
+                    .filter(([, source]) => typeof source?.content === 'string')
+                    .map(([path, source]) => ({ path, content: source.content! }));
+                if (files.length > 0) {
+                    return files;
+                }
+            } catch {
+                // Not JSON after all: treat it as a single Solidity file
+            }
+        }
+
+        return [{ path: 'Contract.sol', content: sourceCode }];
+    }
+
+    /**
+     * Source as plain text for the prompt: files joined with path headers and cut to maxChars
+     */
+    static flatten(sourceCode: string, maxChars = this.maxChars()): { text: string; truncated: boolean } {
+        const files = this.parse(sourceCode);
+        const text = files.length === 1 && files[0].path === 'Contract.sol'
+            ? files[0].content
+            : files.map((file) => `// File: ${file.path}\n${file.content}`).join('\n\n');
+        return text.length > maxChars
+            ? { text: `${text.slice(0, maxChars)}\n// ... truncated (${text.length - maxChars} more characters)`, truncated: true }
+            : { text, truncated: false };
+    }
+
+    /**
+     * Code relevant to a call of `method`: its implementations, their modifiers, the internal functions they
+     * call (MAX_CALL_DEPTH levels) and the state variables they use. Returns null when the method is not found.
+     */
+    static extractRelevant(sourceCode: string, method: string | undefined, maxChars = this.maxChars()): SourceExcerpt | null {
+        if (!method || method.startsWith('unknown_')) {
+            return null;
+        }
+
+        const source = this.index(sourceCode);
+        const byName = (kind: Definition['kind'], name: string) => source.definitions
+            .filter((d) => d.kind === kind && d.name === name && (d.hasBody || kind === 'state_variable'))
+            .slice(0, MAX_DEFINITIONS_PER_NAME);
+
+        const targets = byName('function', method);
+        if (targets.length === 0) {
+            return null;
+        }
+
+        const included = new Set<Definition>(targets);
+        const modifierNames = new Set(source.definitions.filter((d) => d.kind === 'modifier').map((d) => d.name));
+        const functionNames = new Set(source.definitions.filter((d) => d.kind === 'function' && d.hasBody).map((d) => d.name));
+        const stateNames = new Set(source.definitions.filter((d) => d.kind === 'state_variable').map((d) => d.name));
+
+        // Modifiers and internal calls, breadth-first from the called function
+        let frontier = targets;
+        for (let depth = 0; depth <= MAX_CALL_DEPTH && frontier.length > 0; depth++) {
+            const next: Definition[] = [];
+            for (const definition of frontier) {
+                const masked = source.masked.get(definition.file)!;
+                const header = masked.slice(definition.start, definition.headerEnd);
+                const body = masked.slice(definition.headerEnd, definition.end);
+
+                const referenced = [
+                    ...this.identifiers(header).filter((name) => modifierNames.has(name)).flatMap((name) => byName('modifier', name)),
+                    ...(depth < MAX_CALL_DEPTH
+                        ? this.calledNames(body).filter((name) => functionNames.has(name)).flatMap((name) => byName('function', name))
+                        : [])
+                ];
+                for (const candidate of referenced) {
+                    if (!included.has(candidate)) {
+                        included.add(candidate);
+                        next.push(candidate);
+                    }
+                }
+            }
+            frontier = next;
+        }
+
+        // State variables read or written by anything included
+        const code = Array.from(included).map((d) => source.masked.get(d.file)!.slice(d.start, d.end)).join('\n');
+        for (const name of new Set(this.identifiers(code))) {
+            if (stateNames.has(name)) {
+                byName('state_variable', name).forEach((d) => included.add(d));
+            }
+        }
+
+        // Most relevant first, so the budget drops internal helpers before the called function
+        const priority = (d: Definition) => targets.includes(d) ? 0 : d.kind === 'modifier' ? 1 : d.kind === 'state_variable' ? 2 : 3;
+        const snippets = Array.from(included)
+            .sort((a, b) => priority(a) - priority(b))
+            .map((d) => this.toSnippet(d));
+
+        let text = '';
+        const emitted: SourceSnippet[] = [];
+        for (const { code, ...location } of snippets) {
+            const block = `// ${location.path}:${location.startLine}-${location.endLine} (${location.contract}, ${location.kind.replace('_', ' ')} ${location.name})\n${code}\n\n`;
+            if (text.length + block.length > maxChars) {
+                break;
+            }
+            text += block;
+            emitted.push(location);
+        }
+
+        return {
+            method,
+            files: source.files.length,
+            snippets: emitted,
+            text: text.trimEnd(),
+            truncated: emitted.length < snippets.length
+        };
+    }
+
+    private static maxChars(): number {
+        const configured = Number(process.env.SOURCE_PROMPT_MAX_CHARS);
+        return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_CHARS;
+    }
+
+    private static toSnippet(definition: Definition): SourceSnippet & { code: string } {
+        const content = definition.file.content;
+        // Extend to whole lines so indentation and trailing comments stay intact
+        const start = content.lastIndexOf('\n', definition.start - 1) + 1;
+        const newline = content.indexOf('\n', definition.end);
+        const end = newline === -1 ? content.length : newline;
+
+        return {
+            kind: definition.kind,
+            name: definition.name,
+            contract: definition.contract,
+            path: definition.file.path,
+            startLine: this.lineAt(content, start),
+            endLine: this.lineAt(content, end),
+            code: content.slice(start, end)
+        };
+    }
+
+    private static lineAt(content: string, offset: number): number {
+        let line = 1;
+        for (let i = 0; i < offset && i < content.length; i++) {
+            if (content[i] === '\n') line++;
+        }
+        return line;
+    }
+
+    private static index(sourceCode: string): ParsedSource {
+        const files = this.parse(sourceCode);
+        const definitions: Definition[] = [];
+        const masked = new Map<SourceFile, string>();
+
+        for (const file of files) {
+            const text = this.mask(file.content);
+            masked.set(file, text);
+
+            const contractPattern = /\b(?:abstract\s+contract|contract|library|interface)\s+(\w+)[^{;]*\{/g;
+            for (const match of text.matchAll(contractPattern)) {
+                const bodyStart = match.index! + match[0].length;
+                const bodyEnd = this.matchingBrace(text, bodyStart - 1);
+                definitions.push(...this.members(file, text, match[1], bodyStart, bodyEnd));
+            }
+        }
+
+        return { files, definitions, masked };
+    }
+
+    /**
+     * Top-level members of a contract body: functions and modifiers (with their bodies) and state variables
+     */
+    private static members(file: SourceFile, text: string, contract: string, bodyStart: number, bodyEnd: number): Definition[] {
+        const definitions: Definition[] = [];
+        let statementStart = bodyStart;
+        let parens = 0;
+
+        for (let i = bodyStart; i < bodyEnd; i++) {
+            const char = text[i];
+            if (char === '(') parens++;
+            else if (char === ')') parens--;
+            else if (parens === 0 && (char === '{' || char === ';')) {
+                const statement = text.slice(statementStart, i).trim();
+                const offset = statementStart + text.slice(statementStart, i).search(/\S/);
+                const blockEnd = char === '{' ? this.matchingBrace(text, i) : i;
+                const member = /^(function|modifier)\s+(\w+)/.exec(statement);
+
+                if (member) {
+                    definitions.push({
+                        kind: member[1] as 'function' | 'modifier',
+                        name: member[2],
+                        contract,
+                        file,
+                        start: offset,
+                        end: blockEnd + 1,
+                        headerEnd: i,
+                        hasBody: char === '{'
+                    });
+                } else if (char === ';' && statement && !NON_STATE_KEYWORDS.test(statement)) {
+                    // `mapping(address => uint256) public balances = ...;` -> balances
+                    const name = /(\w+)\s*(?:=(?!>)[\s\S]*)?$/.exec(statement)?.[1];
+                    if (name) {
+                        definitions.push({ kind: 'state_variable', name, contract, file, start: offset, end: i + 1, headerEnd: i + 1, hasBody: false });
+                    }
+                }
+
+                i = blockEnd;
+                statementStart = blockEnd + 1;
+            }
+        }
+
+        return definitions;
+    }
+
+    /**
+     * Replaces comments and string literals with spaces (keeping offsets and newlines) so braces and names inside them are ignored
+     */
+    private static mask(content: string): string {
+        const out = content.split('');
+        let i = 0;
+        const blank = (from: number, to: number) => {
+            for (let j = from; j < to && j < out.length; j++) {
+                if (out[j] !== '\n') out[j] = ' ';
+            }
+        };
+
+        while (i < content.length) {
+            if (content.startsWith('//', i)) {
+                const end = content.indexOf('\n', i);
+                const stop = end === -1 ? content.length : end;
+                blank(i, stop);
+                i = stop;
+            } else if (content.startsWith('/*', i)) {
+                const end = content.indexOf('*/', i + 2);
+                const stop = end === -1 ? content.length : end + 2;
+                blank(i, stop);
+                i = stop;
+            } else if (content[i] === '"' || content[i] === '\'') {
+                const quote = content[i];
+                let j = i + 1;
+                while (j < content.length && content[j] !== quote && content[j] !== '\n') {
+                    j += content[j] === '\\' ? 2 : 1;
+                }
+                blank(i + 1, j);
+                i = j + 1;
+            } else {
+                i++;
+            }
+        }
+
+        return out.join('');
+    }
+
+    private static matchingBrace(text: string, open: number): number {
+        let depth = 0;
+        for (let i = open; i < text.length; i++) {
+            if (text[i] === '{') depth++;
+            else if (text[i] === '}' && --depth === 0) return i;
+        }
+        return text.length - 1;
+    }
+
+    private static identifiers(text: string): string[] {
+        return text.match(/\b[A-Za-z_$][\w$]*\b/g) ?? [];
+    }
+
+    private static calledNames(text: string): string[] {
+        return Array.from(text.matchAll(/\b([A-Za-z_$][\w$]*)\s*\(/g), (m) => m[1]);
+    }
+}
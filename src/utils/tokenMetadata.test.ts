@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { encodeAbiParameters, maxUint256, parseAbiParameters, stringToHex, toFunctionSelector } from 'viem';
+import { TokenMetadataService } from './tokenMetadata';
+import { TokenInfo } from './types';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const MKR = '0x9f8F72aA9304c8B593d555F12eF6589cC3A579A2';
+const BAYC = '0xBC4CA0EdA7647A8aB7C2061c2E118A18a936f13D';
+const LISTED = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const EOA = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const PERMIT2 = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+const word = (type: string, value: unknown) => encodeAbiParameters(parseAbiParameters(type), [value]);
+
+// eth_call return data served by the in-process node, keyed by lowercase address then selector
+const contracts: Record<string, Record<string, `0x${string}`>> = {
+    [USDC.toLowerCase()]: {
+        [toFunctionSelector('name()')]: word('string', 'USD Coin'),
+        [toFunctionSelector('symbol()')]: word('string', 'USDC'),
+        [toFunctionSelector('decimals()')]: word('uint8', 6)
+    },
+    [MKR.toLowerCase()]: {
+        [toFunctionSelector('name()')]: stringToHex('Maker', { size: 32 }),
+        [toFunctionSelector('symbol()')]: stringToHex('MKR', { size: 32 }),
+        [toFunctionSelector('decimals()')]: word('uint8', 18)
+    },
+    [BAYC.toLowerCase()]: {
+        [toFunctionSelector('supportsInterface(bytes4)')]: word('bool', true),
+        [toFunctionSelector('name()')]: word('string', 'BoredApeYachtClub'),
+        [toFunctionSelector('symbol()')]: word('string', 'BAYC')
+    }
+};
+
+let server: Server;
+
+describe('TokenMetadataService', () => {
+    before(async () => {
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                const { id, params } = JSON.parse(body);
+                const { to, data } = params[0] as { to: string; data: string };
+                const selector = data.slice(0, 10);
+                // ERC-721 contracts answer supportsInterface(ERC721) only
+                const result = selector === toFunctionSelector('supportsInterface(bytes4)') && !data.includes('80ac58cd')
+                    ? word('bool', false)
+                    : contracts[to.toLowerCase()]?.[selector];
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify(result
+                    ? { jsonrpc: '2.0', id, result }
+                    : { jsonrpc: '2.0', id, error: { code: 3, message: 'execution reverted' } }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        mock.method(console, 'warn', () => undefined);
+        process.env.RPC_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.RPC_URL;
+    });
+
+    it('resolves ERC-20 metadata, including bytes32 names', async () => {
+        const usdc = await TokenMetadataService.resolve(1, USDC);
+        const mkr = await TokenMetadataService.resolve(1, MKR);
+
+        assert.deepEqual(usdc, { address: USDC, chainId: 1, standard: 'erc20', name: 'USD Coin', symbol: 'USDC', decimals: 6, source: 'onchain' });
+        assert.equal(mkr?.symbol, 'MKR');
+        assert.equal(mkr?.name, 'Maker');
+    });
+
+    it('detects ERC-721 through ERC-165 and ignores non-tokens', async () => {
+        const bayc = await TokenMetadataService.resolve(1, BAYC);
+
+        assert.equal(bayc?.standard, 'erc721');
+        assert.equal(bayc?.decimals, undefined);
+        assert.equal(await TokenMetadataService.resolve(1, EOA), null);
+    });
+
+    it('prefers imported token lists over on-chain lookups', async () => {
+        const added = TokenMetadataService.importTokenList(JSON.stringify({
+            tokens: [
+                { chainId: 1, address: LISTED, symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18 },
+                { chainId: 1, address: 'not-an-address', symbol: 'BAD' }
+            ]
+        }));
+
+        assert.equal(added, 1);
+        assert.equal((await TokenMetadataService.resolve(1, LISTED))?.source, 'token-list');
+        assert.equal(TokenMetadataService.importTokenList({ name: 'not a list' }), 0);
+        assert.equal(TokenMetadataService.importTokenList('null'), 0);
+    });
+
+    it('formats amounts with grouping, and very large amounts as unlimited', () => {
+        const token: TokenInfo = { address: USDC, chainId: 1, standard: 'erc20', symbol: 'USDC', decimals: 6, source: 'onchain' };
+
+        assert.deepEqual(TokenMetadataService.formatAmount(1500250000n, token), { formatted: '1,500.25 USDC', isUnlimited: false });
+        assert.deepEqual(TokenMetadataService.formatAmount(maxUint256, token), { formatted: 'unlimited USDC', isUnlimited: true });
+        assert.equal(TokenMetadataService.formatAmount(5n, { ...token, decimals: undefined }).formatted, '5 base units of USDC');
+    });
+
+    it('annotates amounts in the target token and in the preceding token param', async () => {
+        const approve = await TokenMetadataService.annotateParams(1, USDC, 'approve(address,uint256)', [EOA, 2500000n]);
+        const permit2 = await TokenMetadataService.annotateParams(1, PERMIT2, 'approve', [USDC, EOA, maxUint256, 0n], [
+            { name: 'token', type: 'address' },
+            { name: 'spender', type: 'address' },
+            { name: 'amount', type: 'uint160' },
+            { name: 'expiration', type: 'uint48' }
+        ]);
+        const nft = await TokenMetadataService.annotateParams(1, BAYC, 'transferFrom', [EOA, EOA, 1234n]);
+
+        assert.equal(approve.token?.symbol, 'USDC');
+        assert.deepEqual(approve.annotations.map((a) => a.formatted), ['2.5 USDC']);
+        assert.deepEqual(permit2.annotations.map((a) => [a.index, a.formatted]), [[0, 'USDC (ERC20)'], [2, 'unlimited USDC']]);
+        assert.deepEqual(nft.annotations.map((a) => a.formatted), ['BAYC #1234']);
+    });
+});
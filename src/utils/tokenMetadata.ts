@@ -0,0 +1,292 @@
+import fs from 'fs';
+import { decodeAbiParameters, encodeFunctionData, formatUnits, getAddress, hexToString, isAddress, parseAbi, trim } from 'viem';
+import { callContract } from './abi';
+import { AbiInput, ParamAnnotation, TokenInfo } from './types';
+
+const TOKEN_ABI = parseAbi([
+    'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)'
+]);
+
+const ERC721_INTERFACE_ID = '0x80ac58cd';
+const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+// Calldata of the metadata calls, the same for every token
+const CALLDATA = {
+    supportsErc721: encodeFunctionData({ abi: TOKEN_ABI, functionName: 'supportsInterface', args: [ERC721_INTERFACE_ID] }),
+    supportsErc1155: encodeFunctionData({ abi: TOKEN_ABI, functionName: 'supportsInterface', args: [ERC1155_INTERFACE_ID] }),
+    name: encodeFunctionData({ abi: TOKEN_ABI, functionName: 'name' }),
+    symbol: encodeFunctionData({ abi: TOKEN_ABI, functionName: 'symbol' }),
+    decimals: encodeFunctionData({ abi: TOKEN_ABI, functionName: 'decimals' })
+};
+
+// Amounts this large are "unlimited" in practice (same threshold as ApprovalRules)
+const EFFECTIVELY_UNLIMITED = 2n ** 128n;
+
+// Resolved tokens never change; lookups that found nothing are retried after this long
+const NEGATIVE_TTL_MS = 60 * 60 * 1000;
+// Address params looked up per call, so a call with many addresses cannot fan out unbounded
+const MAX_PARAM_LOOKUPS = 8;
+
+const AMOUNT_NAME = /amount|value|wad|allowance|qty|quantity|^_?(min|max)/i;
+const TOKEN_ID_NAME = /tokenid|^_?id$|^_?ids$/i;
+// ERC-20 methods whose unnamed uint params are amounts of the target token (selector-db decodes carry no names)
+const ERC20_AMOUNT_METHODS = ['approve', 'transfer', 'transferFrom', 'increaseAllowance', 'decreaseAllowance', 'permit', 'mint', 'burn', 'burnFrom', 'deposit', 'withdraw'];
+const NFT_ID_METHODS = ['transferFrom', 'safeTransferFrom', 'approve'];
+
+interface CacheEntry {
+    info: TokenInfo | null;
+    expiresAt: number;
+}
+
+export class TokenMetadataService {
+    private static cache = new Map<string, CacheEntry>();
+    private static initialized = false;
+
+    /**
+     * Imports token lists from TOKEN_LIST_PATH (comma-separated) on first use
+     */
+    private static ensureInitialized(): void {
+        if (this.initialized) {
+            return;
+        }
+        this.initialized = true;
+
+        const paths = (process.env.TOKEN_LIST_PATH ?? '').split(',').map((p) => p.trim()).filter(Boolean);
+        for (const path of paths) {
+            try {
+                const count = this.importTokenList(fs.readFileSync(path, 'utf8'));
+                console.log(`Loaded ${count} tokens from ${path}`);
+            } catch (error) {
+                console.warn(`Could not load token list ${path}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Imports a token list in the Uniswap token list format ({ tokens: [{ chainId, address, symbol, name, decimals }] })
+     * or a bare array of such tokens. Returns the number of tokens added.
+     */
+    static importTokenList(content: string | unknown): number {
+        this.ensureInitialized();
+
+        const parsed = typeof content === 'string' ? JSON.parse(content) : content;
+        const tokens = Array.isArray(parsed) ? parsed : (parsed as { tokens?: unknown } | null)?.tokens;
+        if (!Array.isArray(tokens)) {
+            return 0;
+        }
+
+        let added = 0;
+        for (const token of tokens) {
+            if (!token || typeof token.chainId !== 'number' || typeof token.address !== 'string' || !isAddress(token.address)) {
+                continue;
+            }
+            const standard = ['erc721', 'erc1155'].includes(String(token.standard).toLowerCase())
+                ? String(token.standard).toLowerCase() as TokenInfo['standard']
+                : 'erc20';
+            this.cache.set(this.key(token.chainId, token.address), {
+                info: {
+                    address: getAddress(token.address),
+                    chainId: token.chainId,
+                    standard,
+                    symbol: typeof token.symbol === 'string' ? token.symbol : undefined,
+                    name: typeof token.name === 'string' ? token.name : undefined,
+                    decimals: typeof token.decimals === 'number' ? token.decimals : undefined,
+                    source: 'token-list'
+                },
+                expiresAt: Infinity
+            });
+            added++;
+        }
+        return added;
+    }
+
+    /**
+     * Resolves symbol, name, decimals and standard (ERC-165 for ERC-721/1155) of a token contract.
+     * Returns null for EOAs and contracts that do not look like tokens.
+     */
+    static async resolve(chainId: number, address: string): Promise<TokenInfo | null> {
+        this.ensureInitialized();
+
+        if (!address || !isAddress(address) || !chainId || chainId <= 0) {
+            return null;
+        }
+
+        const key = this.key(chainId, address);
+        const cached = this.cache.get(key);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.info;
+        }
+
+        const info = await this.fetchOnchain(chainId, address);
+        this.cache.set(key, { info, expiresAt: info ? Infinity : Date.now() + NEGATIVE_TTL_MS });
+        return info;
+    }
+
+    /**
+     * Annotates decoded params: address params that are tokens get their metadata, and amount params
+     * are formatted in the token they are denominated in (the target token, or the nearest preceding
+     * token param, e.g. Permit2 approve(token, spender, amount, expiration)).
+     */
+    static async annotateParams(
+        chainId: number,
+        target: string | null | undefined,
+        method: string,
+        params: unknown[],
+        inputs?: AbiInput[]
+    ): Promise<{ token?: TokenInfo; annotations: ParamAnnotation[] }> {
+        const targetToken = target ? await this.resolve(chainId, target) ?? undefined : undefined;
+        const methodName = method.split('(')[0];
+        const annotations: ParamAnnotation[] = [];
+
+        let lookups = 0;
+        let lastToken: TokenInfo | undefined;
+
+        for (let index = 0; index < params.length; index++) {
+            const value = params[index];
+            const name = inputs?.[index]?.name || undefined;
+            const type = inputs?.[index]?.type ?? (typeof value === 'bigint' ? 'uint256' : typeof value === 'string' && isAddress(value) ? 'address' : 'unknown');
+
+            if (type === 'address' && typeof value === 'string' && isAddress(value)) {
+                if (lookups++ >= MAX_PARAM_LOOKUPS) {
+                    continue;
+                }
+                const token = await this.resolve(chainId, value);
+                if (token) {
+                    lastToken = token;
+                    annotations.push({ index, name, type, token, formatted: `${token.symbol ?? token.address} (${token.standard.toUpperCase()})` });
+                }
+                continue;
+            }
+
+            if (typeof value !== 'bigint' || !type.startsWith('uint')) {
+                continue;
+            }
+
+            // approve/transfer on a token are denominated in that token even when a param is another token
+            const denomination = targetToken?.standard === 'erc20' && ERC20_AMOUNT_METHODS.includes(methodName)
+                ? targetToken
+                : lastToken ?? targetToken;
+            if (!denomination) {
+                continue;
+            }
+
+            // Unnamed NFT params: the first uint of transferFrom/safeTransferFrom/approve is the token id
+            const isTokenId = name
+                ? TOKEN_ID_NAME.test(name)
+                : denomination === targetToken && NFT_ID_METHODS.includes(methodName) && !annotations.some((a) => a.type.startsWith('uint'));
+
+            if (denomination.standard !== 'erc20' && isTokenId) {
+                annotations.push({ index, name, type, token: denomination, formatted: `${denomination.symbol ?? denomination.address} #${value}` });
+                continue;
+            }
+
+            const isAmount = name
+                ? AMOUNT_NAME.test(name)
+                : ['uint256', 'uint160'].includes(type) && denomination === targetToken && ERC20_AMOUNT_METHODS.includes(methodName);
+
+            if (denomination.standard === 'erc20' && isAmount) {
+                annotations.push({ index, name, type, token: denomination, ...this.formatAmount(value, denomination) });
+            }
+        }
+
+        return { token: targetToken, annotations };
+    }
+
+    /**
+     * Formats a base-unit amount, e.g. "1,500.25 USDC" or "unlimited USDC"
+     */
+    static formatAmount(value: bigint, token: TokenInfo): { formatted: string; isUnlimited: boolean } {
+        const symbol = token.symbol ?? token.address;
+
+        if (value >= EFFECTIVELY_UNLIMITED) {
+            return { formatted: `unlimited ${symbol}`, isUnlimited: true };
+        }
+
+        if (token.decimals === undefined) {
+            return { formatted: `${value.toString()} base units of ${symbol}`, isUnlimited: false };
+        }
+
+        const [whole, fraction] = formatUnits(value, token.decimals).split('.');
+        const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+        return { formatted: `${fraction ? `${grouped}.${fraction}` : grouped} ${symbol}`, isUnlimited: false };
+    }
+
+    private static async fetchOnchain(chainId: number, address: string): Promise<TokenInfo | null> {
+        try {
+            const [erc721, erc1155, name, symbol, decimals] = await Promise.all([
+                callContract(chainId, address, CALLDATA.supportsErc721),
+                callContract(chainId, address, CALLDATA.supportsErc1155),
+                callContract(chainId, address, CALLDATA.name),
+                callContract(chainId, address, CALLDATA.symbol),
+                callContract(chainId, address, CALLDATA.decimals)
+            ]);
+
+            const standard: TokenInfo['standard'] | undefined = this.decodeBool(erc721)
+                ? 'erc721'
+                : this.decodeBool(erc1155)
+                    ? 'erc1155'
+                    : decimals && decimals !== '0x'
+                        ? 'erc20'
+                        : undefined;
+
+            if (!standard) {
+                return null;
+            }
+
+            return {
+                address: getAddress(address),
+                chainId,
+                standard,
+                name: this.decodeString(name),
+                symbol: this.decodeString(symbol),
+                decimals: standard === 'erc20' ? this.decodeDecimals(decimals) : undefined,
+                source: 'onchain'
+            };
+
+        } catch (error) {
+            console.warn('Token metadata lookup failed:', error);
+            return null;
+        }
+    }
+
+    private static decodeBool(data: `0x${string}` | null): boolean {
+        // Require a full word: contracts without supportsInterface may return empty or garbage data
+        if (!data || data.length !== 66) {
+            return false;
+        }
+        return BigInt(data) === 1n;
+    }
+
+    /**
+     * Decodes string returns, and bytes32 returns of older tokens such as MKR
+     */
+    private static decodeString(data: `0x${string}` | null): string | undefined {
+        if (!data || data === '0x') {
+            return undefined;
+        }
+        try {
+            return decodeAbiParameters([{ type: 'string' }], data)[0] || undefined;
+        } catch {
+            try {
+                return hexToString(trim(data.slice(0, 66) as `0x${string}`, { dir: 'right' })).replace(/\0/g, '') || undefined;
+            } catch {
+                return undefined;
+            }
+        }
+    }
+
+    private static decodeDecimals(data: `0x${string}` | null): number | undefined {
+        if (!data || data.length < 66) {
+            return undefined;
+        }
+        const value = BigInt(data.slice(0, 66));
+        return value <= 255n ? Number(value) : undefined;
+    }
+
+    private static key(chainId: number, address: string): string {
+        return `${chainId}:${address.toLowerCase()}`;
+    }
+}
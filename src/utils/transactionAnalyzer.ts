@@ -1,7 +1,18 @@
 import { TransactionDecoder } from './txDecoder';
-import { fetchContractAbiWithFallback } from './abi';
+import { AbiFetchResult, fetchAccountCode, fetchContractAbiWithFallback } from './abi';
 import { AIService } from './aiService';
-import { DecodedTransaction, TransactionAnalysisResult, DecodedTxWithAbi, AIAnalysisResult } from './types';
+import { ApprovalRules, RuleEvaluation } from './approvalRules';
+import { TransactionSimulator } from './simulator';
+import { BatchDecoder } from './batchDecoder';
+import { TokenMetadataService } from './tokenMetadata';
+import { ReputationStore } from './reputationStore';
+import { AddressPoisoningDetector } from './addressPoisoning';
+import { BytecodeAnalyzer } from './bytecodeAnalyzer';
+import { SoliditySource } from './soliditySource';
+import { RiskFusion } from './riskFusion';
+import { HeuristicScorer } from './heuristicScorer';
+import { DelegationRules } from './delegationRules';
+import { DecodedTransaction, TransactionAnalysisResult, DecodedTxWithAbi, AIAnalysisResult, ReputationMatch, RuleFinding, InitCodeAnalysis, RuntimeCodeAnalysis, AnalysisProgressListener } from './types';
 
 export class TransactionAnalyzer {
     /**
@@ -26,18 +37,46 @@ export class TransactionAnalyzer {
 
             // Decode the transaction
             const decoded = TransactionDecoder.decodeRawTransaction(rawTx);
+            decoded.from = await TransactionDecoder.recoverSender(rawTx);
+            if (decoded.authorizationList) {
+                decoded.authorizationList = await TransactionDecoder.recoverAuthorities(decoded.authorizationList);
+            }
+            const delegation = await DelegationRules.evaluate(decoded);
 
             // For simple ETH transfers, return early
             if (decoded.transactionType === 'eth_transfer') {
+                const reputation = ReputationStore.checkTransaction(decoded);
                 const riskLevel = TransactionDecoder.getRiskLevel(
                     decoded.transactionType,
                     decoded.value,
                     decoded.to
                 );
 
-                const description = TransactionDecoder.getTransactionDescription(
+                const description = decoded.authorizationList?.length
+                    ? DelegationRules.describe(decoded.authorizationList)
+                    : TransactionDecoder.getTransactionDescription(decoded.transactionType, decoded.value);
+
+                return {
+                    success: true,
+                    transaction: decoded,
+                    analysis: {
+                        type: decoded.transactionType,
+                        riskLevel: this.reputationRiskLevel(this.delegationRiskLevel(riskLevel, delegation), reputation),
+                        description,
+                        reputation: reputation.length > 0 ? reputation : undefined,
+                        ruleFindings: delegation.findings.length > 0 ? delegation.findings : undefined
+                    },
+                    timestamp: new Date().toISOString()
+                };
+            }
+
+            // Deployments have no target to fetch an ABI for; the init code itself is analyzed
+            if (decoded.transactionType === 'contract_creation') {
+                const { initCode, reputation } = this.analyzeDeployment(decoded.chainId, decoded.from ?? undefined, decoded.data);
+                const riskLevel = TransactionDecoder.getRiskLevel(
                     decoded.transactionType,
-                    decoded.value
+                    decoded.value,
+                    decoded.to
                 );
 
                 return {
@@ -45,15 +84,17 @@ export class TransactionAnalyzer {
                     transaction: decoded,
                     analysis: {
                         type: decoded.transactionType,
-                        riskLevel,
-                        description
+                        riskLevel: this.reputationRiskLevel(this.higherRiskLevel(riskLevel, initCode.riskLevel), reputation),
+                        description: BytecodeAnalyzer.describe(initCode),
+                        reputation: reputation.length > 0 ? reputation : undefined,
+                        initCode
                     },
                     timestamp: new Date().toISOString()
                 };
             }
 
             // For contract interactions, get ABI and continue with full analysis
-            let abiSource: 'etherscan' | 'fallback' | 'none' = 'none';
+            let abiSource: DecodedTransaction['abiSource'] = 'none';
             let contractInfo;
 
             if (decoded.transactionType === 'contract_interaction' && decoded.contractAddress) {
@@ -71,12 +112,30 @@ export class TransactionAnalyzer {
                         if (abiDecoded) {
                             decoded.decodedData = abiDecoded;
                         }
+                    } else if (decoded.decodedData?.candidates) {
+                        abiSource = 'selector-db';
                     }
 
+                    // Unpack multicall / multiSend / Universal Router batches
+                    decoded.callTree = await BatchDecoder.decodeCallTree(
+                        decoded.chainId,
+                        decoded.contractAddress,
+                        decoded.value,
+                        decoded.data,
+                        abiResult.abi
+                    );
+
+                    await this.annotateTokens(decoded);
+
                     contractInfo = {
                         address: decoded.contractAddress,
                         abiAvailable: abiResult.abi !== null,
-                        abiSource: abiResult.source
+                        abiSource,
+                        proxyType: abiResult.proxy?.proxyType,
+                        implementationAddress: abiResult.proxy?.implementationAddress,
+                        recentlyUpgraded: abiResult.proxy?.recentlyUpgraded,
+                        cache: abiResult.cache,
+                        bytecode: await this.analyzeUnverifiedCode(decoded.chainId, decoded.contractAddress, abiResult)
                     };
                 } catch (error) {
                     console.warn('ABI fetch failed:', error);
@@ -86,26 +145,29 @@ export class TransactionAnalyzer {
             // Update decoded transaction with ABI source
             decoded.abiSource = abiSource;
 
+            const reputation = ReputationStore.checkTransaction(decoded);
+
             // Generate analysis
-            const riskLevel = TransactionDecoder.getRiskLevel(
-                decoded.transactionType,
-                decoded.value,
-                decoded.to
-            );
+            const riskLevel = this.delegationRiskLevel(this.higherRiskLevel(
+                TransactionDecoder.getRiskLevel(decoded.transactionType, decoded.value, decoded.to),
+                contractInfo?.bytecode?.riskLevel ?? 'low'
+            ), delegation);
 
-            const description = TransactionDecoder.getTransactionDescription(
-                decoded.transactionType,
-                decoded.value
-            );
+            // Zero-value set-code transactions without calldata are neither transfers nor calls
+            const description = decoded.authorizationList?.length && decoded.transactionType === 'unknown'
+                ? DelegationRules.describe(decoded.authorizationList)
+                : TransactionDecoder.getTransactionDescription(decoded.transactionType, decoded.value);
 
             return {
                 success: true,
                 transaction: decoded,
                 analysis: {
                     type: decoded.transactionType,
-                    riskLevel,
+                    riskLevel: this.reputationRiskLevel(riskLevel, reputation),
                     description,
-                    contractInfo
+                    contractInfo,
+                    reputation: reputation.length > 0 ? reputation : undefined,
+                    ruleFindings: delegation.findings.length > 0 ? delegation.findings : undefined
                 },
                 timestamp: new Date().toISOString()
             };
@@ -152,7 +214,7 @@ export class TransactionAnalyzer {
             const decoded = TransactionDecoder.decodeRawTransaction(rawTx);
 
             // Get ABI if it's a contract interaction
-            let abiSource: 'etherscan' | 'fallback' | 'none' = 'none';
+            let abiSource: DecodedTransaction['abiSource'] = 'none';
             let contractInfo;
             let abiString = '';
             let sourceCode = '';
@@ -174,13 +236,32 @@ export class TransactionAnalyzer {
                         if (abiDecoded) {
                             decoded.decodedData = abiDecoded;
                         }
+                    } else if (decoded.decodedData?.candidates) {
+                        // No verified ABI: decodeRawTransaction already decoded it from the selector database
+                        abiSource = 'selector-db';
                     }
 
+                    // Unpack multicall / multiSend / Universal Router batches
+                    decoded.callTree = await BatchDecoder.decodeCallTree(
+                        decoded.chainId,
+                        decoded.contractAddress,
+                        decoded.value,
+                        decoded.data,
+                        abiResult.abi
+                    );
+
+                    await this.annotateTokens(decoded);
+
                     contractInfo = {
                         address: decoded.contractAddress,
                         abiAvailable: abiResult.abi !== null,
-                        abiSource: abiResult.source,
-                        sourceCodeAvailable: !!sourceCode
+                        abiSource,
+                        sourceCodeAvailable: !!sourceCode,
+                        proxyType: abiResult.proxy?.proxyType,
+                        implementationAddress: abiResult.proxy?.implementationAddress,
+                        recentlyUpgraded: abiResult.proxy?.recentlyUpgraded,
+                        cache: abiResult.cache,
+                        bytecode: await this.analyzeUnverifiedCode(decoded.chainId, decoded.contractAddress, abiResult)
                     };
                 } catch (error) {
                     console.warn('ABI fetch failed:', error);
@@ -205,6 +286,7 @@ export class TransactionAnalyzer {
                 },
                 abi: abiString,
                 sourceCode: sourceCode,
+                sourceExcerpt: sourceCode ? SoliditySource.extractRelevant(sourceCode, decoded.decodedData?.method) ?? undefined : undefined,
                 timestamp: new Date().toISOString()
             };
 
@@ -227,7 +309,7 @@ export class TransactionAnalyzer {
     }
 
     /**
-     * Analyzes transaction with AI for fraud detection
+     * Analyzes transaction with AI for fraud detection. `onProgress` receives each stage as it finishes.
      */
     static async analyzeTransactionWithAI(payload: {
         chainId?: string;
@@ -236,38 +318,201 @@ export class TransactionAnalyzer {
         from?: string;
         to?: string;
         data?: string;
-    }): Promise<AIAnalysisResult> {
+        type?: string;
+        maxFeePerBlobGas?: string;
+        blobVersionedHashes?: `0x${string}`[];
+        authorizationList?: unknown[];
+    }, onProgress?: AnalysisProgressListener): Promise<AIAnalysisResult> {
         try {
+            const chainId = payload.chainId ? parseInt(payload.chainId, 16) : 1;
 
             // Determine transaction type
             const isEthTransfer = (!payload.data || payload.data === '0x') && payload.to;
             const isContractInteraction = payload.data && payload.data !== '0x' && payload.to;
+            const isContractCreation = !payload.to && payload.data && payload.data !== '0x';
+
+            // EIP-7702 delegations apply whatever the call itself does
+            const authorizationList = await TransactionDecoder.recoverAuthorities(TransactionDecoder.decodeAuthorizationList(payload.authorizationList));
+            const delegation = await DelegationRules.evaluate({ chainId, from: (payload.from ?? null) as `0x${string}` | null, authorizationList });
+
+            onProgress?.({
+                stage: 'decoded',
+                transaction: {
+                    chainId,
+                    from: (payload.from ?? null) as `0x${string}` | null,
+                    to: (payload.to ?? null) as `0x${string}` | null,
+                    value: payload.value || '0',
+                    transactionType: isContractCreation ? 'contract_creation' : isContractInteraction ? 'contract_interaction' : 'eth_transfer',
+                    // Offline selector decoding; the ABI-based decoding follows with the contract stage
+                    decodedData: isContractInteraction ? TransactionDecoder.decodeFunctionData(payload.data!) : undefined,
+                    authorizationList: authorizationList.length > 0 ? authorizationList : undefined
+                }
+            });
 
-            if (isEthTransfer) {
+            if (isContractCreation) {
+                // Deployments are judged on the init code alone; there is no verified source to give the AI
+                const { initCode, reputation, evaluation } = this.analyzeDeployment(chainId, payload.from, payload.data!);
+
+                const result: AIAnalysisResult = {
+                    success: true,
+                    analysis: {
+                        type: 'contract_creation',
+                        riskLevel: 'low',
+                        fraudScore: initCode.riskScore,
+                        description: BytecodeAnalyzer.describe(initCode),
+                        reasoning: 'Static analysis of the deployment bytecode',
+                        warnings: [],
+                        // No AI call is made for deployments
+                        aiConfidence: 0,
+                        analysisMode: 'heuristic'
+                    },
+                    timestamp: new Date().toISOString()
+                };
+                const flagged = RiskFusion.apply(
+                    ApprovalRules.applyToResult(result, evaluation),
+                    RiskFusion.fuse(result.analysis, { findings: evaluation.findings })
+                );
                 return {
+                    ...flagged,
+                    analysis: {
+                        ...flagged.analysis,
+                        reputation: reputation.length > 0 ? reputation : undefined,
+                        initCode
+                    }
+                };
+            }
+
+            if (isEthTransfer) {
+                const reputation = ReputationStore.checkTransaction({
+                    chainId,
+                    from: payload.from as `0x${string}` | undefined,
+                    to: payload.to as `0x${string}`,
+                    authorizationList
+                });
+                // Plain transfers are where a poisoned, copy-pasted recipient does the most damage
+                const recipientCheck = payload.from && payload.to
+                    ? await AddressPoisoningDetector.check(chainId, payload.from, payload.to)
+                    : undefined;
+                const findings = [
+                    ...ReputationStore.toFindings(reputation),
+                    ...AddressPoisoningDetector.toFindings(recipientCheck),
+                    ...delegation.findings
+                ];
+
+                const result: AIAnalysisResult = {
                     success: true,
                     analysis: {
                         type: 'eth_transfer',
                         riskLevel: 'low',
                         fraudScore: 5,
-                        description: 'Simple ETH Transfer',
-                        reasoning: 'Standard ETH transfer with no contract interaction',
+                        description: authorizationList.length > 0 ? DelegationRules.describe(authorizationList) : 'Simple ETH Transfer',
+                        reasoning: authorizationList.length > 0
+                            ? 'Set-code transaction: the signing accounts will run the delegate contract code'
+                            : 'Standard ETH transfer with no contract interaction',
                         warnings: [],
                         aiConfidence: 95
                     },
                     timestamp: new Date().toISOString()
                 };
+                const fusion = RiskFusion.fuse(result.analysis, { findings });
+                if (findings.length === 0 && !recipientCheck) {
+                    return RiskFusion.apply(result, fusion);
+                }
+                const flagged = RiskFusion.apply(
+                    ApprovalRules.applyToResult(result, this.withFindings({ findings: [], minimumFraudScore: 0 }, findings)),
+                    fusion
+                );
+                return {
+                    ...flagged,
+                    analysis: {
+                        ...flagged.analysis,
+                        reputation: reputation.length > 0 ? reputation : undefined,
+                        recipientCheck
+                    }
+                };
             }
 
             if (isContractInteraction && payload.to) {
                 // Create DecodedTxWithAbi for AI analysis
-                const decodedTxWithAbi = await this.createDecodedTxWithAbiFromPayload(payload);
+                const decodedTxWithAbi = await this.createDecodedTxWithAbiFromPayload({ ...payload, authorizationList });
+                onProgress?.({
+                    stage: 'contract',
+                    decodedData: decodedTxWithAbi.transaction.decodedData,
+                    contractInfo: decodedTxWithAbi.analysis.contractInfo,
+                    sourceExcerpt: decodedTxWithAbi.sourceExcerpt
+                });
+                const reputation = ReputationStore.checkTransaction(decodedTxWithAbi.transaction);
+                const recipient = AddressPoisoningDetector.getRecipient(decodedTxWithAbi.transaction);
+
+                // Deterministic checks and the simulation run first so the AI sees their findings
+                const [approvalEvaluation, simulation, recipientCheck] = await Promise.all([
+                    ApprovalRules.evaluate(decodedTxWithAbi.transaction),
+                    TransactionSimulator.simulate({
+                        chainId: decodedTxWithAbi.transaction.chainId,
+                        from: payload.from,
+                        to: payload.to,
+                        value: payload.value,
+                        data: payload.data,
+                        gas: payload.gas
+                    }),
+                    payload.from && recipient
+                        ? AddressPoisoningDetector.check(decodedTxWithAbi.transaction.chainId, payload.from, recipient)
+                        : Promise.resolve(undefined)
+                ]);
+                const ruleEvaluation = this.withFindings(approvalEvaluation, [
+                    ...ReputationStore.toFindings(reputation),
+                    ...AddressPoisoningDetector.toFindings(recipientCheck),
+                    ...(decodedTxWithAbi.analysis.contractInfo?.bytecode?.findings ?? []),
+                    ...delegation.findings
+                ]);
+                decodedTxWithAbi.ruleFindings = ruleEvaluation.findings;
+                decodedTxWithAbi.simulation = simulation;
+
+                if (onProgress) {
+                    // Preliminary verdict from the deterministic signals while the AI runs
+                    const heuristic = HeuristicScorer.scoreTransaction(decodedTxWithAbi);
+                    onProgress({
+                        stage: 'rules',
+                        findings: ruleEvaluation.findings,
+                        simulation,
+                        preliminary: RiskFusion.fuse(
+                            { fraudScore: heuristic.fraudScore, description: '', reasoning: heuristic.signals.join('; '), analysisMode: 'heuristic' },
+                            { findings: ruleEvaluation.findings, contractInfo: decodedTxWithAbi.analysis.contractInfo, simulation, sender: payload.from }
+                        )
+                    });
+                }
 
                 // Use AI to analyze the transaction
-                const aiResult = await AIService.analyzeTransactionForFraud(decodedTxWithAbi);
+                const aiResult = await AIService.analyzeTransactionForFraud(decodedTxWithAbi, onProgress);
                 console.log('AI Result', aiResult);
 
-                return aiResult;
+                // The verdict is weighed against the other signals; the AI cannot lower the score below the rule floor
+                const fusion = RiskFusion.fuse(aiResult.analysis, {
+                    findings: ruleEvaluation.findings,
+                    contractInfo: decodedTxWithAbi.analysis.contractInfo,
+                    simulation,
+                    sender: payload.from
+                });
+                const result = RiskFusion.apply(ApprovalRules.applyToResult(aiResult, ruleEvaluation), fusion);
+                const proxyWarnings = this.getProxyWarnings(decodedTxWithAbi.analysis.contractInfo);
+                if (!simulation && proxyWarnings.length === 0 && reputation.length === 0 && !recipientCheck) {
+                    return result;
+                }
+
+                return {
+                    ...result,
+                    analysis: {
+                        ...result.analysis,
+                        reputation: reputation.length > 0 ? reputation : undefined,
+                        recipientCheck,
+                        warnings: [
+                            ...proxyWarnings,
+                            ...(simulation ? TransactionSimulator.getWarnings(simulation, payload.from) : []),
+                            ...result.analysis.warnings
+                        ]
+                    },
+                    simulation
+                };
             }
 
             return {
@@ -302,6 +547,121 @@ export class TransactionAnalyzer {
         }
     }
 
+    /**
+     * Adds findings from other deterministic checks (e.g. reputation) to the approval rule evaluation
+     */
+    private static withFindings(evaluation: RuleEvaluation, findings: RuleFinding[]): RuleEvaluation {
+        const all = [...findings, ...evaluation.findings];
+        return {
+            findings: all,
+            minimumFraudScore: all.reduce((max, f) => Math.max(max, f.minimumFraudScore), 0)
+        };
+    }
+
+    /**
+     * Analyzes deployment init code and checks the deployer and every embedded address against the reputation store
+     */
+    private static analyzeDeployment(chainId: number, from: string | undefined, data: string): {
+        initCode: InitCodeAnalysis;
+        reputation: ReputationMatch[];
+        evaluation: RuleEvaluation;
+    } {
+        const initCode = BytecodeAnalyzer.analyzeInitCode(data);
+        const reputation = ReputationStore.checkTransaction({
+            chainId,
+            from: from as `0x${string}` | undefined,
+            to: null,
+            decodedData: {
+                method: 'constructor',
+                params: [...initCode.hardcodedAddresses, ...(initCode.constructorArgs?.addresses ?? [])]
+            }
+        });
+        const evaluation = this.withFindings({ findings: initCode.findings, minimumFraudScore: 0 }, ReputationStore.toFindings(reputation));
+        return { initCode, reputation, evaluation };
+    }
+
+    /**
+     * Fetches and analyzes the runtime code of targets without a verified ABI (the implementation, for proxies)
+     */
+    private static async analyzeUnverifiedCode(chainId: number, address: string, abiResult: AbiFetchResult): Promise<RuntimeCodeAnalysis | undefined> {
+        if (abiResult.abi) {
+            return undefined;
+        }
+
+        const target = abiResult.proxy?.implementationAddress ?? address;
+        try {
+            const code = await fetchAccountCode(chainId, target);
+            return code && code !== '0x' ? BytecodeAnalyzer.analyzeRuntimeCode(target, code) : undefined;
+        } catch (error) {
+            console.warn('Bytecode analysis failed:', error);
+            return undefined;
+        }
+    }
+
+    private static higherRiskLevel(a: 'low' | 'medium' | 'high', b: 'low' | 'medium' | 'high'): 'low' | 'medium' | 'high' {
+        const levels = ['low', 'medium', 'high'] as const;
+        return levels[Math.max(levels.indexOf(a), levels.indexOf(b))];
+    }
+
+    /**
+     * Risk level for the non-AI endpoints once reputation matches are known
+     */
+    private static reputationRiskLevel(riskLevel: 'low' | 'medium' | 'high', reputation: ReputationMatch[]): 'low' | 'medium' | 'high' {
+        if (reputation.length === 0) {
+            return riskLevel;
+        }
+        const floor = ReputationStore.toFindings(reputation).some((f) => f.severity === 'high') ? 'high' : 'medium';
+        return riskLevel === 'high' || floor === 'high' ? 'high' : 'medium';
+    }
+
+    /**
+     * Risk level for the non-AI endpoints once EIP-7702 delegation findings are known
+     */
+    private static delegationRiskLevel(riskLevel: 'low' | 'medium' | 'high', delegation: RuleEvaluation): 'low' | 'medium' | 'high' {
+        const floor = delegation.minimumFraudScore >= 70 ? 'high' : delegation.minimumFraudScore >= 40 ? 'medium' : 'low';
+        return this.higherRiskLevel(riskLevel, floor);
+    }
+
+    /**
+     * Attaches token metadata for the target and formatted token amounts to the decoded params
+     */
+    private static async annotateTokens(transaction: DecodedTransaction): Promise<void> {
+        if (!transaction.decodedData || !transaction.to) {
+            return;
+        }
+
+        try {
+            const { token, annotations } = await TokenMetadataService.annotateParams(
+                transaction.chainId,
+                transaction.to,
+                transaction.decodedData.method,
+                transaction.decodedData.params,
+                transaction.decodedData.inputs
+            );
+            transaction.token = token;
+            if (annotations.length > 0) {
+                transaction.decodedData.annotations = annotations;
+            }
+        } catch (error) {
+            console.warn('Token annotation failed:', error);
+        }
+    }
+
+    /**
+     * Upgradeable proxies can change their code after the user approves them
+     */
+    private static getProxyWarnings(contractInfo?: DecodedTxWithAbi['analysis']['contractInfo']): string[] {
+        if (!contractInfo?.proxyType || contractInfo.proxyType === 'eip1167') {
+            return [];
+        }
+
+        const warnings = [`Contract is an upgradeable ${contractInfo.proxyType} proxy for ${contractInfo.implementationAddress}`];
+        if (contractInfo.recentlyUpgraded) {
+            warnings.push('Proxy implementation was upgraded within the last 30 days');
+        }
+        return warnings;
+    }
+
     /**
      * Creates DecodedTxWithAbi from payload for AI analysis
      */
@@ -312,28 +672,44 @@ export class TransactionAnalyzer {
         from?: string;
         to?: string;
         data?: string;
+        type?: string;
+        maxFeePerBlobGas?: string;
+        blobVersionedHashes?: `0x${string}`[];
+        authorizationList?: unknown[];
     }): Promise<DecodedTxWithAbi> {
         const chainId = payload.chainId ? parseInt(payload.chainId, 16) : 1;
 
         // Create basic transaction structure
         const transaction: DecodedTransaction = {
             hash: '' as `0x${string}`,
+            from: (payload.from ?? null) as `0x${string}` | null,
             to: payload.to as `0x${string}` | null,
             value: payload.value || '0',
             gas: payload.gas || '21000',
             nonce: 0,
             data: (payload.data || '0x') as `0x${string}`,
-            type: 'legacy',
+            type: TransactionDecoder.normalizeTransactionType(payload.type),
             chainId,
             isContractCreation: !payload.to,
             isContractInteraction: !!(payload.data && payload.data !== '0x' && payload.to),
             transactionType: 'contract_interaction'
         };
+        if (payload.maxFeePerBlobGas) {
+            transaction.maxFeePerBlobGas = BigInt(payload.maxFeePerBlobGas).toString();
+        }
+        if (payload.blobVersionedHashes) {
+            transaction.blobVersionedHashes = payload.blobVersionedHashes;
+        }
+        const authorizationList = TransactionDecoder.decodeAuthorizationList(payload.authorizationList);
+        if (authorizationList.length > 0) {
+            transaction.authorizationList = authorizationList;
+        }
 
         // Get ABI and decode
         const abiResult = await fetchContractAbiWithFallback(chainId, payload.to!);
         let abiString = '';
         let sourceCode = '';
+        let abiSource: DecodedTransaction['abiSource'] = abiResult.source;
 
         if (abiResult.abi) {
             abiString = JSON.stringify(abiResult.abi);
@@ -346,7 +722,27 @@ export class TransactionAnalyzer {
                     transaction.decodedData = decoded;
                 }
             }
+        } else if (payload.data) {
+            // No verified ABI: fall back to the offline selector database
+            const fallback = TransactionDecoder.decodeFunctionData(payload.data);
+            transaction.decodedData = fallback;
+            if (fallback.candidates) {
+                abiSource = 'selector-db';
+            }
         }
+        transaction.abiSource = abiSource;
+
+        // Unpack multicall / multiSend / Universal Router batches
+        transaction.callTree = await BatchDecoder.decodeCallTree(
+            chainId,
+            payload.to!,
+            transaction.value,
+            transaction.data,
+            abiResult.abi
+        );
+
+        await this.annotateTokens(transaction);
+        const bytecode = await this.analyzeUnverifiedCode(chainId, payload.to!, abiResult);
 
         return {
             success: true,
@@ -357,12 +753,18 @@ export class TransactionAnalyzer {
                 contractInfo: {
                     address: payload.to!,
                     abiAvailable: abiResult.abi !== null,
-                    abiSource: abiResult.source,
-                    sourceCodeAvailable: !!sourceCode
+                    abiSource,
+                    sourceCodeAvailable: !!sourceCode,
+                    proxyType: abiResult.proxy?.proxyType,
+                    implementationAddress: abiResult.proxy?.implementationAddress,
+                    recentlyUpgraded: abiResult.proxy?.recentlyUpgraded,
+                    cache: abiResult.cache,
+                    bytecode
                 }
             },
             abi: abiString,
             sourceCode: sourceCode,
+            sourceExcerpt: sourceCode ? SoliditySource.extractRelevant(sourceCode, transaction.decodedData?.method) ?? undefined : undefined,
             timestamp: new Date().toISOString()
         };
     }
@@ -377,22 +779,77 @@ export class TransactionAnalyzer {
         from?: string;
         to?: string;
         data?: string;
+        type?: string;
+        maxFeePerBlobGas?: string;
+        blobVersionedHashes?: `0x${string}`[];
+        authorizationList?: unknown[];
     }): Promise<TransactionAnalysisResult> {
         try {
             const chainId = payload.chainId ? parseInt(payload.chainId, 16) : 1;
+            const authorizationList = await TransactionDecoder.recoverAuthorities(TransactionDecoder.decodeAuthorizationList(payload.authorizationList));
+            const delegation = await DelegationRules.evaluate({ chainId, from: (payload.from ?? null) as `0x${string}` | null, authorizationList });
+            const typeFields = {
+                type: TransactionDecoder.normalizeTransactionType(payload.type),
+                maxFeePerBlobGas: payload.maxFeePerBlobGas ? BigInt(payload.maxFeePerBlobGas).toString() : undefined,
+                blobVersionedHashes: payload.blobVersionedHashes,
+                authorizationList: authorizationList.length > 0 ? authorizationList : undefined
+            };
 
             // Determine transaction type
             const isEthTransfer = (!payload.data || payload.data === '0x') && payload.to;
             const isContractInteraction = payload.data && payload.data !== '0x' && payload.to;
+            const isContractCreation = !payload.to && payload.data && payload.data !== '0x';
+
+            if (isContractCreation) {
+                const { initCode, reputation } = this.analyzeDeployment(chainId, payload.from, payload.data!);
+                const transaction = {
+                    to: null,
+                    from: payload.from as `0x${string}` | undefined,
+                    value: payload.value ? BigInt(payload.value).toString() : '0',
+                    data: payload.data as `0x${string}`,
+                    chainId,
+                    isContractCreation: true,
+                    transactionType: 'contract_creation'
+                } as DecodedTransaction;
+
+                return {
+                    success: true,
+                    transaction,
+                    analysis: {
+                        type: 'contract_creation',
+                        riskLevel: this.reputationRiskLevel(initCode.riskLevel, reputation),
+                        description: BytecodeAnalyzer.describe(initCode),
+                        reputation: reputation.length > 0 ? reputation : undefined,
+                        initCode
+                    },
+                    timestamp: new Date().toISOString()
+                };
+            }
 
             if (isEthTransfer) {
+                const reputation = ReputationStore.checkTransaction({
+                    chainId,
+                    from: payload.from as `0x${string}` | undefined,
+                    to: payload.to as `0x${string}`,
+                    authorizationList
+                });
                 return {
                     success: true,
-                    transaction: {} as DecodedTransaction,
+                    transaction: {
+                        to: payload.to as `0x${string}`,
+                        from: payload.from as `0x${string}` | undefined,
+                        value: payload.value ? BigInt(payload.value).toString() : '0',
+                        data: '0x' as `0x${string}`,
+                        chainId,
+                        ...typeFields,
+                        transactionType: 'eth_transfer'
+                    } as DecodedTransaction,
                     analysis: {
                         type: 'eth_transfer',
-                        riskLevel: 'low',
-                        description: 'ETH Transfer'
+                        riskLevel: this.reputationRiskLevel(this.delegationRiskLevel('low', delegation), reputation),
+                        description: authorizationList.length > 0 ? DelegationRules.describe(authorizationList) : 'ETH Transfer',
+                        reputation: reputation.length > 0 ? reputation : undefined,
+                        ruleFindings: delegation.findings.length > 0 ? delegation.findings : undefined
                     },
                     timestamp: new Date().toISOString()
                 };
@@ -402,22 +859,40 @@ export class TransactionAnalyzer {
                 // Get ABI and decode
                 const abiResult = await fetchContractAbiWithFallback(chainId, payload.to);
 
-                let decodedData;
-                if (abiResult.abi && payload.data) {
-                    decodedData = TransactionDecoder.decodeWithAbi(payload.data, abiResult.abi);
-                }
+                const transaction = {
+                    to: payload.to as `0x${string}`,
+                    from: payload.from as `0x${string}` | undefined,
+                    value: payload.value ? BigInt(payload.value).toString() : '0',
+                    data: payload.data as `0x${string}`,
+                    chainId,
+                    ...typeFields,
+                    decodedData: abiResult.abi
+                        ? TransactionDecoder.decodeWithAbi(payload.data!, abiResult.abi)
+                        : TransactionDecoder.decodeFunctionData(payload.data!)
+                } as DecodedTransaction;
+
+                await this.annotateTokens(transaction);
+                const reputation = ReputationStore.checkTransaction(transaction);
+                const bytecode = await this.analyzeUnverifiedCode(chainId, payload.to, abiResult);
 
                 return {
                     success: true,
-                    transaction: {} as DecodedTransaction,
+                    transaction,
                     analysis: {
                         type: 'contract_interaction',
-                        riskLevel: 'medium',
+                        riskLevel: this.reputationRiskLevel(this.delegationRiskLevel(this.higherRiskLevel('medium', bytecode?.riskLevel ?? 'low'), delegation), reputation),
+                        reputation: reputation.length > 0 ? reputation : undefined,
+                        ruleFindings: delegation.findings.length > 0 ? delegation.findings : undefined,
                         description: 'Contract Interaction',
                         contractInfo: {
                             address: payload.to,
                             abiAvailable: abiResult.abi !== null,
-                            abiSource: abiResult.source
+                            abiSource: abiResult.source,
+                            proxyType: abiResult.proxy?.proxyType,
+                            implementationAddress: abiResult.proxy?.implementationAddress,
+                            recentlyUpgraded: abiResult.proxy?.recentlyUpgraded,
+                            cache: abiResult.cache,
+                            bytecode
                         }
                     },
                     timestamp: new Date().toISOString()
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { encodeFunctionData, erc20Abi, maxUint256, parseEther } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { TransactionDecoder } from './txDecoder';
+
+const account = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const DELEGATE = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+describe('TransactionDecoder.decodeRawTransaction', () => {
+    it('decodes a signed EIP-1559 transfer and recovers its sender', async () => {
+        const raw = await account.signTransaction({
+            type: 'eip1559',
+            chainId: 1,
+            nonce: 7,
+            to: RECIPIENT,
+            value: parseEther('1.5'),
+            gas: 21000n,
+            maxFeePerGas: 30_000_000_000n,
+            maxPriorityFeePerGas: 1_000_000_000n
+        });
+
+        const decoded = TransactionDecoder.decodeRawTransaction(raw);
+
+        assert.equal(decoded.type, 'eip1559');
+        assert.equal(decoded.transactionType, 'eth_transfer');
+        assert.equal(decoded.chainId, 1);
+        assert.equal(decoded.nonce, 7);
+        assert.equal(decoded.value, '1500000000000000000');
+        assert.equal(decoded.maxFeePerGas, '30000000000');
+        assert.equal(await TransactionDecoder.recoverSender(raw), account.address);
+    });
+
+    it('decodes calldata with the selector database', async () => {
+        const raw = await account.signTransaction({
+            type: 'legacy',
+            chainId: 1,
+            nonce: 0,
+            to: DELEGATE,
+            gas: 60000n,
+            gasPrice: 1_000_000_000n,
+            data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [RECIPIENT, maxUint256] })
+        });
+
+        const decoded = TransactionDecoder.decodeRawTransaction(raw);
+
+        assert.equal(decoded.transactionType, 'contract_interaction');
+        assert.equal(decoded.decodedData?.method, 'approve(address,uint256)');
+        assert.deepEqual(decoded.decodedData?.params, [RECIPIENT, maxUint256]);
+    });
+
+    it('decodes EIP-7702 authorizations and recovers their signers', async () => {
+        const authorization = await account.signAuthorization({ address: DELEGATE, chainId: 0, nonce: 3 });
+        const raw = await account.signTransaction({
+            type: 'eip7702',
+            chainId: 1,
+            nonce: 2,
+            to: account.address,
+            gas: 100000n,
+            maxFeePerGas: 30_000_000_000n,
+            maxPriorityFeePerGas: 1_000_000_000n,
+            authorizationList: [authorization]
+        });
+
+        const decoded = TransactionDecoder.decodeRawTransaction(raw);
+        const [recovered] = await TransactionDecoder.recoverAuthorities(decoded.authorizationList ?? []);
+
+        assert.equal(decoded.type, 'eip7702');
+        assert.equal(recovered.address.toLowerCase(), DELEGATE.toLowerCase());
+        assert.equal(recovered.chainId, 0);
+        assert.equal(recovered.nonce, 3);
+        assert.equal(recovered.authority, account.address);
+    });
+
+    it('rejects malformed input', () => {
+        assert.throws(() => TransactionDecoder.decodeRawTransaction('0x1234'), /Failed to decode transaction/);
+    });
+});
+
+describe('TransactionDecoder.decodeAuthorizationList', () => {
+    it('accepts hex quantities and the legacy contractAddress name, and drops invalid entries', () => {
+        const decoded = TransactionDecoder.decodeAuthorizationList([
+            { contractAddress: DELEGATE, chainId: '0x1', nonce: '0x0', yParity: '0x1', r: '0x01', s: '0x02' },
+            { address: 'not an address', chainId: 1, nonce: 0 },
+            { address: DELEGATE, chainId: 1 }
+        ]);
+
+        assert.deepEqual(decoded, [{ address: DELEGATE, chainId: 1, nonce: 0, yParity: 1, r: '0x01', s: '0x02' }]);
+    });
+});
@@ -1,6 +1,8 @@
-import { parseTransaction, formatEther, formatGwei, isAddress, keccak256, decodeFunctionData, isHex } from 'viem';
-import type { Abi } from 'viem';
-import { DecodedTransaction } from './types';
+import { parseTransaction, formatEther, formatGwei, isAddress, keccak256, decodeFunctionData, isHex, parseAbiItem, recoverTransactionAddress, toFunctionSelector } from 'viem';
+import { recoverAuthorizationAddress } from 'viem/utils';
+import type { Abi, AbiFunction, TransactionSerialized } from 'viem';
+import { AbiInput, DecodedAuthorization, DecodedTransaction, SelectorCandidate } from './types';
+import { SelectorDatabase } from './selectorDatabase';
 
 
 export class TransactionDecoder {
@@ -20,7 +22,7 @@ export class TransactionDecoder {
                 gasPrice: tx.gasPrice?.toString(),
                 nonce: tx.nonce ?? 0,
                 data: (tx.data ?? '0x') as `0x${string}`,
-                type: (tx.type ?? 'legacy') as 'legacy' | 'eip2930' | 'eip1559' | string,
+                type: tx.type ?? 'legacy',
                 chainId: tx.chainId ?? 0,
                 isContractCreation: !tx.to,
                 isContractInteraction: !!tx.data && tx.data !== '0x' && tx.to !== null,
@@ -37,6 +39,15 @@ export class TransactionDecoder {
             if (tx.accessList) {
                 decoded.accessList = tx.accessList;
             }
+            if (tx.maxFeePerBlobGas !== undefined) {
+                decoded.maxFeePerBlobGas = tx.maxFeePerBlobGas.toString();
+            }
+            if (tx.blobVersionedHashes) {
+                decoded.blobVersionedHashes = tx.blobVersionedHashes;
+            }
+            if (tx.authorizationList) {
+                decoded.authorizationList = this.decodeAuthorizationList(tx.authorizationList);
+            }
 
             // Decode function data based on transaction type
             if (transactionType === 'contract_interaction' && tx.data && tx.data !== '0x') {
@@ -59,6 +70,70 @@ export class TransactionDecoder {
         }
     }
 
+    /**
+     * Recovers the sender of a signed raw transaction; undefined for unsigned or malformed input
+     */
+    static async recoverSender(rawTx: string): Promise<`0x${string}` | undefined> {
+        try {
+            const serializedTransaction = (rawTx.startsWith('0x') ? rawTx : `0x${rawTx}`) as TransactionSerialized;
+            return await recoverTransactionAddress({ serializedTransaction });
+        } catch (error) {
+            console.warn('Could not recover transaction sender:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Normalizes an EIP-7702 authorization list from a signed transaction (numbers) or a wallet request (hex quantities).
+     * Entries without a valid delegate address are dropped.
+     */
+    static decodeAuthorizationList(list: unknown): DecodedAuthorization[] {
+        if (!Array.isArray(list)) {
+            return [];
+        }
+
+        const toNumber = (value: unknown) => typeof value === 'number' ? value : typeof value === 'string' || typeof value === 'bigint' ? Number(value) : NaN;
+
+        return list.flatMap((entry) => {
+            // Older wallets and viem versions name the delegate `contractAddress`
+            const address = entry?.address ?? entry?.contractAddress;
+            const chainId = toNumber(entry?.chainId);
+            const nonce = toNumber(entry?.nonce);
+            if (typeof address !== 'string' || !isAddress(address, { strict: false }) || !Number.isInteger(chainId) || !Number.isInteger(nonce)) {
+                return [];
+            }
+
+            const authorization: DecodedAuthorization = { address, chainId, nonce };
+            if (typeof entry.authority === 'string') authorization.authority = entry.authority;
+            if (entry.yParity !== undefined || entry.v !== undefined) authorization.yParity = toNumber(entry.yParity ?? entry.v) % 27;
+            if (typeof entry.r === 'string') authorization.r = entry.r;
+            if (typeof entry.s === 'string') authorization.s = entry.s;
+            return [authorization];
+        });
+    }
+
+    /**
+     * Recovers the signer (the EOA that will be delegated) of every signed authorization
+     */
+    static async recoverAuthorities(authorizations: DecodedAuthorization[]): Promise<DecodedAuthorization[]> {
+        return Promise.all(authorizations.map(async (authorization) => {
+            const { address, chainId, nonce, yParity, r, s } = authorization;
+            if (authorization.authority || yParity === undefined || !r || !s) {
+                return authorization;
+            }
+
+            try {
+                const authority = await recoverAuthorizationAddress({
+                    authorization: { address: address as `0x${string}`, chainId, nonce, yParity, r, s }
+                });
+                return { ...authorization, authority };
+            } catch (error) {
+                console.warn('Could not recover authorization signer:', error);
+                return authorization;
+            }
+        }));
+    }
+
     /**
      * Determines the type of transaction based on its properties
      */
@@ -105,59 +180,82 @@ export class TransactionDecoder {
         return true;
     }
 
-    static decodeFunctionData(data: string): { method: string; params: unknown[] } {
+    /**
+     * Decodes calldata without a verified ABI, using the offline selector database.
+     * The method is the best-ranked signature that decodes the calldata cleanly.
+     */
+    static decodeFunctionData(data: string): { method: string; params: unknown[]; inputs?: AbiInput[]; candidates?: SelectorCandidate[]; collision?: boolean } {
         if (!data || data === '0x') {
             return { method: 'transfer', params: [] };
         }
 
         const methodSignature = data.slice(0, 10);
+        const candidates = SelectorDatabase.decodeCalldata(data);
 
-        const commonMethods: { [key: string]: string } = {
-            '0xa9059cbb': 'transfer(address,uint256)',
-            '0x23b872dd': 'transferFrom(address,address,uint256)',
-            '0x095ea7b3': 'approve(address,uint256)',
-            '0x70a08231': 'balanceOf(address)',
-            '0x18160ddd': 'totalSupply()',
-            '0x06fdde03': 'name()',
-            '0x95d89b41': 'symbol()',
-            '0x313ce567': 'decimals()',
-            '0x40c10f19': 'mint(address,uint256)',
-            '0x42842e0e': 'safeTransferFrom(address,address,uint256)',
-            '0x8da5cb5b': 'owner()',
-            '0x715018a6': 'renounceOwnership()',
-            '0xf2fde38b': 'transferOwnership(address)',
-            '0x3ccfd60b': 'withdraw()',
-            '0x1249c58b': 'mint()',
-        };
+        if (candidates.length === 0) {
+            return {
+                method: `unknown_${methodSignature}`,
+                params: []
+            };
+        }
 
-        const method = commonMethods[methodSignature] || `unknown_${methodSignature}`;
+        let inputs: AbiInput[] | undefined;
+        try {
+            const item = parseAbiItem(`function ${candidates[0].signature}`) as AbiFunction;
+            inputs = item.inputs.map((input) => ({ type: input.type }));
+        } catch {
+            // Signature already decoded the calldata, so this only fails on exotic types
+        }
 
         return {
-            method,
-            params: []
+            method: candidates[0].signature,
+            params: candidates[0].params,
+            inputs,
+            candidates,
+            collision: candidates.length > 1
         };
     }
 
-    static decodeWithAbi(data: string, abi: Abi): { method: string; params: unknown[] } | undefined {
+    static decodeWithAbi(data: string, abi: Abi): { method: string; params: unknown[]; inputs?: AbiInput[] } | undefined {
         try {
             const decoded = decodeFunctionData({ abi, data: data as `0x${string}` });
             const method = typeof decoded.functionName === 'string' ? decoded.functionName : 'unknown';
             const params = decoded.args as unknown[];
-            return { method, params };
+            const selector = data.slice(0, 10).toLowerCase();
+            const item = abi.find((entry): entry is AbiFunction => entry.type === 'function' && toFunctionSelector(entry) === selector);
+            const inputs = item?.inputs.map((input) => ({ name: input.name, type: input.type }));
+            return { method, params, inputs };
         } catch {
             return undefined;
         }
     }
 
     static getTransactionType(type: string): string {
-        switch (type) {
+        switch (this.normalizeTransactionType(type)) {
             case 'legacy': return 'Legacy';
             case 'eip2930': return 'EIP-2930 (Access List)';
             case 'eip1559': return 'EIP-1559 (Fee Market)';
+            case 'eip4844': return 'EIP-4844 (Blob)';
+            case 'eip7702': return 'EIP-7702 (Set Code)';
             default: return `Unknown (${type})`;
         }
     }
 
+    /**
+     * Maps wallet-style type numbers ("0x2") to viem's type names; names and unknown types are returned as is
+     */
+    static normalizeTransactionType(type?: string): string {
+        switch (type) {
+            case undefined:
+            case '0x0': return 'legacy';
+            case '0x1': return 'eip2930';
+            case '0x2': return 'eip1559';
+            case '0x3': return 'eip4844';
+            case '0x4': return 'eip7702';
+            default: return type;
+        }
+    }
+
     static formatValue(weiValue: string): string {
         try {
             return formatEther(BigInt(weiValue));
@@ -178,12 +276,14 @@ export class TransactionDecoder {
         return isAddress(address);
     }
 
-    static getTransactionTypeNumber(type: string): number {
-        switch (type) {
+    static getTransactionTypeNumber(type: string): number | null {
+        switch (this.normalizeTransactionType(type)) {
             case 'legacy': return 0;
             case 'eip2930': return 1;
             case 'eip1559': return 2;
-            default: return 0;
+            case 'eip4844': return 3;
+            case 'eip7702': return 4;
+            default: return null;
         }
     }
 
@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { maxUint160, maxUint256, maxUint48 } from 'viem';
+import { TypedDataAnalyzer } from './typedDataAnalyzer';
+
+const SIGNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const SPENDER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const PERMIT2 = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function erc2612(value: string, deadline: number | string, chainId = 1) {
+    return {
+        types: {
+            EIP712Domain: [{ name: 'name', type: 'string' }, { name: 'chainId', type: 'uint256' }, { name: 'verifyingContract', type: 'address' }],
+            Permit: [
+                { name: 'owner', type: 'address' },
+                { name: 'spender', type: 'address' },
+                { name: 'value', type: 'uint256' },
+                { name: 'nonce', type: 'uint256' },
+                { name: 'deadline', type: 'uint256' }
+            ]
+        },
+        primaryType: 'Permit',
+        domain: { name: 'USD Coin', chainId, verifyingContract: TOKEN },
+        message: { owner: SIGNER, spender: SPENDER, value, nonce: '0', deadline }
+    };
+}
+
+function permit2Batch(amounts: bigint[], verifyingContract = PERMIT2) {
+    return {
+        types: {
+            PermitBatch: [{ name: 'details', type: 'PermitDetails[]' }, { name: 'spender', type: 'address' }, { name: 'sigDeadline', type: 'uint256' }],
+            PermitDetails: [{ name: 'token', type: 'address' }, { name: 'amount', type: 'uint160' }, { name: 'expiration', type: 'uint48' }, { name: 'nonce', type: 'uint48' }]
+        },
+        primaryType: 'PermitBatch',
+        domain: { name: 'Permit2', chainId: 1, verifyingContract },
+        message: {
+            details: amounts.map((amount) => ({ token: TOKEN, amount: amount.toString(), expiration: String(now() + 3600), nonce: '0' })),
+            spender: SPENDER,
+            sigDeadline: String(now() + 3600)
+        }
+    };
+}
+
+describe('TypedDataAnalyzer.parseTypedDataRequest', () => {
+    it('finds the signer and the typed data in either param order', () => {
+        const typedData = erc2612('1000', now() + 3600);
+
+        const v4 = TypedDataAnalyzer.parseTypedDataRequest({ chainId: '0x1', params: [SIGNER, JSON.stringify(typedData)] });
+        const reversed = TypedDataAnalyzer.parseTypedDataRequest({ chainId: '0x1', params: [typedData, SIGNER] });
+
+        for (const decoded of [v4, reversed]) {
+            assert.equal(decoded.signer, SIGNER);
+            assert.equal(decoded.primaryType, 'Permit');
+            assert.equal(decoded.permitKind, 'erc2612');
+            assert.equal(decoded.domain.chainId, 1);
+            assert.equal(decoded.requestedChainId, 1);
+        }
+    });
+
+    it('rejects requests without typed data or its required fields', () => {
+        assert.throws(() => TypedDataAnalyzer.parseTypedDataRequest({ params: [SIGNER] }), /Missing typed data/);
+        assert.throws(
+            () => TypedDataAnalyzer.parseTypedDataRequest({ params: [SIGNER, { types: {}, message: {} }] }),
+            /must include types, primaryType and message/
+        );
+        assert.throws(() => TypedDataAnalyzer.parseTypedDataRequest({ params: [SIGNER, '{not json'] }));
+    });
+
+    it('reads legacy v1 typed data as a message without permits', () => {
+        const legacy = [{ type: 'string', name: 'Message', value: 'Hi, Alice!' }, { type: 'uint32', name: 'A number', value: '1337' }];
+
+        const decoded = TypedDataAnalyzer.parseTypedDataRequest({ chainId: '0x1', params: [legacy, SIGNER] });
+
+        assert.equal(decoded.signer, SIGNER);
+        assert.equal(decoded.legacy, true);
+        assert.deepEqual(decoded.message, { 'Message': 'Hi, Alice!', 'A number': '1337' });
+        assert.deepEqual(decoded.permits, []);
+        assert.deepEqual(TypedDataAnalyzer.getDeterministicWarnings(decoded), [
+            'Legacy eth_signTypedData (v1) request: no domain binds the signature to a contract or chain'
+        ]);
+        assert.throws(() => TypedDataAnalyzer.parseTypedDataRequest({ params: [[{ value: 1 }], SIGNER] }), /string type and name/);
+        assert.throws(() => TypedDataAnalyzer.parseTypedDataRequest({ params: [[], SIGNER] }), /must not be empty/);
+    });
+});
+
+describe('TypedDataAnalyzer permit detection', () => {
+    it('tells ERC-2612, DAI and Permit2 permits apart', () => {
+        assert.equal(TypedDataAnalyzer.detectPermitKind('Permit', ['owner', 'spender', 'value', 'nonce', 'deadline']), 'erc2612');
+        assert.equal(TypedDataAnalyzer.detectPermitKind('Permit', ['holder', 'spender', 'nonce', 'expiry', 'allowed']), 'dai');
+        assert.equal(TypedDataAnalyzer.detectPermitKind('Permit', ['owner']), 'unknown');
+        assert.equal(TypedDataAnalyzer.detectPermitKind('PermitSingle', []), 'permit2_single');
+        assert.equal(TypedDataAnalyzer.detectPermitKind('PermitBatch', []), 'permit2_batch');
+        assert.equal(TypedDataAnalyzer.detectPermitKind('PermitWitnessTransferFrom', []), 'permit2_transfer_from');
+        assert.equal(TypedDataAnalyzer.detectPermitKind('Mail', []), 'unknown');
+    });
+
+    it('flags an unlimited ERC-2612 value', () => {
+        const decoded = TypedDataAnalyzer.parseTypedDataRequest({ params: [SIGNER, erc2612(maxUint256.toString(), now() + 3600)] });
+
+        assert.deepEqual(decoded.permits.map((permit) => [permit.token, permit.spender, permit.isUnlimited]), [[TOKEN, SPENDER, true]]);
+    });
+
+    it('treats a DAI permit with allowed=true as unlimited', () => {
+        const decoded = TypedDataAnalyzer.parseTypedDataRequest({
+            params: [SIGNER, {
+                types: { Permit: [{ name: 'holder', type: 'address' }, { name: 'spender', type: 'address' }, { name: 'nonce', type: 'uint256' }, { name: 'expiry', type: 'uint256' }, { name: 'allowed', type: 'bool' }] },
+                primaryType: 'Permit',
+                domain: { name: 'Dai Stablecoin', chainId: 1, verifyingContract: TOKEN },
+                message: { holder: SIGNER, spender: SPENDER, nonce: 0, expiry: 0, allowed: true }
+            }]
+        });
+
+        assert.equal(decoded.permitKind, 'dai');
+        assert.equal(decoded.permits[0].amount, maxUint256.toString());
+        assert.ok(TypedDataAnalyzer.getDeterministicWarnings(decoded).some((w) => w.includes('never expires')));
+    });
+
+    it('extracts every Permit2 batch entry with the uint160 unlimited cut-off', () => {
+        const decoded = TypedDataAnalyzer.parseTypedDataRequest({ params: [SIGNER, permit2Batch([1000n, maxUint160])] });
+
+        assert.deepEqual(decoded.permits.map((permit) => permit.isUnlimited), [false, true]);
+    });
+});
+
+describe('TypedDataAnalyzer.getDeterministicWarnings', () => {
+    const warningsFor = (typedData: unknown, chainId = '0x1') =>
+        TypedDataAnalyzer.getDeterministicWarnings(TypedDataAnalyzer.parseTypedDataRequest({ chainId, params: [SIGNER, typedData] }));
+
+    it('reports deadlines that never expire, run for over a year or have passed', () => {
+        assert.ok(warningsFor(erc2612('1', maxUint48.toString())).some((w) => w.includes('never expires')));
+        assert.ok(warningsFor(erc2612('1', now() + 2 * 365 * 24 * 3600)).some((w) => w.includes('more than a year')));
+        assert.ok(warningsFor(erc2612('1', now() - 60)).some((w) => w.includes('already expired')));
+        assert.deepEqual(warningsFor(erc2612('1', now() + 3600)), []);
+    });
+
+    it('reports a chain mismatch and a Permit2 message verified by another contract', () => {
+        assert.ok(warningsFor(erc2612('1', now() + 3600, 137)).some((w) => w.includes('does not match the wallet\'s active chain 1')));
+        assert.ok(warningsFor(permit2Batch([1n], SPENDER)).some((w) => w.includes('not the canonical Permit2 contract')));
+    });
+
+    it('reports a spender that is the signer', () => {
+        const typedData = erc2612('1', now() + 3600);
+        typedData.message.spender = SIGNER;
+
+        assert.ok(warningsFor(typedData).includes('Spender is the signer itself'));
+    });
+});
+
+describe('TypedDataAnalyzer.analyzeTypedDataWithAI', () => {
+    it('reports a request it cannot parse without typed data, so callers answer with invalid params', async () => {
+        const result = await TypedDataAnalyzer.analyzeTypedDataWithAI({ params: [SIGNER, '{not json'] });
+
+        assert.equal(result.success, false);
+        assert.equal(result.typedData, undefined);
+        assert.equal(result.analysis.description, 'Invalid typed data request');
+        assert.match(result.analysis.reasoning, /could not be parsed/);
+        assert.deepEqual(result.analysis.warnings, ['Request could not be parsed']);
+    });
+});
@@ -0,0 +1,357 @@
+import { isAddress, maxUint160, maxUint256, maxUint48 } from 'viem';
+import { fetchContractAbiWithFallback } from './abi';
+import { AIService } from './aiService';
+import { DecodedTypedData, DecodedTypedDataWithAbi, PermitDetails, PermitKind, TypedDataAnalysisResult } from './types';
+
+// Canonical Uniswap Permit2 deployment (same address on every chain)
+const PERMIT2_ADDRESS = '0x000000000022d473030f116ddee9f6b43ac78ba3';
+
+// Deadlines further out than this are treated as "never expires"
+const FAR_FUTURE_DEADLINE_SECONDS = 365 * 24 * 60 * 60;
+
+export interface TypedDataPayload {
+    chainId?: string;
+    params?: unknown[];
+}
+
+export class TypedDataAnalyzer {
+    /**
+     * Analyzes an eth_signTypedData request (v1, v3 or v4) with AI for fraud detection
+     */
+    static async analyzeTypedDataWithAI(payload: TypedDataPayload): Promise<TypedDataAnalysisResult> {
+        let typedData: DecodedTypedData;
+        try {
+            typedData = this.parseTypedDataRequest(payload);
+        } catch (error) {
+            // No typedData in the result: the caller reports the request as invalid params
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            return {
+                success: false,
+                analysis: {
+                    type: 'typed_data_signature',
+                    riskLevel: 'high',
+                    fraudScore: 100,
+                    description: 'Invalid typed data request',
+                    reasoning: `The typed data signature request could not be parsed: ${message}`,
+                    warnings: ['Request could not be parsed'],
+                    aiConfidence: 0
+                },
+                timestamp: new Date().toISOString(),
+                error: message
+            };
+        }
+
+        try {
+            const decodedWithAbi = await this.createDecodedTypedDataWithAbi(typedData);
+
+            const aiResult = await AIService.analyzeTypedDataForFraud(decodedWithAbi);
+
+            return {
+                ...aiResult,
+                analysis: {
+                    ...aiResult.analysis,
+                    warnings: [...decodedWithAbi.warnings, ...aiResult.analysis.warnings]
+                },
+                typedData
+            };
+
+        } catch (error) {
+            return {
+                success: false,
+                analysis: {
+                    type: 'typed_data_signature',
+                    riskLevel: 'high',
+                    fraudScore: 100,
+                    description: 'Typed data analysis failed',
+                    reasoning: 'The typed data signature request was parsed but could not be analyzed',
+                    warnings: ['Analysis service unavailable'],
+                    aiConfidence: 0
+                },
+                typedData,
+                timestamp: new Date().toISOString(),
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+    }
+
+    /**
+     * Parses the JSON-RPC params of an eth_signTypedData request.
+     * Wallets disagree on param order, so the signer is whichever param is an address.
+     * Legacy (v1) requests carry an array of { type, name, value } entries instead of EIP-712 typed data.
+     */
+    static parseTypedDataRequest(payload: TypedDataPayload): DecodedTypedData {
+        const params = payload.params ?? [];
+        const signer = params.find((p): p is string => typeof p === 'string' && isAddress(p));
+        const rawTypedData = params.find((p) => p !== signer);
+
+        if (rawTypedData === undefined) {
+            throw new Error('Missing typed data in params');
+        }
+
+        const parsed: unknown = typeof rawTypedData === 'string' ? JSON.parse(rawTypedData) : rawTypedData;
+        if (Array.isArray(parsed)) {
+            return this.parseLegacyTypedData(parsed, signer, payload.chainId);
+        }
+
+        const typedData = parsed as {
+            types?: Record<string, Array<{ name: string; type: string }>>;
+            primaryType?: string;
+            domain?: Record<string, unknown>;
+            message?: Record<string, unknown>;
+        };
+
+        if (!typedData || !typedData.primaryType || !typedData.types || !typedData.message) {
+            throw new Error('Typed data must include types, primaryType and message');
+        }
+
+        const domain = typedData.domain ?? {};
+        const message = typedData.message;
+        const fields = (typedData.types[typedData.primaryType] ?? []).map((f) => f.name);
+        const permitKind = this.detectPermitKind(typedData.primaryType, fields);
+
+        const decoded: DecodedTypedData = {
+            signer,
+            primaryType: typedData.primaryType,
+            domain: {
+                name: typeof domain.name === 'string' ? domain.name : undefined,
+                version: typeof domain.version === 'string' ? domain.version : undefined,
+                chainId: this.toNumber(domain.chainId),
+                verifyingContract: typeof domain.verifyingContract === 'string' ? domain.verifyingContract : undefined,
+                salt: typeof domain.salt === 'string' ? domain.salt : undefined
+            },
+            message,
+            requestedChainId: this.toNumber(payload.chainId),
+            permitKind,
+            permits: []
+        };
+
+        decoded.permits = this.extractPermits(decoded);
+        return decoded;
+    }
+
+    /**
+     * Reads v1 typed data. It has no domain or primary type, and its hash differs from an EIP-712 struct hash,
+     * so a v1 signature cannot be a permit; the entries are passed on as the message.
+     */
+    private static parseLegacyTypedData(entries: unknown[], signer: string | undefined, chainId?: string): DecodedTypedData {
+        if (entries.length === 0) {
+            throw new Error('Legacy typed data must not be empty');
+        }
+
+        const message: Record<string, unknown> = {};
+        for (const entry of entries) {
+            const { type, name, value } = (entry ?? {}) as { type?: unknown; name?: unknown; value?: unknown };
+            if (typeof type !== 'string' || typeof name !== 'string') {
+                throw new Error('Legacy typed data entries must have a string type and name');
+            }
+            message[name] = value;
+        }
+
+        return {
+            signer,
+            primaryType: 'LegacyTypedData',
+            legacy: true,
+            domain: {},
+            message,
+            requestedChainId: this.toNumber(chainId),
+            permitKind: 'unknown',
+            permits: []
+        };
+    }
+
+    /**
+     * Recognizes ERC-2612, DAI-style and Permit2 permits from the primary type and its fields
+     */
+    static detectPermitKind(primaryType: string, fields: string[]): PermitKind {
+        switch (primaryType) {
+            case 'Permit':
+                if (fields.includes('allowed') && fields.includes('holder')) {
+                    return 'dai';
+                }
+                if (fields.includes('value') && fields.includes('spender')) {
+                    return 'erc2612';
+                }
+                return 'unknown';
+            case 'PermitSingle':
+                return 'permit2_single';
+            case 'PermitBatch':
+                return 'permit2_batch';
+            case 'PermitTransferFrom':
+            case 'PermitWitnessTransferFrom':
+                return 'permit2_transfer_from';
+            case 'PermitBatchTransferFrom':
+            case 'PermitBatchWitnessTransferFrom':
+                return 'permit2_batch_transfer_from';
+            default:
+                return 'unknown';
+        }
+    }
+
+    /**
+     * Extracts spender, token, amount and deadline for every permit in the message
+     */
+    static extractPermits(typedData: DecodedTypedData): PermitDetails[] {
+        const { message, domain } = typedData;
+        const spender = String(message.spender ?? '');
+
+        switch (typedData.permitKind) {
+            case 'erc2612':
+                return [{
+                    token: domain.verifyingContract ?? '',
+                    spender,
+                    amount: String(message.value ?? '0'),
+                    isUnlimited: this.isAtLeast(message.value, maxUint256),
+                    deadline: message.deadline !== undefined ? String(message.deadline) : undefined,
+                    nonce: message.nonce !== undefined ? String(message.nonce) : undefined
+                }];
+            case 'dai':
+                return [{
+                    token: domain.verifyingContract ?? '',
+                    spender,
+                    amount: message.allowed === true || message.allowed === 'true' ? maxUint256.toString() : '0',
+                    isUnlimited: message.allowed === true || message.allowed === 'true',
+                    deadline: message.expiry !== undefined ? String(message.expiry) : undefined,
+                    nonce: message.nonce !== undefined ? String(message.nonce) : undefined
+                }];
+            case 'permit2_single':
+            case 'permit2_batch': {
+                const details = (Array.isArray(message.details) ? message.details : [message.details]) as Array<Record<string, unknown>>;
+                return details.filter(Boolean).map((d) => ({
+                    token: String(d.token ?? ''),
+                    spender,
+                    amount: String(d.amount ?? '0'),
+                    isUnlimited: this.isAtLeast(d.amount, maxUint160),
+                    deadline: d.expiration !== undefined ? String(d.expiration) : undefined,
+                    nonce: d.nonce !== undefined ? String(d.nonce) : undefined
+                }));
+            }
+            case 'permit2_transfer_from':
+            case 'permit2_batch_transfer_from': {
+                const permitted = (Array.isArray(message.permitted) ? message.permitted : [message.permitted]) as Array<Record<string, unknown>>;
+                return permitted.filter(Boolean).map((p) => ({
+                    token: String(p.token ?? ''),
+                    spender,
+                    amount: String(p.amount ?? '0'),
+                    isUnlimited: this.isAtLeast(p.amount, maxUint256),
+                    deadline: message.deadline !== undefined ? String(message.deadline) : undefined,
+                    nonce: message.nonce !== undefined ? String(message.nonce) : undefined
+                }));
+            }
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Deterministic checks that run before the AI: unlimited amounts, deadlines and domain mismatches
+     */
+    static getDeterministicWarnings(typedData: DecodedTypedData): string[] {
+        const warnings: string[] = [];
+        const { domain, requestedChainId, permitKind } = typedData;
+
+        if (typedData.legacy) {
+            warnings.push('Legacy eth_signTypedData (v1) request: no domain binds the signature to a contract or chain');
+        }
+
+        if (domain.chainId !== undefined && requestedChainId !== undefined && domain.chainId !== requestedChainId) {
+            warnings.push(`Domain chainId ${domain.chainId} does not match the wallet's active chain ${requestedChainId}`);
+        }
+
+        if (permitKind.startsWith('permit2') && domain.verifyingContract
+            && domain.verifyingContract.toLowerCase() !== PERMIT2_ADDRESS) {
+            warnings.push(`Permit2-shaped message is verified by ${domain.verifyingContract}, not the canonical Permit2 contract`);
+        }
+
+        if (domain.verifyingContract && !isAddress(domain.verifyingContract)) {
+            warnings.push('Domain verifyingContract is not a valid address');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        for (const permit of typedData.permits) {
+            if (permit.isUnlimited) {
+                warnings.push(`Unlimited allowance of ${permit.token || 'unknown token'} granted to ${permit.spender || 'unknown spender'}`);
+            }
+
+            if (permit.deadline !== undefined) {
+                const deadline = this.toBigInt(permit.deadline);
+                if (deadline === undefined) {
+                    continue;
+                }
+                if ((permitKind === 'dai' && deadline === 0n) || deadline >= maxUint48) {
+                    warnings.push(`Permit for ${permit.token || 'unknown token'} never expires`);
+                } else if (deadline > BigInt(now + FAR_FUTURE_DEADLINE_SECONDS)) {
+                    warnings.push(`Permit for ${permit.token || 'unknown token'} is valid for more than a year`);
+                } else if (deadline < BigInt(now)) {
+                    warnings.push(`Permit for ${permit.token || 'unknown token'} has already expired`);
+                }
+            }
+        }
+
+        if (typedData.signer && typedData.permits.some((p) => p.spender.toLowerCase() === typedData.signer!.toLowerCase())) {
+            warnings.push('Spender is the signer itself');
+        }
+
+        return warnings;
+    }
+
+    /**
+     * Creates DecodedTypedDataWithAbi for AI prompt, fetching the verifying contract's ABI
+     */
+    static async createDecodedTypedDataWithAbi(typedData: DecodedTypedData): Promise<DecodedTypedDataWithAbi> {
+        const warnings = this.getDeterministicWarnings(typedData);
+        const verifyingContract = typedData.domain.verifyingContract;
+        const chainId = typedData.domain.chainId ?? typedData.requestedChainId ?? 1;
+
+        let contractInfo;
+        let abiString = '';
+        let sourceCode = '';
+
+        if (verifyingContract && isAddress(verifyingContract)) {
+            const abiResult = await fetchContractAbiWithFallback(chainId, verifyingContract);
+            abiString = abiResult.abi ? JSON.stringify(abiResult.abi) : '';
+            sourceCode = abiResult.sourceCode || '';
+
+            contractInfo = {
+                address: verifyingContract,
+                abiAvailable: abiResult.abi !== null,
+                abiSource: abiResult.source,
+                sourceCodeAvailable: !!sourceCode,
+                cache: abiResult.cache
+            };
+        }
+
+        return {
+            success: true,
+            typedData,
+            warnings,
+            contractInfo,
+            abi: abiString,
+            sourceCode,
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    private static toBigInt(value: unknown): bigint | undefined {
+        try {
+            if (typeof value === 'bigint') {
+                return value;
+            }
+            if (typeof value === 'number' || typeof value === 'string') {
+                return BigInt(value);
+            }
+        } catch {
+            // fall through
+        }
+        return undefined;
+    }
+
+    private static toNumber(value: unknown): number | undefined {
+        const big = this.toBigInt(value);
+        return big !== undefined ? Number(big) : undefined;
+    }
+
+    private static isAtLeast(value: unknown, threshold: bigint): boolean {
+        const big = this.toBigInt(value);
+        return big !== undefined && big >= threshold;
+    }
+}
@@ -7,20 +7,271 @@ export interface DecodedTransaction {
     gasPrice?: string;
     nonce: number;
     data: `0x${string}`;
-    type: 'legacy' | 'eip2930' | 'eip1559' | string;
+    type: 'legacy' | 'eip2930' | 'eip1559' | 'eip4844' | 'eip7702' | string;
     chainId: number;
     maxFeePerGas?: string;
     maxPriorityFeePerGas?: string;
     accessList?: readonly unknown[];
+    maxFeePerBlobGas?: string; // EIP-4844
+    blobVersionedHashes?: readonly `0x${string}`[]; // EIP-4844
+    authorizationList?: DecodedAuthorization[]; // EIP-7702
     decodedData?: {
         method: string;
         params: unknown[];
+        inputs?: AbiInput[];
+        candidates?: SelectorCandidate[]; // selector-db matches, best first
+        collision?: boolean; // more than one candidate decodes the calldata
+        annotations?: ParamAnnotation[]; // token-aware rendering of the params
     };
+    callTree?: CallNode; // present when the call batches inner calls (multicall, multiSend, ...)
+    token?: TokenInfo; // metadata of the target contract when it is a token
     isContractCreation: boolean;
     isContractInteraction: boolean;
     transactionType: 'eth_transfer' | 'contract_creation' | 'contract_interaction' | 'unknown';
     contractAddress?: string;
-    abiSource?: 'etherscan' | 'fallback' | 'none';
+    abiSource?: 'etherscan' | 'fallback' | 'selector-db' | 'none';
+}
+
+export interface AbiInput {
+    name?: string;
+    type: string;
+}
+
+export interface TokenInfo {
+    address: string;
+    chainId: number;
+    standard: 'erc20' | 'erc721' | 'erc1155';
+    symbol?: string;
+    name?: string;
+    decimals?: number;
+    source: 'token-list' | 'onchain';
+}
+
+export interface ParamAnnotation {
+    index: number;
+    name?: string;
+    type: string;
+    token?: TokenInfo; // address params that are tokens, or the token an amount is denominated in
+    formatted?: string; // e.g. "1,500.25 USDC", "unlimited USDC", "BAYC #1234"
+    isUnlimited?: boolean;
+}
+
+export interface SelectorCandidate {
+    signature: string;
+    name: string;
+    params: unknown[];
+    source: string;
+}
+
+/**
+ * EIP-7702 authorization: once included, the authority's EOA runs the delegate's code
+ */
+export interface DecodedAuthorization {
+    address: string; // delegate contract; the zero address clears an existing delegation
+    chainId: number; // 0 = valid on every chain
+    nonce: number;
+    authority?: string; // EOA that signed it, recovered from the signature
+    yParity?: number;
+    r?: `0x${string}`;
+    s?: `0x${string}`;
+}
+
+export interface CallNode {
+    target: string;
+    value: string;
+    method: string;
+    params: unknown[];
+    data?: `0x${string}`;
+    operation?: 'call' | 'delegatecall';
+    allowFailure?: boolean;
+    depth: number;
+    truncated?: boolean;
+    children?: CallNode[];
+}
+
+export interface ProxyInfo {
+    proxyType: 'eip1967' | 'eip1967-beacon' | 'eip1822' | 'eip1167' | 'gnosis-safe';
+    implementationAddress: string;
+    beaconAddress?: string;
+    adminAddress?: string;
+    lastUpgradedAt?: string;
+    recentlyUpgraded?: boolean;
+}
+
+export interface AbiCacheInfo {
+    hit: boolean;
+    tier?: 'memory' | 'disk';
+    negative: boolean; // cached "not verified" miss
+    cachedAt: string;
+    expiresAt: string;
+}
+
+export interface ReputationEntry {
+    address: string;
+    label: string; // e.g. "Inferno Drainer", "Fake_Phishing12345"
+    category?: string; // e.g. drainer, phishing, scam, sanctioned
+    confidence: number; // 0-100
+    chainId?: number; // absent: applies on every chain
+    source: string;
+    notes?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ReputationMatch {
+    address: string;
+    role: 'to' | 'from' | 'param' | 'call_target' | 'delegate';
+    entry: ReputationEntry;
+}
+
+export interface RecipientCheck {
+    recipient: string;
+    knownRecipient: boolean; // sender has sent to this address before
+    lookalikes: Array<{
+        address: string; // real counterparty the recipient imitates
+        sharedPrefix: number;
+        sharedSuffix: number;
+        lastSeen?: string;
+    }>;
+    dustSender: boolean; // recipient only appears through zero-value, dust or spoofed transfers
+    transfersChecked: number;
+}
+
+export interface OpcodeCounts {
+    selfdestruct: number;
+    delegatecall: number;
+    callcode: number;
+    create: number;
+    create2: number;
+    origin: number;
+}
+
+export interface InitCodeAnalysis {
+    size: number; // bytes of init code
+    codeSize: number; // bytes before the compiler metadata (constructor + runtime)
+    opcodes: OpcodeCounts;
+    hardcodedAddresses: string[]; // PUSH20 operands
+    metadata?: {
+        hashKind: 'ipfs' | 'bzzr1' | 'bzzr0';
+        hash: string;
+        solcVersion?: string;
+    };
+    constructorArgs?: {
+        raw: string;
+        words: string[];
+        addresses: string[]; // words that look like addresses
+    };
+    findings: RuleFinding[];
+    riskScore: number; // 0-100
+    riskLevel: 'low' | 'medium' | 'high';
+}
+
+export interface RuntimeCodeAnalysis {
+    address: string; // contract whose code was analyzed (the implementation for proxies)
+    size: number; // bytes of runtime code
+    selectors: Array<{ selector: string; signatures: string[] }>; // functions the dispatcher exposes
+    opcodes: OpcodeCounts;
+    delegatecallFromStorage: boolean; // DELEGATECALL target loaded with SLOAD
+    callerChecks: number; // msg.sender comparisons (owner gates)
+    originChecks: number; // tx.origin comparisons
+    forwardsValue: boolean; // msg.value or the whole balance is sent on with CALL
+    drainerSelectors: string[]; // exposed functions named like known drainer lures
+    hasMetadata: boolean;
+    findings: RuleFinding[];
+    riskScore: number; // 0-100
+    riskLevel: 'low' | 'medium' | 'high';
+}
+
+// Outcome of validating the model response: valid on the first attempt, valid after feedback retries,
+// fixed locally after the retries, or invalid (the route's AI_FAILURE_MODE result was returned)
+export type ValidationStatus = 'valid' | 'retried' | 'repaired' | 'invalid';
+
+// How a verdict was reached: by the AI, or by the route's AI_FAILURE_MODE after the AI call failed
+export type AnalysisMode = 'ai' | 'heuristic' | 'fail-open' | 'fail-closed';
+
+// Validated arguments of the fraud-assessment tool call (transactions, typed data and messages)
+export interface FraudAssessment {
+    riskLevel: 'low' | 'medium' | 'high';
+    fraudScore: number; // 0-100
+    description: string;
+    reasoning: string;
+    warnings: string[];
+    functionName: string;
+    functionDescription: string;
+    aiConfidence: number; // 0-100
+}
+
+// Validated arguments of the website assessment tool call
+export interface WebsiteAssessment {
+    riskLevel: 'low' | 'medium' | 'high';
+    fraudScore: number; // 0-100
+    description: string;
+    reasoning: string;
+    warnings: string[];
+    isKnownPhishing: boolean;
+    isOnBlacklist: boolean;
+    aiConfidence: number; // 0-100
+}
+
+export interface RuleFinding {
+    ruleId: string;
+    severity: 'low' | 'medium' | 'high';
+    message: string;
+    minimumFraudScore: number;
+    token?: string;
+    spender?: string;
+    amount?: string;
+}
+
+export interface TokenBalanceChange {
+    token: string;
+    standard: 'erc20' | 'erc721' | 'erc1155';
+    tokenId?: string;
+    amount: string; // signed, in token base units
+}
+
+export interface BalanceChange {
+    address: string;
+    native: string; // signed wei delta
+    tokens: TokenBalanceChange[];
+}
+
+export interface SimulatedApproval {
+    token: string;
+    standard: 'erc20' | 'erc721' | 'erc1155';
+    owner: string;
+    spender: string;
+    amount?: string;
+    tokenId?: string;
+    approved?: boolean;
+}
+
+export interface SimulationResult {
+    success: boolean;
+    method: 'debug_traceCall' | 'eth_call';
+    reverted: boolean;
+    revertReason?: string;
+    gasUsed?: string;
+    balanceChanges: BalanceChange[];
+    approvals: SimulatedApproval[];
+    error?: string;
+}
+
+export interface SourceSnippet {
+    kind: 'function' | 'modifier' | 'state_variable';
+    name: string;
+    contract: string;
+    path: string;
+    startLine: number;
+    endLine: number;
+}
+
+export interface SourceExcerpt {
+    method: string; // called function the excerpt was built for
+    files: number; // files in the verified source
+    snippets: SourceSnippet[];
+    text: string; // snippets with file:line headers, as sent to the AI
+    truncated: boolean; // snippets were dropped to fit SOURCE_PROMPT_MAX_CHARS
 }
 
 export interface DecodedTxWithAbi {
@@ -34,10 +285,18 @@ export interface DecodedTxWithAbi {
             abiAvailable: boolean;
             abiSource: string;
             sourceCodeAvailable?: boolean;
+            proxyType?: ProxyInfo['proxyType'];
+            implementationAddress?: string;
+            recentlyUpgraded?: boolean;
+            cache?: AbiCacheInfo;
+            bytecode?: RuntimeCodeAnalysis; // present when the target is unverified
         };
     };
     abi: string;
     sourceCode: string;
+    sourceExcerpt?: SourceExcerpt; // code relevant to the called function, sent instead of the full source
+    ruleFindings?: RuleFinding[];
+    simulation?: SimulationResult;
     timestamp: string;
     error?: string;
 }
@@ -53,16 +312,102 @@ export interface TransactionAnalysisResult {
             address: string;
             abiAvailable: boolean;
             abiSource: string;
+            proxyType?: ProxyInfo['proxyType'];
+            implementationAddress?: string;
+            recentlyUpgraded?: boolean;
+            cache?: AbiCacheInfo;
+            bytecode?: RuntimeCodeAnalysis; // present when the target is unverified
         };
+        reputation?: ReputationMatch[];
+        initCode?: InitCodeAnalysis;
+        ruleFindings?: RuleFinding[]; // EIP-7702 delegation findings
     };
     timestamp: string;
     error?: string;
 }
 
+export type RiskFactorSource = 'ai' | 'heuristic' | 'rules' | 'reputation' | 'verification' | 'simulation' | 'domain';
+
+export interface RiskFactor {
+    id: string; // rule ID or signal name, e.g. UNLIMITED_APPROVAL, AI_VERDICT
+    source: RiskFactorSource;
+    weight: number; // configured weight of the source (RISK_WEIGHT_<SOURCE>); 1 for the verdict
+    score: number; // 0-100, the signal on its own
+    contribution: number; // points of the final fraudScore attributed to this factor
+    evidence: string;
+}
+
+export interface RiskAssessment {
+    fraudScore: number; // 0-100
+    riskLevel: 'low' | 'medium' | 'high';
+    factors: RiskFactor[];
+}
+
+/**
+ * Stages reported while an analysis runs (streamed as Server-Sent Events). `preliminary` is the deterministic
+ * verdict available before the AI answers; the final result follows separately.
+ */
+export type AnalysisProgressEvent =
+    | { stage: 'decoded'; transaction: Partial<DecodedTransaction> }
+    | { stage: 'contract'; decodedData?: DecodedTransaction['decodedData']; contractInfo?: DecodedTxWithAbi['analysis']['contractInfo']; sourceExcerpt?: SourceExcerpt }
+    | { stage: 'rules'; findings: RuleFinding[]; simulation?: SimulationResult; preliminary: RiskAssessment }
+    | { stage: 'domain'; domainCheck: DomainCheckResult; preliminary: RiskAssessment }
+    | { stage: 'reasoning'; delta: string }; // reasoning summary text from the model, as it is generated
+
+export type AnalysisProgressListener = (event: AnalysisProgressEvent) => void;
+
+export type PolicyRuleType =
+    | 'max_native_value'
+    | 'contract_allowlist'
+    | 'spender_allowlist'
+    | 'no_unlimited_approvals'
+    | 'min_contract_age'
+    | 'blocked_chains'
+    | 'max_fraud_score';
+
+export interface PolicyRule {
+    id: string;
+    type: PolicyRuleType;
+    action: 'warn' | 'block';
+    value?: string | number; // max_native_value (in ether, e.g. "10.5") and max_fraud_score
+    addresses?: string[]; // contract_allowlist and spender_allowlist
+    days?: number; // min_contract_age
+    allowUnknown?: boolean; // min_contract_age: pass contracts whose deployment date cannot be looked up
+    chainIds?: number[]; // blocked_chains
+}
+
+export interface Policy {
+    id: string;
+    version: string | number;
+    organization?: string;
+    apiKeys: string[];
+    default?: boolean; // applies to requests without a known API key
+    rules: PolicyRule[];
+    source: string; // file the policy was loaded from
+}
+
+export type PolicyDecision = 'allow' | 'warn' | 'block';
+
+export interface PolicyViolation {
+    ruleId: string;
+    type: PolicyRuleType;
+    action: 'warn' | 'block';
+    message: string;
+}
+
+export interface PolicyEvaluation {
+    policyId: string;
+    policyVersion: string | number;
+    organization?: string;
+    decision: PolicyDecision;
+    violatedRules: string[];
+    violations: PolicyViolation[];
+}
+
 export interface AIAnalysisResult {
     success: boolean;
     analysis: {
-        type: 'eth_transfer' | 'contract_creation' | 'contract_interaction' | 'unknown';
+        type: 'eth_transfer' | 'contract_creation' | 'contract_interaction' | 'typed_data_signature' | 'message_signature' | 'wallet_request' | 'unknown';
         riskLevel: 'low' | 'medium' | 'high';
         fraudScore: number; // 0-100
         description: string;
@@ -74,13 +419,137 @@ export interface AIAnalysisResult {
             abiSource: string;
             functionName?: string;
             functionDescription?: string;
+            proxyType?: ProxyInfo['proxyType'];
+            implementationAddress?: string;
+            recentlyUpgraded?: boolean;
+            cache?: AbiCacheInfo;
+            bytecode?: RuntimeCodeAnalysis; // present when the target is unverified
         };
+        ruleFindings?: RuleFinding[];
+        minimumFraudScore?: number; // floor set by deterministic rules
+        reputation?: ReputationMatch[];
+        recipientCheck?: RecipientCheck;
+        initCode?: InitCodeAnalysis;
+        factors?: RiskFactor[]; // score breakdown; contributions sum to fraudScore
         aiConfidence: number; // 0-100
+        analysisMode?: AnalysisMode;
+        validationStatus?: ValidationStatus;
+        validationIssues?: string[];
+    };
+    simulation?: SimulationResult;
+    policyDecision?: PolicyDecision; // set when an organization policy applies to the request
+    policy?: PolicyEvaluation;
+    timestamp: string;
+    error?: string;
+}
+
+export type PermitKind =
+    | 'erc2612'
+    | 'dai'
+    | 'permit2_single'
+    | 'permit2_batch'
+    | 'permit2_transfer_from'
+    | 'permit2_batch_transfer_from'
+    | 'unknown';
+
+export interface PermitDetails {
+    token: string;
+    spender: string;
+    amount: string;
+    isUnlimited: boolean;
+    deadline?: string;
+    nonce?: string;
+}
+
+export interface DecodedTypedData {
+    signer?: string;
+    primaryType: string;
+    legacy?: boolean; // eth_signTypedData v1: a flat { type, name, value } list without domain or types
+    domain: {
+        name?: string;
+        version?: string;
+        chainId?: number;
+        verifyingContract?: string;
+        salt?: string;
     };
+    message: Record<string, unknown>;
+    requestedChainId?: number;
+    permitKind: PermitKind;
+    permits: PermitDetails[];
+}
+
+export interface DecodedTypedDataWithAbi {
+    success: boolean;
+    typedData: DecodedTypedData;
+    warnings: string[];
+    contractInfo?: {
+        address: string;
+        abiAvailable: boolean;
+        abiSource: string;
+        sourceCodeAvailable?: boolean;
+        cache?: AbiCacheInfo;
+    };
+    abi: string;
+    sourceCode: string;
     timestamp: string;
     error?: string;
 }
 
+export interface TypedDataAnalysisResult extends AIAnalysisResult {
+    typedData?: DecodedTypedData;
+}
+
+export interface DecodedMessage {
+    method: 'personal_sign' | 'eth_sign';
+    signer?: string;
+    raw: string;
+    encoding: 'utf8' | 'hex';
+    text?: string;
+    isBlindHash: boolean;
+    isRlpTransaction: boolean;
+    embeddedTransaction?: DecodedTransaction;
+    siwe?: {
+        domain: string;
+        address: string;
+        uri: string;
+        chainId: number;
+        nonce: string;
+        statement?: string;
+        expirationTime?: string;
+        domainMatchesOrigin?: boolean;
+    };
+    origin?: string;
+}
+
+export interface MessageAnalysisResult extends AIAnalysisResult {
+    message?: DecodedMessage;
+}
+
+export interface WalletRequestInfo {
+    method: string;
+    chainId?: number;
+    chainName?: string;
+    rpcUrls?: string[];
+    nativeCurrencySymbol?: string;
+    asset?: {
+        type: string;
+        address: string;
+        symbol?: string;
+        decimals?: number;
+        image?: string;
+    };
+    permissions?: string[];
+}
+
+export interface RpcAnalysisResult extends AIAnalysisResult {
+    method: string;
+    analyzed: boolean;
+    transaction?: DecodedTransaction;
+    typedData?: DecodedTypedData;
+    message?: DecodedMessage;
+    walletRequest?: WalletRequestInfo;
+}
+
 export interface WebsiteConnectionRequest {
     url: string;
     origin: string;
@@ -95,6 +564,24 @@ export interface WebsiteConnectionRequest {
     };
 }
 
+export interface DomainMatch {
+    brand: string;
+    legitimateDomain: string;
+    technique: 'homoglyph' | 'subdomain' | 'keyboard_adjacency' | 'edit_distance' | 'lookalike_tld' | 'brand_in_domain';
+    distance?: number;
+}
+
+export interface DomainCheckResult {
+    hostname: string; // as requested (punycode for IDNs)
+    unicodeHostname: string;
+    registrableDomain: string;
+    isPunycode: boolean;
+    isLegitimate: boolean; // registrable domain is on the legitimate list
+    matches: DomainMatch[]; // impersonated domains, most certain first
+    warnings: string[];
+    riskScore: number; // 0-100
+}
+
 export interface WebsiteAnalysisResult {
     success: boolean;
     analysis: {
@@ -111,7 +598,12 @@ export interface WebsiteAnalysisResult {
             domainAge?: string;
             sslStatus?: string;
         };
+        domainCheck?: DomainCheckResult;
+        factors?: RiskFactor[]; // score breakdown; contributions sum to fraudScore
         aiConfidence: number; // 0-100
+        analysisMode?: AnalysisMode;
+        validationStatus?: ValidationStatus;
+        validationIssues?: string[];
     };
     timestamp: string;
     error?: string;
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { WalletRequestAnalyzer } from './walletRequestAnalyzer';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const FAKE_TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+describe('WalletRequestAnalyzer.analyzeAddEthereumChain', () => {
+    it('accepts a well-known chain served by its usual provider', () => {
+        const result = WalletRequestAnalyzer.analyzeAddEthereumChain([{
+            chainId: '0x89',
+            chainName: 'Polygon Mainnet',
+            rpcUrls: ['https://polygon-rpc.com'],
+            nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 }
+        }]);
+
+        assert.deepEqual(result.analysis.warnings, []);
+        assert.equal(result.analysis.riskLevel, 'low');
+        assert.equal(result.walletRequest?.chainId, 137);
+    });
+
+    it('flags a chain name that impersonates a known chain over an insecure raw IP', () => {
+        const result = WalletRequestAnalyzer.analyzeAddEthereumChain([{
+            chainId: '0x539',
+            chainName: 'Ethereum Mainnet',
+            rpcUrls: ['http://203.0.113.7:8545'],
+            nativeCurrency: { symbol: 'ETH' }
+        }]);
+
+        assert.ok(result.analysis.warnings.some((w) => w.includes('impersonates ethereum')));
+        assert.ok(result.analysis.warnings.some((w) => w.includes('does not use TLS')));
+        assert.ok(result.analysis.warnings.some((w) => w.includes('raw IP address')));
+        assert.equal(result.analysis.riskLevel, 'high');
+    });
+
+    it('compares whole chain names rather than substrings', () => {
+        const mislabeled = WalletRequestAnalyzer.analyzeAddEthereumChain([{ chainId: '0x1', chainName: 'Polygon Mainnet', rpcUrls: ['https://eth.llamarpc.com'] }]);
+        const impersonation = WalletRequestAnalyzer.analyzeAddEthereumChain([{ chainId: '0x539', chainName: 'BNB Smart Chain Mainnet', rpcUrls: ['https://rpc.example'] }]);
+        const unrelated = WalletRequestAnalyzer.analyzeAddEthereumChain([{ chainId: '0x539', chainName: 'Base Camp Testnet', rpcUrls: ['https://rpc.example'] }]);
+
+        assert.ok(mislabeled.analysis.warnings.some((w) => w.includes('does not match chainId 1')));
+        assert.ok(impersonation.analysis.warnings.some((w) => w.includes('impersonates')));
+        assert.ok(!unrelated.analysis.warnings.some((w) => w.includes('impersonates')));
+    });
+
+    it('flags a known chainId with the wrong name and currency', () => {
+        const result = WalletRequestAnalyzer.analyzeAddEthereumChain([{
+            chainId: '0x1',
+            chainName: 'Cheap Gas Network',
+            rpcUrls: ['https://rpc.cheapgas.example'],
+            nativeCurrency: { symbol: 'CGN' }
+        }]);
+
+        assert.ok(result.analysis.warnings.some((w) => w.includes('does not match chainId 1')));
+        assert.ok(result.analysis.warnings.some((w) => w.includes('Native currency CGN')));
+        assert.ok(result.analysis.warnings.some((w) => w.includes('not a well-known provider')));
+    });
+});
+
+describe('WalletRequestAnalyzer.analyzeWatchAsset', () => {
+    it('accepts the canonical token for a symbol', () => {
+        const result = WalletRequestAnalyzer.analyzeWatchAsset({ type: 'ERC20', options: { address: USDC, symbol: 'USDC', decimals: 6 } }, '0x1');
+
+        assert.deepEqual(result.analysis.warnings, []);
+    });
+
+    it('flags fake well-known tokens, native symbols and lookalike characters', () => {
+        const fakeUsdc = WalletRequestAnalyzer.analyzeWatchAsset([{ type: 'ERC20', options: { address: FAKE_TOKEN, symbol: 'USDC', decimals: 6 } }], '0x1');
+        const native = WalletRequestAnalyzer.analyzeWatchAsset({ options: { address: FAKE_TOKEN, symbol: 'ETH', decimals: 18 } }, '0x1');
+        const lookalike = WalletRequestAnalyzer.analyzeWatchAsset({ options: { address: FAKE_TOKEN, symbol: 'USDС', decimals: 6 } });
+
+        assert.ok(fakeUsdc.analysis.warnings.some((w) => w.startsWith('Fake USDC')));
+        assert.ok(native.analysis.warnings.some((w) => w.includes('native currency symbol ETH')));
+        assert.ok(lookalike.analysis.warnings.some((w) => w.includes('non-ASCII')));
+    });
+});
+
+describe('WalletRequestAnalyzer switch and permission requests', () => {
+    it('notes switches to unrecognized chains', () => {
+        assert.deepEqual(WalletRequestAnalyzer.analyzeSwitchEthereumChain([{ chainId: '0xa' }]).analysis.warnings, []);
+        assert.ok(WalletRequestAnalyzer.analyzeSwitchEthereumChain([{ chainId: '0x539' }]).analysis.warnings[0].includes('unrecognized chainId 1337'));
+        assert.ok(WalletRequestAnalyzer.analyzeSwitchEthereumChain([{}]).analysis.warnings[0].includes('missing or invalid'));
+    });
+
+    it('lists permissions other than eth_accounts', () => {
+        const result = WalletRequestAnalyzer.analyzeRequestPermissions([{ eth_accounts: {}, snap_dialog: {} }]);
+
+        assert.deepEqual(result.walletRequest?.permissions, ['eth_accounts', 'snap_dialog']);
+        assert.deepEqual(result.analysis.warnings, ['Requests uncommon permission snap_dialog']);
+    });
+});
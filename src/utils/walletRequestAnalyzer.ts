@@ -0,0 +1,253 @@
+import { isAddress } from 'viem';
+import { getKnownChain, KNOWN_CHAINS, NATIVE_SYMBOLS, TRUSTED_RPC_PROVIDERS, WELL_KNOWN_TOKENS } from './chains';
+import { RpcAnalysisResult, WalletRequestInfo } from './types';
+
+// Words chain lists and dApps append to any network name ("BNB Smart Chain Mainnet", "Base Network")
+const GENERIC_CHAIN_NAME_WORDS = ['mainnet', 'network'];
+
+interface Finding {
+    message: string;
+    score: number;
+}
+
+export class WalletRequestAnalyzer {
+    /**
+     * Analyzes wallet_addEthereumChain for impersonated chains and suspicious RPC URLs
+     */
+    static analyzeAddEthereumChain(params: unknown[]): RpcAnalysisResult {
+        const request = (params[0] ?? {}) as {
+            chainId?: string;
+            chainName?: string;
+            rpcUrls?: string[];
+            nativeCurrency?: { name?: string; symbol?: string; decimals?: number };
+        };
+
+        const chainId = this.parseChainId(request.chainId);
+        const rpcUrls = Array.isArray(request.rpcUrls) ? request.rpcUrls.filter((u) => typeof u === 'string') : [];
+        const walletRequest: WalletRequestInfo = {
+            method: 'wallet_addEthereumChain',
+            chainId,
+            chainName: request.chainName,
+            rpcUrls,
+            nativeCurrencySymbol: request.nativeCurrency?.symbol
+        };
+
+        const findings: Finding[] = [];
+        const known = chainId !== undefined ? getKnownChain(chainId) : undefined;
+        const normalizedName = (request.chainName ?? '').trim().toLowerCase();
+
+        if (chainId === undefined) {
+            findings.push({ message: 'Chain ID is missing or invalid', score: 40 });
+        }
+
+        if (known && normalizedName && !this.matchesChainName(normalizedName, known.names)) {
+            findings.push({ message: `Chain name "${request.chainName}" does not match chainId ${chainId} (${known.names[0]})`, score: 40 });
+        }
+
+        if (!known && normalizedName) {
+            const impersonated = Object.values(KNOWN_CHAINS).find((c) => this.matchesChainName(normalizedName, c.names));
+            if (impersonated) {
+                findings.push({ message: `Chain name "${request.chainName}" impersonates ${impersonated.names[0]} (chainId ${impersonated.chainId}) but uses chainId ${chainId}`, score: 50 });
+            }
+        }
+
+        const symbol = request.nativeCurrency?.symbol;
+        if (known && symbol && symbol.toUpperCase() !== known.nativeSymbol) {
+            findings.push({ message: `Native currency ${symbol} does not match ${known.nativeSymbol} for chainId ${chainId}`, score: 30 });
+        }
+
+        if (rpcUrls.length === 0) {
+            findings.push({ message: 'No RPC URL provided', score: 20 });
+        }
+        for (const rpcUrl of rpcUrls) {
+            findings.push(...this.checkRpcUrl(rpcUrl, known?.rpcHosts));
+        }
+
+        return this.buildResult(walletRequest, 20, findings, 'Add network request');
+    }
+
+    /**
+     * Analyzes wallet_switchEthereumChain
+     */
+    static analyzeSwitchEthereumChain(params: unknown[]): RpcAnalysisResult {
+        const request = (params[0] ?? {}) as { chainId?: string };
+        const chainId = this.parseChainId(request.chainId);
+        const walletRequest: WalletRequestInfo = { method: 'wallet_switchEthereumChain', chainId };
+
+        const findings: Finding[] = [];
+        if (chainId === undefined) {
+            findings.push({ message: 'Chain ID is missing or invalid', score: 30 });
+        } else if (!getKnownChain(chainId)) {
+            findings.push({ message: `Switching to unrecognized chainId ${chainId}`, score: 15 });
+        }
+
+        return this.buildResult(walletRequest, 5, findings, 'Switch network request');
+    }
+
+    /**
+     * Analyzes wallet_watchAsset for fake tokens impersonating well-known symbols
+     */
+    static analyzeWatchAsset(params: unknown[] | Record<string, unknown>, chainIdHint?: string): RpcAnalysisResult {
+        // EIP-747 sends an object as params; some providers wrap it in an array
+        const request = (Array.isArray(params) ? params[0] ?? {} : params) as {
+            type?: string;
+            options?: { address?: string; symbol?: string; decimals?: number; image?: string; chainId?: string | number };
+        };
+        const options = request.options ?? {};
+        const chainId = this.parseChainId(options.chainId ?? chainIdHint);
+        const address = options.address ?? '';
+        const symbol = options.symbol;
+
+        const walletRequest: WalletRequestInfo = {
+            method: 'wallet_watchAsset',
+            chainId,
+            asset: {
+                type: request.type ?? 'ERC20',
+                address,
+                symbol,
+                decimals: options.decimals,
+                image: options.image
+            }
+        };
+
+        const findings: Finding[] = [];
+
+        if (!isAddress(address)) {
+            findings.push({ message: 'Token address is missing or invalid', score: 40 });
+        }
+
+        if (symbol) {
+            const upper = symbol.toUpperCase();
+
+            if (!/^[\x20-\x7e]+$/.test(symbol)) {
+                findings.push({ message: `Token symbol "${symbol}" contains non-ASCII lookalike characters`, score: 40 });
+            }
+
+            if (NATIVE_SYMBOLS.includes(upper)) {
+                findings.push({ message: `Token claims the native currency symbol ${upper}`, score: 50 });
+            }
+
+            const lowerAddress = address.toLowerCase();
+            if (chainId !== undefined && WELL_KNOWN_TOKENS[chainId]?.[upper]) {
+                if (WELL_KNOWN_TOKENS[chainId][upper] !== lowerAddress) {
+                    findings.push({ message: `Fake ${upper}: ${address} is not the canonical ${upper} contract on chainId ${chainId}`, score: 60 });
+                }
+            } else {
+                const canonical = Object.values(WELL_KNOWN_TOKENS)
+                    .map((tokens) => tokens[upper])
+                    .filter((a): a is string => !!a);
+                if (canonical.length > 0 && !canonical.includes(lowerAddress)) {
+                    findings.push({ message: `Token uses the well-known symbol ${upper} but is not a known ${upper} contract`, score: 40 });
+                }
+            }
+        }
+
+        if (options.decimals !== undefined && (options.decimals < 0 || options.decimals > 36)) {
+            findings.push({ message: `Unusual token decimals: ${options.decimals}`, score: 15 });
+        }
+
+        return this.buildResult(walletRequest, 10, findings, 'Watch asset request');
+    }
+
+    /**
+     * Analyzes wallet_requestPermissions (EIP-2255)
+     */
+    static analyzeRequestPermissions(params: unknown[]): RpcAnalysisResult {
+        const request = (params[0] ?? {}) as Record<string, unknown>;
+        const permissions = Object.keys(request);
+        const walletRequest: WalletRequestInfo = { method: 'wallet_requestPermissions', permissions };
+
+        const findings: Finding[] = permissions
+            .filter((p) => p !== 'eth_accounts')
+            .map((p) => ({ message: `Requests uncommon permission ${p}`, score: 15 }));
+
+        return this.buildResult(walletRequest, 5, findings, 'Permission request');
+    }
+
+    /**
+     * Whole-name comparison after dropping punctuation and generic words, so "Polygon Mainnet" does not match
+     * Ethereum's "mainnet"
+     */
+    private static matchesChainName(name: string, knownNames: string[]): boolean {
+        const normalize = (value: string) => value.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w && !GENERIC_CHAIN_NAME_WORDS.includes(w)).join(' ');
+        const normalized = normalize(name);
+        return knownNames.some((known) => normalize(known) === normalized);
+    }
+
+    /**
+     * Checks an RPC URL for insecure transport, raw IPs and unknown providers
+     */
+    private static checkRpcUrl(rpcUrl: string, knownHosts: string[] = []): Finding[] {
+        let url: URL;
+        try {
+            url = new URL(rpcUrl);
+        } catch {
+            return [{ message: `RPC URL ${rpcUrl} is not a valid URL`, score: 40 }];
+        }
+
+        const findings: Finding[] = [];
+        const host = url.hostname.toLowerCase();
+
+        if (url.protocol !== 'https:' && url.protocol !== 'wss:') {
+            findings.push({ message: `RPC URL ${rpcUrl} does not use TLS`, score: 30 });
+        }
+
+        if (url.username || url.password) {
+            findings.push({ message: `RPC URL ${rpcUrl} embeds credentials`, score: 15 });
+        }
+
+        if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.startsWith('[')) {
+            findings.push({ message: `RPC URL ${rpcUrl} points to a raw IP address`, score: 25 });
+        } else if (host === 'localhost') {
+            findings.push({ message: `RPC URL ${rpcUrl} points to localhost`, score: 15 });
+        } else if (knownHosts.length > 0) {
+            const trusted = [...knownHosts, ...TRUSTED_RPC_PROVIDERS]
+                .some((suffix) => host === suffix || host.endsWith(`.${suffix}`));
+            if (!trusted) {
+                findings.push({ message: `RPC URL ${rpcUrl} is not a well-known provider for this chain`, score: 20 });
+            }
+        }
+
+        return findings;
+    }
+
+    private static parseChainId(value: unknown): number | undefined {
+        if (typeof value === 'number') {
+            return Number.isInteger(value) && value > 0 ? value : undefined;
+        }
+        if (typeof value !== 'string' || value === '') {
+            return undefined;
+        }
+        const parsed = value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+        return Number.isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+    }
+
+    private static buildResult(
+        walletRequest: WalletRequestInfo,
+        baseScore: number,
+        findings: Finding[],
+        description: string
+    ): RpcAnalysisResult {
+        const fraudScore = Math.min(100, findings.reduce((sum, f) => sum + f.score, baseScore));
+        const riskLevel = fraudScore >= 70 ? 'high' : fraudScore >= 30 ? 'medium' : 'low';
+
+        return {
+            success: true,
+            method: walletRequest.method,
+            analyzed: true,
+            analysis: {
+                type: 'wallet_request',
+                riskLevel,
+                fraudScore,
+                description,
+                reasoning: findings.length > 0
+                    ? `Deterministic checks found ${findings.length} issue(s) with this ${walletRequest.method} request.`
+                    : `No issues found with this ${walletRequest.method} request.`,
+                warnings: findings.map((f) => f.message),
+                aiConfidence: 0
+            },
+            walletRequest,
+            timestamp: new Date().toISOString()
+        };
+    }
+}
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { WebsiteAnalyzer } from './websiteAnalyzer';
+import { AnalysisProgressEvent } from './types';
+
+describe('WebsiteAnalyzer progress', () => {
+    beforeEach(() => {
+        process.env.LLM_PROVIDER = 'mock';
+        mock.method(console, 'log', () => undefined);
+    });
+
+    afterEach(() => {
+        delete process.env.LLM_PROVIDER;
+        mock.restoreAll();
+    });
+
+    it('reports the domain check with a preliminary verdict before the AI answers', async () => {
+        const events: AnalysisProgressEvent[] = [];
+
+        const result = await WebsiteAnalyzer.analyzeWebsiteConnection({
+            url: 'https://uniswap.org.claim-rewards.xyz',
+            origin: 'https://uniswap.org.claim-rewards.xyz',
+            timestamp: 0,
+            walletType: 'metamask',
+            requestType: 'connect'
+        }, (event) => events.push(event));
+
+        assert.deepEqual(events.map((event) => event.stage), ['domain']);
+        const [domain] = events;
+        assert.equal(domain.stage === 'domain' && domain.domainCheck.matches[0].technique, 'subdomain');
+        assert.ok(domain.stage === 'domain' && domain.preliminary.fraudScore >= domain.domainCheck.riskScore);
+        assert.equal(domain.stage === 'domain' && domain.preliminary.factors[0].id, 'HEURISTIC_SCORE');
+        assert.ok(result.analysis.fraudScore >= 90);
+    });
+});
@@ -1,18 +1,59 @@
-import OpenAI from 'openai';
-import { WebsiteConnectionRequest, WebsiteAnalysisResult } from './types';
+import { DomainChecker } from './domainChecker';
+import { LlmProviders, LlmResponseError, LlmTool, RISK_SCORE_CONSISTENCY } from './llmProvider';
+import { HeuristicScorer } from './heuristicScorer';
+import { RiskFusion } from './riskFusion';
+import { AnalysisProgressListener, DomainCheckResult, WebsiteAssessment, WebsiteConnectionRequest, WebsiteAnalysisResult } from './types';
 
-export class WebsiteAnalyzer {
-    private static getOpenAI(): OpenAI {
-        const apiKey = process.env.OPENAI_API_KEY;
-        if (!apiKey) {
-            throw new Error('OPENAI_API_KEY environment variable is required');
-        }
-        return new OpenAI({ apiKey });
+const WEBSITE_ASSESSMENT_SYSTEM = `You are an expert cybersecurity analyst specializing in phishing and crypto fraud detection.
+Analyze the provided website connection request and determine if it's potentially malicious.
+
+Focus on detecting:
+- Phishing websites impersonating legitimate crypto services
+- Suspicious domain patterns (typosquatting, homograph attacks)
+- Known malicious domains
+- Fake DeFi/NFT platforms
+- Scam websites`;
+
+const WEBSITE_ASSESSMENT_TOOL: LlmTool = {
+    name: 'report_website_assessment',
+    description: 'Report the phishing/fraud assessment of a website connection request.',
+    parameters: {
+        type: 'object',
+        properties: {
+            riskLevel: { type: 'string', enum: ['low', 'medium', 'high'], description: 'Level of risk determined by analysis' },
+            fraudScore: { type: 'integer', minimum: 0, maximum: 100, description: 'Fraud risk score between 0 and 100' },
+            description: { type: 'string', description: 'Brief description' },
+            reasoning: { type: 'string', description: 'Detailed analysis reasoning' },
+            warnings: { type: 'array', items: { type: 'string' }, description: 'Warning messages' },
+            isKnownPhishing: { type: 'boolean', description: 'Whether the site is a known phishing site' },
+            isOnBlacklist: { type: 'boolean', description: 'Whether the site is on a known blacklist' },
+            aiConfidence: { type: 'integer', minimum: 0, maximum: 100, description: 'Confidence between 0 and 100' }
+        },
+        required: ['riskLevel', 'fraudScore', 'description', 'reasoning', 'warnings', 'isKnownPhishing', 'isOnBlacklist', 'aiConfidence'],
+        additionalProperties: false
     }
+};
+
+export class WebsiteAnalyzer {
     /**
-     * Analyzes a website connection request for phishing/fraud
+     * Analyzes a website connection request for phishing/fraud. `onProgress` receives the domain check
+     * with a preliminary verdict, then the model's reasoning summary.
      */
-    static async analyzeWebsiteConnection(request: WebsiteConnectionRequest): Promise<WebsiteAnalysisResult> {
+    static async analyzeWebsiteConnection(request: WebsiteConnectionRequest, onProgress?: AnalysisProgressListener): Promise<WebsiteAnalysisResult> {
+        // Deterministic lookalike check runs first so its verdict survives an AI failure
+        const domainCheck = DomainChecker.check(request.url);
+        if (onProgress) {
+            const heuristic = HeuristicScorer.scoreWebsite(domainCheck);
+            onProgress({
+                stage: 'domain',
+                domainCheck,
+                preliminary: RiskFusion.fuse(
+                    { fraudScore: heuristic.fraudScore, description: '', reasoning: heuristic.signals.join('; '), analysisMode: 'heuristic' },
+                    { domainCheck }
+                )
+            });
+        }
+
         try {
             const domain = this.extractDomain(request.url);
             const websiteInfo = {
@@ -23,74 +64,77 @@ export class WebsiteAnalyzer {
             };
 
             // Create AI prompt for website analysis
-            const prompt = this.createWebsiteAnalysisPrompt(request);
+            const prompt = this.createWebsiteAnalysisPrompt(request, domainCheck);
             console.log('Website analysis prompt:', prompt);
 
-            const openai = this.getOpenAI();
-            const completion = await openai.chat.completions.create({
-                model: 'gpt-4',
-                messages: [
-                    {
-                        role: 'system',
-                        content: `You are an expert cybersecurity analyst specializing in phishing and crypto fraud detection.
-                        Analyze the provided website connection request and determine if it's potentially malicious.
-                        
-                        Focus on detecting:
-                        - Phishing websites impersonating legitimate crypto services
-                        - Suspicious domain patterns (typosquatting, homograph attacks)
-                        - Known malicious domains
-                        - Fake DeFi/NFT platforms
-                        - Scam websites
-                        
-                        Return ONLY valid JSON in this exact format:
-                        {
-                            "riskLevel": "low|medium|high",
-                            "fraudScore": 0-100,
-                            "description": "Brief description",
-                            "reasoning": "Detailed analysis reasoning",
-                            "warnings": ["warning1", "warning2"],
-                            "isKnownPhishing": true/false,
-                            "isOnBlacklist": true/false,
-                            "aiConfidence": 0-100
-                        }`
-                    },
-                    {
-                        role: 'user',
-                        content: prompt
-                    }
-                ],
+            const assessment = await LlmProviders.callTool<WebsiteAssessment>('website', {
+                system: WEBSITE_ASSESSMENT_SYSTEM,
+                prompt,
+                tool: WEBSITE_ASSESSMENT_TOOL,
+                consistency: RISK_SCORE_CONSISTENCY,
                 temperature: 0.3,
-                max_tokens: 1000
+                maxTokens: 1000,
+                onReasoning: onProgress ? (delta) => onProgress({ stage: 'reasoning', delta }) : undefined
             });
+            const aiAnalysis = assessment.args;
 
-            const response = completion.choices[0]?.message?.content;
-            if (!response) {
-                throw new Error('No response from AI');
-            }
-
-            const aiAnalysis = JSON.parse(response);
+            // The verdict is weighed against the domain check, which is also a floor the AI cannot score below
+            const fusion = RiskFusion.fuse({
+                fraudScore: aiAnalysis.fraudScore ?? 0,
+                description: aiAnalysis.description,
+                reasoning: aiAnalysis.reasoning,
+                analysisMode: 'ai'
+            }, { domainCheck });
 
             return {
                 success: true,
                 analysis: {
-                    riskLevel: aiAnalysis.riskLevel,
-                    fraudScore: aiAnalysis.fraudScore,
+                    riskLevel: fusion.riskLevel,
+                    fraudScore: fusion.fraudScore,
                     description: aiAnalysis.description,
                     reasoning: aiAnalysis.reasoning,
-                    warnings: aiAnalysis.warnings || [],
+                    warnings: [...domainCheck.warnings, ...(aiAnalysis.warnings || [])],
                     websiteInfo: {
                         ...websiteInfo,
                         isKnownPhishing: aiAnalysis.isKnownPhishing,
                         isOnBlacklist: aiAnalysis.isOnBlacklist
                     },
-                    aiConfidence: aiAnalysis.aiConfidence
+                    domainCheck,
+                    factors: fusion.factors,
+                    aiConfidence: aiAnalysis.aiConfidence,
+                    analysisMode: 'ai',
+                    validationStatus: assessment.validationStatus,
+                    validationIssues: assessment.issues.length > 0 ? assessment.issues : undefined
                 },
                 timestamp: new Date().toISOString()
             };
 
         } catch (error) {
             console.error('Website analysis error:', error);
+            return this.fallbackResult(request, domainCheck, error);
+        }
+    }
+
+    /**
+     * Result for a failed AI call, according to AI_FAILURE_MODE_WEBSITE / AI_FAILURE_MODE.
+     * The domain check's floor applies in every mode.
+     */
+    private static fallbackResult(request: WebsiteConnectionRequest, domainCheck: DomainCheckResult, error: unknown): WebsiteAnalysisResult {
+        const mode = HeuristicScorer.getFailureMode('website');
+        const websiteInfo = {
+            url: request.url,
+            domain: this.extractDomain(request.url),
+            isKnownPhishing: false,
+            isOnBlacklist: false
+        };
+        const timestamp = new Date().toISOString();
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        // Set when the model answered but no attempt passed validation
+        const validation = error instanceof LlmResponseError
+            ? { validationStatus: 'invalid' as const, validationIssues: error.issues }
+            : {};
 
+        if (mode === 'fail-closed') {
             return {
                 success: false,
                 analysis: {
@@ -98,25 +142,50 @@ export class WebsiteAnalyzer {
                     fraudScore: 100,
                     description: 'Website analysis failed',
                     reasoning: 'Unable to analyze website due to technical error',
-                    warnings: ['Analysis service unavailable'],
-                    websiteInfo: {
-                        url: request.url,
-                        domain: this.extractDomain(request.url),
-                        isKnownPhishing: false,
-                        isOnBlacklist: false
-                    },
-                    aiConfidence: 0
+                    warnings: [...domainCheck.warnings, 'Analysis service unavailable'],
+                    websiteInfo,
+                    domainCheck,
+                    factors: RiskFusion.failClosed().factors,
+                    aiConfidence: 0,
+                    analysisMode: 'fail-closed',
+                    ...validation
                 },
-                timestamp: new Date().toISOString(),
-                error: error instanceof Error ? error.message : 'Unknown error'
+                timestamp,
+                error: message
             };
         }
+
+        const heuristic = mode === 'heuristic' ? HeuristicScorer.scoreWebsite(domainCheck) : undefined;
+        const description = heuristic ? 'Heuristic website assessment (AI unavailable)' : 'AI analysis unavailable';
+        const reasoning = heuristic
+            ? `Scored from deterministic signals: ${heuristic.signals.join('; ')}`
+            : 'Only the domain check was applied because the AI service failed and this route fails open';
+        const fusion = RiskFusion.fuse({ fraudScore: heuristic?.fraudScore ?? 0, description, reasoning, analysisMode: mode }, { domainCheck });
+
+        return {
+            success: true,
+            analysis: {
+                riskLevel: fusion.riskLevel,
+                fraudScore: fusion.fraudScore,
+                description,
+                reasoning,
+                warnings: [...domainCheck.warnings, heuristic ? 'AI analysis unavailable; score is heuristic' : 'AI analysis unavailable; not scored'],
+                websiteInfo,
+                domainCheck,
+                factors: fusion.factors,
+                aiConfidence: 0,
+                analysisMode: mode,
+                ...validation
+            },
+            timestamp,
+            error: message
+        };
     }
 
     /**
      * Creates analysis prompt for website security assessment
      */
-    private static createWebsiteAnalysisPrompt(request: WebsiteConnectionRequest): string {
+    private static createWebsiteAnalysisPrompt(request: WebsiteConnectionRequest, domainCheck: DomainCheckResult): string {
         return `Analyze this website connection request for potential phishing/fraud:
 
 WEBSITE CONNECTION REQUEST:
@@ -133,6 +202,10 @@ WEBSITE METADATA:
 - Description: ${request.metadata.description || 'Not provided'}
 - Favicon: ${request.metadata.favicon || 'Not provided'}
 ` : ''}
+DETERMINISTIC DOMAIN CHECK:
+- Registrable Domain: ${domainCheck.registrableDomain}${domainCheck.isPunycode ? ` (displays as ${domainCheck.unicodeHostname})` : ''}
+- On Legitimate dApp List: ${domainCheck.isLegitimate ? 'Yes' : 'No'}
+${domainCheck.warnings.length > 0 ? domainCheck.warnings.map((w) => `- ${w}`).join('\n') : '- No lookalike of a known dApp domain found'}
 
 Please analyze this website for:
 1. Phishing indicators (typosquatting, suspicious domains)